@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AccountError, createAccount } from '@/lib/accounts';
+import { createSession, sessionInfo, setSessionCookie } from '@/lib/session';
+
+// First-run setup: creates the very first account and logs it in. Later accounts
+// are added by a bot admin from the team panel.
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = (await request.json().catch(() => ({}))) as {
+      username?: string;
+      password?: string;
+    };
+    if (!username?.trim() || !password) {
+      return NextResponse.json({ error: 'Username and password required' }, { status: 400 });
+    }
+
+    const account = await createAccount(username, password, { onlyIfFirst: true });
+    const session = await createSession(account.id, null);
+
+    const result = NextResponse.json(sessionInfo(account, null));
+    setSessionCookie(result, session.id, session.expiresAt);
+    return result;
+  } catch (error) {
+    if (error instanceof AccountError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Account setup error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
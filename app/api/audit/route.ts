@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuditFilter, auditToCsv, queryAudit } from '@/lib/audit';
+import { resolveAdminBot } from '@/lib/session';
+
+// The viewer only needs the most recent entries; exports contain every match
+const VIEW_LIMIT = 500;
+
+// Audit log of the session's bot, for admins. ?format=json|csv downloads the
+// filtered log as a file.
+export async function GET(request: NextRequest) {
+  try {
+    const botId = await resolveAdminBot(request);
+    if (botId instanceof NextResponse) return botId;
+
+    const params = request.nextUrl.searchParams;
+    const outcome = params.get('outcome');
+    const filter: AuditFilter = {
+      botId,
+      username: params.get('username') || undefined,
+      method: params.get('method') || undefined,
+      search: params.get('search') || undefined,
+      outcome: outcome === 'success' || outcome === 'error' ? outcome : undefined,
+      from: params.get('from') || undefined,
+      to: params.get('to') || undefined,
+    };
+    const entries = await queryAudit(filter);
+
+    const format = params.get('format');
+    if (format === 'csv' || format === 'json') {
+      const filename = `botclienty-audit-${botId}-${new Date().toISOString().slice(0, 10)}.${format}`;
+      return new NextResponse(
+        format === 'csv' ? auditToCsv(entries) : JSON.stringify(entries, null, 2),
+        {
+          headers: {
+            'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json',
+            'Content-Disposition': `attachment; filename="${filename}"`,
+          },
+        }
+      );
+    }
+
+    return NextResponse.json({ entries: entries.slice(0, VIEW_LIMIT), total: entries.length });
+  } catch (error) {
+    console.error('Audit log error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAccount, setBotRole } from '@/lib/accounts';
+import { rateLimits } from '@/lib/rate-limit';
+import { resolveAccountSession, sessionInfo, setSessionBot } from '@/lib/session';
+import { assertVaultConfigured, storeBotToken, VaultConfigError } from '@/lib/vault';
+
+const DISCORD_API_BASE = 'https://discord.com/api/v10';
+
+// Connect a bot: validates the token once, vaults it and makes the caller the
+// bot's admin. Whoever holds the token owns the bot, so this also recovers a bot
+// whose admins are gone or whose token was reset.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await resolveAccountSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Not logged in' }, { status: 401 });
+    }
+
+    assertVaultConfigured();
+
+    const { token } = (await request.json().catch(() => ({}))) as { token?: string };
+    if (!token?.trim()) {
+      return NextResponse.json({ error: 'Bot token required' }, { status: 400 });
+    }
+
+    const authorization = `Bot ${token.trim()}`;
+    const response = await rateLimits.schedule(authorization, 'GET', ['users', '@me'], () =>
+      fetch(`${DISCORD_API_BASE}/users/@me`, { headers: { Authorization: authorization } })
+    );
+    if (!response.ok) {
+      return NextResponse.json({ error: 'Invalid bot token' }, { status: 401 });
+    }
+
+    const user = await response.json();
+    if (!user.bot) {
+      return NextResponse.json({ error: 'Not a bot token' }, { status: 400 });
+    }
+
+    await storeBotToken(user.id, token.trim());
+    await setBotRole(user.id, session.account.username, 'admin');
+    await setSessionBot(request, user.id);
+
+    const account = (await getAccount(session.account.id)) ?? session.account;
+    return NextResponse.json({ user, ...sessionInfo(account, user.id) });
+  } catch (error) {
+    if (error instanceof VaultConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    console.error('Connect bot error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
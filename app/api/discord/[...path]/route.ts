@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const DISCORD_API_BASE = 'https://discord.com/api/v10';
+import { sendDiscordRequest } from '@/lib/discord-proxy';
+import { resolveSession } from '@/lib/session';
 
 async function handleDiscordRequest(
   request: NextRequest,
@@ -8,52 +8,46 @@ async function handleDiscordRequest(
   method: string
 ) {
   const { path } = params;
-  const authorization = request.headers.get('authorization');
-
-  if (!authorization) {
-    return NextResponse.json({ error: 'Authorization header required' }, { status: 401 });
-  }
 
   try {
-    const url = new URL(`${DISCORD_API_BASE}/${path.join('/')}`);
-
-    if (method === 'GET') {
-      const searchParams = request.nextUrl.searchParams;
-      searchParams.forEach((value, key) => {
-        url.searchParams.append(key, value);
-      });
+    // The bot token comes from the server-side vault, never from the browser
+    const session = await resolveSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Not logged in' }, { status: 401 });
     }
 
-    const headers: HeadersInit = {
-      Authorization: authorization,
-      'Content-Type': 'application/json',
-    };
-
-    const options: RequestInit = {
-      method,
-      headers,
-    };
+    // Query parameters go along with every method (webhook executions take
+    // ?wait= and ?thread_id=); botId only picks the session's bot
+    const query = new URLSearchParams();
+    request.nextUrl.searchParams.forEach((value, key) => {
+      if (key !== 'botId') query.append(key, value);
+    });
 
+    const contentType = request.headers.get('content-type') ?? '';
+    let body: string | ArrayBuffer | undefined;
     if (method !== 'GET' && method !== 'HEAD' && method !== 'DELETE') {
-      const body = await request.text();
-      if (body) {
-        options.body = body;
+      if (contentType.startsWith('multipart/form-data')) {
+        // Buffered rather than streamed so the exact bytes can be resent when a
+        // rate-limited request is retried
+        const buffer = await request.arrayBuffer();
+        if (buffer.byteLength > 0) body = buffer;
+      } else {
+        body = (await request.text()) || undefined;
       }
     }
 
-    const response = await fetch(url.toString(), options);
-
-    if (response.status === 204) {
-      return new NextResponse(null, { status: 204 });
-    }
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      return NextResponse.json(data, { status: response.status });
+    const { status, data, headers } = await sendDiscordRequest(session, {
+      method,
+      path,
+      query,
+      body,
+      contentType,
+    });
+
+    if (status === 204) {
+      return new NextResponse(null, { status, headers });
     }
-
-    return NextResponse.json(data);
+    return NextResponse.json(data, { status, headers });
   } catch (error) {
     console.error('Discord API proxy error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
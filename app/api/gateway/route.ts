@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { gatewayHub, GatewayStreamEvent } from '@/lib/gateway-hub';
+import { BotSession, resolveAccountSession, resolveBotSession } from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+const KEEP_ALIVE_INTERVAL = 25000;
+
+// Relays Gateway events to the browser as Server-Sent Events. One stream carries
+// every bot listed in ?bots= (default: the session's bot); each event names its bot.
+export async function GET(request: NextRequest) {
+  const session = await resolveAccountSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not logged in' }, { status: 401 });
+  }
+
+  const requested = request.nextUrl.searchParams.get('bots')?.split(',').filter(Boolean) ?? [
+    session.botId,
+  ];
+  const bots = (
+    await Promise.all(requested.map((botId) => resolveBotSession(session, botId)))
+  ).filter((bot): bot is BotSession => bot !== null);
+  if (bots.length === 0) {
+    return NextResponse.json({ error: 'No bot to connect' }, { status: 400 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const unsubscribes = bots.map((bot) =>
+        gatewayHub.subscribe(bot.botId, bot.token, ({ event, data }: GatewayStreamEvent) => {
+          write(`event: ${event}\ndata: ${JSON.stringify({ botId: bot.botId, ...data })}\n\n`);
+        })
+      );
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(keepAlive);
+        unsubscribes.forEach((unsubscribe) => unsubscribe());
+        try {
+          controller.close();
+        } catch {
+          // already closed by the runtime
+        }
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
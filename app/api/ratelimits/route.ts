@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { rateLimits } from '@/lib/rate-limit';
+import { resolveSession } from '@/lib/session';
+
+export async function GET(request: NextRequest) {
+  const session = await resolveSession(request);
+
+  if (!session) {
+    return NextResponse.json({ error: 'Not logged in' }, { status: 401 });
+  }
+
+  return NextResponse.json(rateLimits.snapshot(session.authorization));
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSchedule, errorResponse, isScheduleChanges, updateSchedule } from '@/lib/scheduler';
+import { resolveSession } from '@/lib/session';
+
+// One scheduled message: pausing, resuming, renaming and retiming it, or
+// deleting it. Its creator or an admin may.
+
+type Params = { params: { id: string } };
+
+export async function PATCH(request: NextRequest, { params }: Params) {
+  try {
+    const session = await resolveSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Not logged in' }, { status: 401 });
+    }
+
+    const changes: unknown = await request.json().catch(() => null);
+    if (!isScheduleChanges(changes)) {
+      return NextResponse.json({ error: 'Invalid changes' }, { status: 400 });
+    }
+    return NextResponse.json(await updateSchedule(session, params.id, changes));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: Params) {
+  try {
+    const session = await resolveSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Not logged in' }, { status: 401 });
+    }
+
+    await deleteSchedule(session, params.id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
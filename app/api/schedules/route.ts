@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createSchedule,
+  errorResponse,
+  isScheduleInput,
+  listScheduleRuns,
+  listSchedules,
+} from '@/lib/scheduler';
+import { resolveSession } from '@/lib/session';
+
+// Scheduled messages of the session's bot. Every member can see them; sending
+// rights are checked when one is created and again whenever it runs.
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await resolveSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Not logged in' }, { status: 401 });
+    }
+
+    const [jobs, runs] = await Promise.all([
+      listSchedules(session.botId),
+      listScheduleRuns(session.botId),
+    ]);
+    return NextResponse.json({ jobs, runs });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Multipart: "schedule" holds the channel and timing, "payload_json" the message
+// as it would be posted, and files[n] its files
+export async function POST(request: NextRequest) {
+  try {
+    const session = await resolveSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Not logged in' }, { status: 401 });
+    }
+
+    const form = await request.formData().catch(() => null);
+    let input: unknown;
+    let payload: Record<string, unknown>;
+    try {
+      input = JSON.parse(String(form?.get('schedule')));
+      payload = JSON.parse(String(form?.get('payload_json')));
+    } catch {
+      return NextResponse.json({ error: 'Invalid schedule' }, { status: 400 });
+    }
+    if (!isScheduleInput(input) || !payload || typeof payload !== 'object') {
+      return NextResponse.json({ error: 'Invalid schedule' }, { status: 400 });
+    }
+
+    const files: File[] = [];
+    form?.forEach((value, key) => {
+      if (key.startsWith('files[') && typeof value !== 'string') files.push(value);
+    });
+
+    return NextResponse.json(await createSchedule(session, input, payload, files), {
+      status: 201,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
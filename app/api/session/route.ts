@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasAccounts, verifyLogin } from '@/lib/accounts';
+import {
+  clearSessionCookie,
+  createSession,
+  destroySession,
+  resolveAccountSession,
+  sessionInfo,
+  setSessionBot,
+  setSessionCookie,
+} from '@/lib/session';
+
+// Current account and bot; `setup` tells the login screen no account exists yet
+export async function GET(request: NextRequest) {
+  const session = await resolveAccountSession(request);
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Not logged in', setup: !(await hasAccounts()) },
+      { status: 401 }
+    );
+  }
+  return NextResponse.json(sessionInfo(session.account, session.botId));
+}
+
+// Log in with a BotClienty account; the first bot it is bound to is selected
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = (await request.json().catch(() => ({}))) as {
+      username?: string;
+      password?: string;
+    };
+    if (!username?.trim() || !password) {
+      return NextResponse.json({ error: 'Username and password required' }, { status: 400 });
+    }
+
+    const account = await verifyLogin(username, password);
+    if (!account) {
+      return NextResponse.json({ error: 'Invalid username or password' }, { status: 401 });
+    }
+
+    const botId = Object.keys(account.bots)[0] ?? null;
+    const session = await createSession(account.id, botId);
+
+    const result = NextResponse.json(sessionInfo(account, botId));
+    setSessionCookie(result, session.id, session.expiresAt);
+    return result;
+  } catch (error) {
+    console.error('Login error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Switch bots: remembers which bot the session opens with next time
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await resolveAccountSession(request);
+    if (!session) {
+      return NextResponse.json({ error: 'Not logged in' }, { status: 401 });
+    }
+
+    const { botId } = (await request.json().catch(() => ({}))) as { botId?: string };
+    if (!botId || !session.account.bots[botId]) {
+      return NextResponse.json({ error: 'Not a member of that bot' }, { status: 403 });
+    }
+
+    await setSessionBot(request, botId);
+    return NextResponse.json(sessionInfo(session.account, botId));
+  } catch (error) {
+    console.error('Switch bot error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Log out: forgets the session; vaulted tokens stay with the team
+export async function DELETE(request: NextRequest) {
+  try {
+    await destroySession(request);
+  } catch (error) {
+    console.error('Logout error:', error);
+  }
+  const result = new NextResponse(null, { status: 204 });
+  clearSessionCookie(result);
+  return result;
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  AccountError,
+  createAccount,
+  isRole,
+  listBotMembers,
+  removeBotMember,
+  setBotRole,
+} from '@/lib/accounts';
+import { resolveAdminBot } from '@/lib/session';
+
+// Team management for the session's bot; admins only
+
+function errorResponse(error: unknown) {
+  if (error instanceof AccountError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error('Team error:', error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const botId = await resolveAdminBot(request);
+    if (botId instanceof NextResponse) return botId;
+    return NextResponse.json(await listBotMembers(botId));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Adds a member or changes their role. A password creates the account if the
+// username is new.
+export async function PUT(request: NextRequest) {
+  try {
+    const botId = await resolveAdminBot(request);
+    if (botId instanceof NextResponse) return botId;
+
+    const { username, role, password } = (await request.json().catch(() => ({}))) as {
+      username?: string;
+      role?: string;
+      password?: string;
+    };
+    if (!username?.trim()) {
+      return NextResponse.json({ error: 'Username required' }, { status: 400 });
+    }
+    if (!isRole(role)) {
+      return NextResponse.json({ error: 'Unknown role' }, { status: 400 });
+    }
+
+    if (password) {
+      await createAccount(username, password);
+    }
+    return NextResponse.json(await setBotRole(botId, username, role));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const botId = await resolveAdminBot(request);
+    if (botId instanceof NextResponse) return botId;
+
+    const accountId = request.nextUrl.searchParams.get('accountId');
+    if (!accountId) {
+      return NextResponse.json({ error: 'accountId required' }, { status: 400 });
+    }
+
+    await removeBotMember(botId, accountId);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,6 @@
+import DiscordClient from '../../client';
+
+// Links to a channel or message; the client reads the selection from the URL
+export default function Channels() {
+  return <DiscordClient />;
+}
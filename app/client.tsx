@@ -1,5 +1,20 @@
 'use client';
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useImperativeHandle,
+  useContext,
+  useRef,
+  useCallback,
+  useMemo,
+} from 'react';
+import type { BotMember, Role as TeamRole } from '@/lib/accounts';
+import type { AuditEntry } from '@/lib/audit';
+import type { GatewayStatus } from '@/lib/gateway';
+import type { RateLimitSnapshot } from '@/lib/rate-limit';
+import type { ScheduledJob, ScheduledRun, ScheduleTiming } from '@/lib/scheduler';
+import type { SessionInfo } from '@/lib/session';
 
 // ============ TYPES ============
 
@@ -38,8 +53,119 @@ type Channel = {
   topic?: string | null;
   nsfw?: boolean;
   parent_id?: string | null;
+  guild_id?: string;
   rate_limit_per_user?: number;
   last_message_id?: string | null;
+  flags?: number;
+  // Forum and media channels only
+  available_tags?: ForumTag[];
+  default_sort_order?: number | null;
+  // Threads only
+  applied_tags?: string[];
+  owner_id?: string;
+  message_count?: number;
+  member_count?: number;
+  thread_metadata?: ThreadMetadata;
+  // Set when the bot has joined the thread
+  member?: ThreadMember;
+};
+
+type ForumTag = {
+  id: string;
+  name: string;
+  moderated: boolean;
+  emoji_id: string | null;
+  emoji_name: string | null;
+};
+
+type ThreadMetadata = {
+  archived: boolean;
+  auto_archive_duration: number;
+  archive_timestamp: string;
+  locked: boolean;
+  invitable?: boolean;
+};
+
+type ThreadMember = {
+  id?: string;
+  user_id?: string;
+  join_timestamp: string;
+  flags: number;
+};
+
+// Thread listings come with the bot's memberships alongside
+type ThreadList = {
+  threads: Channel[];
+  members: ThreadMember[];
+  has_more?: boolean;
+};
+
+type Webhook = {
+  id: string;
+  type: number;
+  channel_id: string | null;
+  guild_id?: string | null;
+  name: string | null;
+  avatar: string | null;
+  // Only incoming webhooks have one; it is all it takes to post as the webhook
+  token?: string;
+  user?: User;
+  application_id?: string | null;
+};
+
+// Whom the composer sends as while it is set instead of the bot
+type WebhookSendAs = {
+  webhookId: string | null;
+  username: string;
+  avatarUrl: string;
+  // Thread of the channel to post into
+  threadId: string | null;
+};
+
+// Translations keyed by Discord locale, e.g. "de" or "pt-BR"
+type Localizations = Record<string, string>;
+
+// An application command: a slash command or a user or message context menu entry
+type ApplicationCommand = {
+  id?: string;
+  application_id?: string;
+  guild_id?: string;
+  version?: string;
+  type?: number;
+  name: string;
+  name_localizations?: Localizations | null;
+  description?: string;
+  description_localizations?: Localizations | null;
+  options?: CommandOption[];
+  // Permission bits a member needs; null lets everyone use the command, "0" only admins
+  default_member_permissions?: string | null;
+  contexts?: number[] | null;
+  integration_types?: number[];
+  nsfw?: boolean;
+};
+
+type CommandOption = {
+  type: number;
+  name: string;
+  name_localizations?: Localizations | null;
+  description: string;
+  description_localizations?: Localizations | null;
+  required?: boolean;
+  choices?: CommandChoice[];
+  // Subcommands of a group, or the options of a subcommand
+  options?: CommandOption[];
+  channel_types?: number[];
+  min_value?: number;
+  max_value?: number;
+  min_length?: number;
+  max_length?: number;
+  autocomplete?: boolean;
+};
+
+type CommandChoice = {
+  name: string;
+  name_localizations?: Localizations | null;
+  value: string | number;
 };
 
 type Role = {
@@ -60,9 +186,21 @@ type Attachment = {
   content_type?: string | null;
   width?: number | null;
   height?: number | null;
+  description?: string | null;
+};
+
+// A file picked in the composer that has not been uploaded yet
+type PendingAttachment = {
+  key: string;
+  file: File;
+  previewUrl: string | null;
+  spoiler: boolean;
+  description: string;
 };
 
 type Embed = {
+  // "rich" for embeds sent by bots; link previews have other types
+  type?: string;
   title?: string;
   description?: string;
   url?: string;
@@ -79,10 +217,12 @@ type Embed = {
   };
   image?: { url: string };
   thumbnail?: { url: string };
+  timestamp?: string;
 };
 
 type Message = {
   id: string;
+  channel_id?: string;
   content: string;
   author: User;
   timestamp: string;
@@ -91,11 +231,85 @@ type Message = {
   mentions?: User[];
   reactions?: Reaction[];
   edited_timestamp?: string | null;
-  reference?: {
+  type?: number;
+  message_reference?: {
     message_id?: string;
     channel_id?: string;
     guild_id?: string;
   };
+  // Included with replies; null when the replied-to message was deleted
+  referenced_message?: Message | null;
+  // Thread started from this message
+  thread?: Channel;
+  components?: MessageComponentData[];
+  flags?: number;
+  // Set on messages posted through a webhook
+  webhook_id?: string;
+  pinned?: boolean;
+};
+
+type PinnedMessage = {
+  pinned_at: string;
+  message: Message;
+};
+
+type PinList = {
+  items: PinnedMessage[];
+  has_more: boolean;
+};
+
+// A message component: an action row, button, select menu or Components V2 layout
+// block. Which fields are set depends on the type.
+type MessageComponentData = {
+  type: number;
+  id?: number;
+  custom_id?: string;
+  // Buttons
+  style?: number;
+  label?: string;
+  emoji?: ComponentEmoji;
+  url?: string;
+  sku_id?: string;
+  disabled?: boolean;
+  // Select menus
+  options?: SelectOption[];
+  placeholder?: string;
+  min_values?: number;
+  max_values?: number;
+  // Layouts and content
+  components?: MessageComponentData[];
+  accessory?: MessageComponentData;
+  content?: string;
+  media?: UnfurledMedia;
+  description?: string | null;
+  spoiler?: boolean;
+  items?: { media: UnfurledMedia; description?: string | null; spoiler?: boolean }[];
+  file?: UnfurledMedia;
+  divider?: boolean;
+  spacing?: number;
+  accent_color?: number | null;
+};
+
+type ComponentEmoji = {
+  id?: string | null;
+  name?: string | null;
+  animated?: boolean;
+};
+
+type SelectOption = {
+  label: string;
+  value: string;
+  description?: string;
+  emoji?: ComponentEmoji;
+  default?: boolean;
+};
+
+type UnfurledMedia = {
+  url: string;
+  proxy_url?: string;
+  width?: number | null;
+  height?: number | null;
+  content_type?: string;
 };
 
 type Reaction = {
@@ -104,8 +318,27 @@ type Reaction = {
     name: string;
     animated?: boolean;
   };
+  // Normal and burst (super) reactions together
   count: number;
+  count_details?: { burst: number; normal: number };
   me: boolean;
+  me_burst?: boolean;
+  burst_colors?: string[];
+};
+
+// A custom emoji of a server
+type GuildEmoji = {
+  id: string;
+  name: string;
+  animated?: boolean;
+  // False while the server lacks the boosts the emoji needs
+  available?: boolean;
+};
+
+// Reacting with a super reaction, or taking the bot's own reaction back
+type ReactOptions = {
+  burst?: boolean;
+  remove?: boolean;
 };
 
 type Member = {
@@ -115,9 +348,28 @@ type Member = {
   joined_at: string;
 };
 
+// Lists and selection of a bot that is open but not shown, restored on switching back
+type BotWorkspace = {
+  guilds: Guild[];
+  dmChannels: Channel[];
+  channels: Channel[];
+  threads: Channel[];
+  roles: Role[];
+  members: Member[];
+  emojis: GuildEmoji[];
+  selectedGuildId: string | null;
+  selectedChannelId: string | null;
+  isDMView: boolean;
+};
+
 // ============ UTILITY FUNCTIONS ============
 
 const DISCORD_API_BASE = '/api/discord';
+const TEAM_ROLES: TeamRole[] = ['viewer', 'operator', 'moderator', 'admin'];
+
+function hasTeamRole(role: TeamRole | null | undefined, required: TeamRole) {
+  return role ? TEAM_ROLES.indexOf(role) >= TEAM_ROLES.indexOf(required) : false;
+}
 const DISCORD_CDN = 'https://cdn.discordapp.com';
 
 function formatUser(user: User) {
@@ -172,6 +424,18 @@ function parseDiscordMarkdown(content: string): React.ReactNode {
       continue;
     }
 
+    // Subtext
+    const subtextMatch = line.match(/^-#\s+(.+)$/);
+    if (subtextMatch) {
+      result.push(
+        <div key={`sub-${i}`} className="text-xs text-[#949ba4]">
+          {parseInlineMarkdown(subtextMatch[1])}
+        </div>
+      );
+      i++;
+      continue;
+    }
+
     // Headers
     const headerMatch = line.match(/^(#{1,3})\s+(.+)$/);
     if (headerMatch) {
@@ -516,8 +780,12 @@ function getChannelTypeIcon(type: number): string {
     2: '🔊', // Voice
     4: '📁', // Category
     5: '📢', // Announcement
+    10: '🧵', // Announcement thread
+    11: '🧵', // Public thread
+    12: '🔒', // Private thread
     13: '🎙️', // Stage
-    15: '🧵', // Forum
+    15: '💬', // Forum
+    16: '🖼️', // Media
   };
   return icons[type] || '#';
 }
@@ -529,22 +797,338 @@ function hexToRgb(color: number): string {
   return `${r}, ${g}, ${b}`;
 }
 
+function compareSnowflakes(a: string, b: string): number {
+  if (a.length !== b.length) return a.length - b.length;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// When a snowflake was created, in milliseconds since the epoch
+function snowflakeTime(id: string): number {
+  return Number(BigInt(id) >> BigInt(22)) + 1420070400000;
+}
+
+// Forum and media channels hold posts (threads) instead of messages
+function isForumChannel(channel: Channel): boolean {
+  return channel.type === 15 || channel.type === 16;
+}
+
+// ============ ROUTING ============
+
+// The selection mirrored in the URL: /channels/{guildId}/{channelId}/{messageId}
+// for servers and /channels/@me/{dmId}/{messageId} for direct messages
+type ChannelRoute = {
+  isDM: boolean;
+  guildId: string | null;
+  channelId: string | null;
+  messageId: string | null;
+};
+
+function parseChannelRoute(pathname: string): ChannelRoute | null {
+  const [root, scope, channelId, messageId] = pathname.split('/').filter(Boolean);
+  if (root !== 'channels' || !scope) return null;
+  const isDM = scope === '@me';
+  return {
+    isDM,
+    guildId: isDM ? null : scope,
+    channelId: channelId ?? null,
+    messageId: messageId ?? null,
+  };
+}
+
+function channelRoutePath({ isDM, guildId, channelId, messageId }: ChannelRoute): string {
+  const scope = isDM ? '@me' : guildId;
+  if (!scope) return '/';
+  return ['/channels', scope, channelId, channelId && messageId].filter(Boolean).join('/');
+}
+
+// ============ GATEWAY EVENTS ============
+
+const NO_MESSAGES: Message[] = [];
+const NO_CACHED_CHANNELS: Record<string, Message[]> = {};
+const MESSAGE_PAGE_SIZE = 50;
+// Cached history per channel; pages further away than this are dropped
+const MAX_CACHED_MESSAGES = 6 * MESSAGE_PAGE_SIZE;
+
+// Inserts a message in id order, or replaces it when it is already present.
+function upsertMessage(messages: Message[], message: Message): Message[] {
+  const index = messages.findIndex((m) => m.id === message.id);
+  if (index !== -1) {
+    const next = [...messages];
+    next[index] = { ...messages[index], ...message };
+    return next;
+  }
+  let insertAt = messages.length;
+  while (insertAt > 0 && compareSnowflakes(messages[insertAt - 1].id, message.id) > 0) {
+    insertAt--;
+  }
+  return [...messages.slice(0, insertAt), message, ...messages.slice(insertAt)];
+}
+
+// Puts a freshly fetched page of a channel's latest messages in place of the
+// cached ones it covers. Older history is kept when it joins up with the page.
+function mergeLatestPage(cached: Message[], page: Message[]): Message[] {
+  const oldest = page[0];
+  if (!oldest || page.length < MESSAGE_PAGE_SIZE) return page;
+  const newestCached = cached[cached.length - 1];
+  // Missed more than a page since the cache was filled: the gap cannot be told
+  if (!newestCached || compareSnowflakes(newestCached.id, oldest.id) < 0) return page;
+  return [...cached.filter((m) => compareSnowflakes(m.id, oldest.id) < 0), ...page];
+}
+
+function mapMessage(
+  messages: Message[],
+  id: string,
+  update: (message: Message) => Message
+): Message[] {
+  const index = messages.findIndex((m) => m.id === id);
+  if (index === -1) return messages;
+  const next = [...messages];
+  next[index] = update(messages[index]);
+  return next;
+}
+
+function sameEmoji(a: Reaction['emoji'], b: Reaction['emoji']) {
+  return a.id ? a.id === b.id : a.name === b.name;
+}
+
+function reactionKey(emoji: Reaction['emoji']) {
+  return emoji.id ?? emoji.name;
+}
+
+// Reaction routes name custom emoji as name:id
+function reactionEmojiParam(emoji: Reaction['emoji']) {
+  return encodeURIComponent(emoji.id ? `${emoji.name}:${emoji.id}` : emoji.name);
+}
+
+// Older payloads carry only the total, which is all normal reactions
+function reactionCounts(reaction: Reaction) {
+  return reaction.count_details ?? { burst: 0, normal: reaction.count };
+}
+
+function applyReactionDelta(
+  message: Message,
+  emoji: Reaction['emoji'],
+  delta: 1 | -1,
+  byMe: boolean,
+  burst = false
+): Message {
+  const reactions = message.reactions ?? [];
+  const existing = reactions.find((r) => sameEmoji(r.emoji, emoji));
+  if (!existing) {
+    if (delta < 0) return message;
+    const added: Reaction = {
+      emoji,
+      count: 1,
+      count_details: { burst: burst ? 1 : 0, normal: burst ? 0 : 1 },
+      me: byMe && !burst,
+      me_burst: byMe && burst,
+    };
+    return { ...message, reactions: [...reactions, added] };
+  }
+  const count = existing.count + delta;
+  const counts = reactionCounts(existing);
+  const kind = burst ? 'burst' : 'normal';
+  const updated: Reaction = {
+    ...existing,
+    count,
+    count_details: { ...counts, [kind]: Math.max(0, counts[kind] + delta) },
+    ...(byMe && (burst ? { me_burst: delta > 0 } : { me: delta > 0 })),
+  };
+  return {
+    ...message,
+    reactions:
+      count <= 0
+        ? reactions.filter((r) => r !== existing)
+        : reactions.map((r) => (r === existing ? updated : r)),
+  };
+}
+
+// Gateway payloads of the message events; updates carry only the changed fields
+type MessageUpdateEvent = Partial<Message> & { id: string; channel_id: string };
+type MessageDeleteEvent = { id: string; channel_id: string };
+type MessageDeleteBulkEvent = { ids: string[]; channel_id: string };
+// The REMOVE_ALL event has no user or emoji, and REMOVE_EMOJI no user
+type ReactionEvent = {
+  channel_id: string;
+  message_id: string;
+  user_id?: string;
+  emoji: Reaction['emoji'];
+  burst?: boolean;
+};
+
+// Applies a Gateway dispatch to the per-channel message cache. Channels that were
+// never loaded are left alone; they are fetched in full when first opened.
+// Detached channels, whose cache stops short of the newest messages, take new
+// messages only once scrolled back down to them.
+function applyGatewayEvent(
+  cache: Record<string, Message[]>,
+  type: string,
+  data: unknown,
+  selfId: string,
+  detached: Record<string, boolean> = {}
+): Record<string, Message[]> {
+  const channelId = (data as { channel_id?: string } | null)?.channel_id;
+  if (!channelId || !cache[channelId]) return cache;
+
+  const current = cache[channelId];
+  let next = current;
+
+  switch (type) {
+    case 'MESSAGE_CREATE':
+      if (detached[channelId]) break;
+      next = upsertMessage(current, data as Message);
+      if (next.length > MAX_CACHED_MESSAGES) next = next.slice(-MAX_CACHED_MESSAGES);
+      break;
+    case 'MESSAGE_UPDATE': {
+      const update = data as MessageUpdateEvent;
+      next = mapMessage(current, update.id, (m) => ({ ...m, ...update }));
+      break;
+    }
+    case 'MESSAGE_DELETE': {
+      const { id } = data as MessageDeleteEvent;
+      next = current.filter((m) => m.id !== id);
+      break;
+    }
+    case 'MESSAGE_DELETE_BULK': {
+      const ids = new Set((data as MessageDeleteBulkEvent).ids);
+      next = current.filter((m) => !ids.has(m.id));
+      break;
+    }
+    case 'MESSAGE_REACTION_ADD':
+    case 'MESSAGE_REACTION_REMOVE': {
+      const reaction = data as ReactionEvent;
+      const delta = type === 'MESSAGE_REACTION_ADD' ? 1 : -1;
+      next = mapMessage(current, reaction.message_id, (m) =>
+        applyReactionDelta(m, reaction.emoji, delta, reaction.user_id === selfId, !!reaction.burst)
+      );
+      break;
+    }
+    case 'MESSAGE_REACTION_REMOVE_ALL':
+      next = mapMessage(current, (data as ReactionEvent).message_id, (m) => ({
+        ...m,
+        reactions: [],
+      }));
+      break;
+    case 'MESSAGE_REACTION_REMOVE_EMOJI': {
+      const { message_id, emoji } = data as ReactionEvent;
+      next = mapMessage(current, message_id, (m) => ({
+        ...m,
+        reactions: (m.reactions ?? []).filter((r) => !sameEmoji(r.emoji, emoji)),
+      }));
+      break;
+    }
+  }
+
+  return next === current ? cache : { ...cache, [channelId]: next };
+}
+
+// Marks the threads of a listing that the bot has joined
+function withThreadMembers({ threads, members }: ThreadList): Channel[] {
+  return threads.map((thread) => {
+    const member = members?.find((m) => m.id === thread.id);
+    return member ? { ...thread, member } : thread;
+  });
+}
+
+function upsertThreads(threads: Channel[], updates: Channel[]): Channel[] {
+  const byId = new Map(threads.map((thread) => [thread.id, thread]));
+  updates.forEach((thread) => byId.set(thread.id, { ...byId.get(thread.id), ...thread }));
+  return Array.from(byId.values());
+}
+
+// Gateway payloads of the thread events besides THREAD_CREATE and THREAD_UPDATE,
+// which are the thread itself
+type ThreadDeleteEvent = { id: string; guild_id: string; parent_id: string | null };
+type ThreadListSyncEvent = ThreadList & { guild_id: string; channel_ids?: string[] };
+// The bot's own membership of a thread
+type ThreadMemberUpdateEvent = ThreadMember & { id: string; guild_id: string };
+type ThreadMembersUpdateEvent = {
+  id: string;
+  guild_id: string;
+  member_count: number;
+  added_members?: ThreadMember[];
+  removed_member_ids?: string[];
+};
+
+// Applies a Gateway thread dispatch to the active bot's loaded threads
+function applyThreadEvent(
+  threads: Channel[],
+  type: string,
+  data: unknown,
+  selfId: string
+): Channel[] {
+  switch (type) {
+    case 'THREAD_CREATE':
+    case 'THREAD_UPDATE':
+      return upsertThreads(threads, [data as Channel]);
+    case 'THREAD_DELETE': {
+      const { id } = data as ThreadDeleteEvent;
+      return threads.filter((thread) => thread.id !== id);
+    }
+    // A new message in a thread is its latest activity
+    case 'MESSAGE_CREATE': {
+      const message = data as Message;
+      if (!threads.some((thread) => thread.id === message.channel_id)) return threads;
+      return threads.map((thread) =>
+        thread.id === message.channel_id
+          ? {
+              ...thread,
+              last_message_id: message.id,
+              message_count: (thread.message_count ?? 0) + 1,
+            }
+          : thread
+      );
+    }
+    case 'THREAD_LIST_SYNC':
+      return upsertThreads(threads, withThreadMembers(data as ThreadListSyncEvent));
+    case 'THREAD_MEMBER_UPDATE': {
+      const member = data as ThreadMemberUpdateEvent;
+      return threads.map((thread) => (thread.id === member.id ? { ...thread, member } : thread));
+    }
+    case 'THREAD_MEMBERS_UPDATE': {
+      const update = data as ThreadMembersUpdateEvent;
+      const added = update.added_members?.find((member) => member.user_id === selfId);
+      const removed = !!update.removed_member_ids?.includes(selfId);
+      if (!added && !removed) return threads;
+      return threads.map((thread) =>
+        thread.id === update.id ? { ...thread, member: added } : thread
+      );
+    }
+  }
+  return threads;
+}
+
 // ============ API FUNCTIONS ============
 
-async function authedFetch<T>(token: string, endpoint: string, options?: RequestInit): Promise<T> {
+// The active bot, provided by DiscordClient to the panels that make requests as it
+const ActiveBotContext = React.createContext<string | null>(null);
+
+// The bot the API helpers act as is sent as X-Bot-Id
+function botHeaders(botId: string | null): Record<string, string> {
+  return botId ? { 'X-Bot-Id': botId } : {};
+}
+
+// The proxy attaches the bot token server-side from the session cookie
+async function authedFetch<T>(
+  botId: string | null,
+  endpoint: string,
+  options?: RequestInit
+): Promise<T> {
+  // FormData bodies need the browser-generated multipart Content-Type (with boundary)
+  const isFormData = typeof FormData !== 'undefined' && options?.body instanceof FormData;
   const response = await fetch(`${DISCORD_API_BASE}${endpoint}`, {
     ...options,
     headers: {
+      ...botHeaders(botId),
       ...options?.headers,
-      Authorization: `Bot ${token}`,
-      'Content-Type': 'application/json',
+      ...(isFormData ? {} : { 'Content-Type': 'application/json' }),
     },
     cache: 'no-store',
   });
 
   if (!response.ok) {
     const data = await response.json();
-    throw new Error(data.message || 'Request failed');
+    throw new Error(data.message || data.error || 'Request failed');
   }
 
   const contentType = response.headers.get('content-type');
@@ -554,6 +1138,81 @@ async function authedFetch<T>(token: string, endpoint: string, options?: Request
   return response as any;
 }
 
+async function fetchRateLimits(botId: string | null): Promise<RateLimitSnapshot> {
+  const response = await fetch('/api/ratelimits', {
+    headers: botHeaders(botId),
+    cache: 'no-store',
+  });
+  if (!response.ok) throw new Error('Failed to load rate limits');
+  return response.json();
+}
+
+// Queues a message to be posted later: the multipart body it would be posted
+// with, plus its channel and timing as "schedule"
+async function scheduleMessage(botId: string | null, form: FormData): Promise<ScheduledJob> {
+  const response = await fetch('/api/schedules', {
+    method: 'POST',
+    headers: botHeaders(botId),
+    body: form,
+    cache: 'no-store',
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Failed to schedule message');
+  return data;
+}
+
+// Requests to BotClienty's own account endpoints, which answer errors with { error }
+async function appRequest<T>(
+  botId: string | null,
+  url: string,
+  method = 'GET',
+  body?: unknown
+): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      ...botHeaders(botId),
+      ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    cache: 'no-store',
+  });
+  if (response.status === 204) return undefined as T;
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Request failed');
+  return data;
+}
+
+// Resolves to { setup } when logged out; setup means no account exists yet
+async function fetchSession(): Promise<SessionInfo | { setup: boolean }> {
+  const response = await fetch('/api/session', { cache: 'no-store' });
+  const data = await response.json();
+  if (response.status === 401) return { setup: Boolean(data.setup) };
+  if (!response.ok) throw new Error(data.error || 'Failed to load session');
+  return data;
+}
+
+async function logIn(username: string, password: string, setup: boolean) {
+  return appRequest<SessionInfo>(null, setup ? '/api/accounts' : '/api/session', 'POST', {
+    username,
+    password,
+  });
+}
+
+// Sends a bot token to the server once; it is vaulted there, never kept in the browser
+async function connectBot(token: string) {
+  return appRequest<SessionInfo & { user: User }>(null, '/api/bots', 'POST', { token });
+}
+
+// Makes the session open with this bot next time
+async function selectBot(botId: string) {
+  return appRequest<SessionInfo>(null, '/api/session', 'PATCH', { botId });
+}
+
+async function endSession() {
+  await fetch('/api/session', { method: 'DELETE' });
+}
+
 // ============ COMPONENTS ============
 
 const Button: React.FC<
@@ -607,58 +1266,428 @@ const Card: React.FC<{ children: React.ReactNode; className?: string; interactiv
   </div>
 );
 
-// ============ MESSAGE COMPONENTS ============
+// ============ INTERACTIVE COMPONENTS ============
+
+// Discord's message components: action rows of buttons and select menus, and the
+// Components V2 layout blocks. Presses and picks become interactions sent by
+// users, which a bot cannot make, so using a component shows what it would send.
+
+const COMPONENT_TYPES = {
+  ACTION_ROW: 1,
+  BUTTON: 2,
+  STRING_SELECT: 3,
+  USER_SELECT: 5,
+  ROLE_SELECT: 6,
+  MENTIONABLE_SELECT: 7,
+  CHANNEL_SELECT: 8,
+  SECTION: 9,
+  TEXT_DISPLAY: 10,
+  THUMBNAIL: 11,
+  MEDIA_GALLERY: 12,
+  FILE: 13,
+  SEPARATOR: 14,
+  CONTAINER: 17,
+};
 
-const MessageEmbed: React.FC<{ embed: Embed }> = ({ embed }) => {
-  const borderColor = embed.color ? `rgb(${hexToRgb(embed.color)})` : 'rgb(79, 84, 92)';
+const BUTTON_STYLES = [
+  { style: 1, label: 'Primary', className: 'bg-[#5865f2] hover:bg-[#4752c4] text-white' },
+  { style: 2, label: 'Secondary', className: 'bg-[#4e5058] hover:bg-[#6d6f78] text-white' },
+  { style: 3, label: 'Success', className: 'bg-[#248046] hover:bg-[#1a6334] text-white' },
+  { style: 4, label: 'Danger', className: 'bg-[#da373c] hover:bg-[#a12828] text-white' },
+  { style: 5, label: 'Link', className: 'bg-[#4e5058] hover:bg-[#6d6f78] text-white' },
+];
+const BUTTON_STYLE_LINK = 5;
+const BUTTON_STYLE_PREMIUM = 6;
+
+// Users, roles, mentionables and channels fill these menus themselves
+const AUTO_SELECT_LABELS: Record<number, string> = {
+  [COMPONENT_TYPES.USER_SELECT]: 'users',
+  [COMPONENT_TYPES.ROLE_SELECT]: 'roles',
+  [COMPONENT_TYPES.MENTIONABLE_SELECT]: 'users and roles',
+  [COMPONENT_TYPES.CHANNEL_SELECT]: 'channels',
+};
 
+function isSelectComponent(type: number) {
+  return type === COMPONENT_TYPES.STRING_SELECT || type in AUTO_SELECT_LABELS;
+}
+
+const ComponentEmojiIcon: React.FC<{ emoji: ComponentEmoji }> = ({ emoji }) =>
+  emoji.id ? (
+    <img
+      src={`${DISCORD_CDN}/emojis/${emoji.id}.${emoji.animated ? 'gif' : 'webp'}?size=32`}
+      alt={emoji.name ?? ''}
+      className="w-[18px] h-[18px] object-contain"
+    />
+  ) : (
+    <span>{emoji.name}</span>
+  );
+
+const ComponentButton: React.FC<{
+  button: MessageComponentData;
+  onUse: (notice: string) => void;
+}> = ({ button, onUse }) => {
+  const isLink = button.style === BUTTON_STYLE_LINK;
+  const className = `inline-flex items-center gap-1.5 h-8 px-4 rounded-[3px] text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+    BUTTON_STYLES.find((s) => s.style === button.style)?.className ?? BUTTON_STYLES[1].className
+  }`;
+  const contents = (
+    <>
+      {button.emoji && <ComponentEmojiIcon emoji={button.emoji} />}
+      {button.style === BUTTON_STYLE_PREMIUM ? 'Premium' : button.label}
+      {isLink && (
+        <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M19 19H5V5h7V3H5a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14c1.1 0 2-.9 2-2v-7h-2v7zM14 3v2h3.59l-9.83 9.83 1.41 1.41L19 6.41V10h2V3h-7z" />
+        </svg>
+      )}
+    </>
+  );
+
+  if (isLink && button.url && !button.disabled) {
+    return (
+      <a href={button.url} target="_blank" rel="noopener noreferrer" className={className}>
+        {contents}
+      </a>
+    );
+  }
   return (
-    <div
-      className="glass-light border-l-4 rounded-lg p-4 my-2 max-w-lg"
-      style={{ borderLeftColor: borderColor }}
+    <button
+      type="button"
+      disabled={button.disabled}
+      onClick={() =>
+        onUse(
+          button.sku_id
+            ? `Opens the store page for SKU ${button.sku_id}`
+            : `Pressing this sends custom_id "${button.custom_id ?? ''}"`
+        )
+      }
+      className={className}
     >
-      {embed.author && (
-        <div className="flex items-center gap-2 mb-2">
-          {embed.author.icon_url && (
-            <img src={embed.author.icon_url} alt="" className="w-6 h-6 rounded-full" />
-          )}
-          <span className="text-sm font-medium text-gray-200">{embed.author.name}</span>
-        </div>
-      )}
+      {contents}
+    </button>
+  );
+};
 
-      {embed.title && (
-        <div className="font-semibold text-blue-400 mb-2 hover:underline cursor-pointer">
-          {embed.url ? (
-            <a href={embed.url} target="_blank" rel="noopener noreferrer">
-              {embed.title}
-            </a>
+const ComponentSelect: React.FC<{
+  select: MessageComponentData;
+  onUse: (notice: string) => void;
+}> = ({ select, onUse }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const autoLabel = AUTO_SELECT_LABELS[select.type];
+  const defaults = select.options?.filter((option) => option.default) ?? [];
+
+  return (
+    <div className="w-full max-w-[400px]">
+      <button
+        type="button"
+        disabled={select.disabled}
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 h-10 px-3 rounded bg-[#1e1f22] border border-[#1e1f22] hover:border-[#4e5058] text-left text-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        <span
+          className={`flex-1 truncate ${defaults.length > 0 ? 'text-[#dbdee1]' : 'text-[#949ba4]'}`}
+        >
+          {defaults.length > 0
+            ? defaults.map((option) => option.label).join(', ')
+            : select.placeholder || (autoLabel ? `Select ${autoLabel}` : 'Make a selection')}
+        </span>
+        <svg
+          className={`w-4 h-4 text-[#b5bac1] transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path d="M7.41 8.59L12 13.17l4.59-4.58L18 10l-6 6-6-6 1.41-1.41z" />
+        </svg>
+      </button>
+      {isOpen && (
+        <div className="mt-1 rounded bg-[#2b2d31] border border-[#1e1f22] shadow-lg max-h-64 overflow-y-auto">
+          {autoLabel ? (
+            <p className="px-3 py-2 text-sm text-[#949ba4]">
+              Discord lists {autoLabel} here when a user opens the menu.
+            </p>
           ) : (
-            embed.title
+            select.options?.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => {
+                  setIsOpen(false);
+                  onUse(
+                    `Picking this sends custom_id "${select.custom_id ?? ''}" with value "${option.value}"`
+                  );
+                }}
+                className="w-full flex items-center gap-2 px-3 py-2 text-left hover:bg-[#35363c] transition-colors"
+              >
+                {option.emoji && <ComponentEmojiIcon emoji={option.emoji} />}
+                <span className="min-w-0">
+                  <span className="block text-sm text-[#dbdee1] truncate">{option.label}</span>
+                  {option.description && (
+                    <span className="block text-xs text-[#949ba4] truncate">
+                      {option.description}
+                    </span>
+                  )}
+                </span>
+              </button>
+            ))
           )}
         </div>
       )}
+    </div>
+  );
+};
 
-      {embed.description && (
-        <div className="text-sm text-gray-300 whitespace-pre-wrap mb-3">
-          {parseDiscordMarkdown(embed.description)}
-        </div>
-      )}
+const ComponentMedia: React.FC<{
+  media: UnfurledMedia;
+  description?: string | null;
+  className: string;
+}> = ({ media, description, className }) =>
+  media.content_type?.startsWith('video/') ? (
+    <video src={media.url} controls className={className} />
+  ) : (
+    <img src={media.url} alt={description ?? ''} className={className} />
+  );
 
-      {embed.fields && embed.fields.length > 0 && (
-        <div
-          className={`grid gap-2 ${embed.fields.some((f) => f.inline) ? 'grid-cols-2' : 'grid-cols-1'}`}
-        >
-          {embed.fields.map((field, i) => (
-            <div key={i} className={field.inline ? 'col-span-1' : 'col-span-2'}>
-              <div className="text-sm font-semibold text-gray-200 mb-1">{field.name}</div>
-              <div className="text-sm text-gray-400 whitespace-pre-wrap">
-                {parseDiscordMarkdown(field.value)}
-              </div>
+// Renders a message's components; using one explains what it would send
+const MessageComponents: React.FC<{ components: MessageComponentData[] }> = ({ components }) => {
+  const [notice, setNotice] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState<Set<number>>(new Set());
+
+  const renderComponent = (component: MessageComponentData, key: React.Key): React.ReactNode => {
+    switch (component.type) {
+      case COMPONENT_TYPES.ACTION_ROW:
+        return (
+          <div key={key} className="flex flex-wrap gap-2">
+            {component.components?.map(renderComponent)}
+          </div>
+        );
+      case COMPONENT_TYPES.BUTTON:
+        return <ComponentButton key={key} button={component} onUse={setNotice} />;
+      case COMPONENT_TYPES.SECTION:
+        return (
+          <div key={key} className="flex gap-3">
+            <div className="flex-1 min-w-0 space-y-1">
+              {component.components?.map(renderComponent)}
             </div>
-          ))}
-        </div>
-      )}
-
+            {component.accessory && (
+              <div className="flex-shrink-0">
+                {renderComponent(component.accessory, 'accessory')}
+              </div>
+            )}
+          </div>
+        );
+      case COMPONENT_TYPES.TEXT_DISPLAY:
+        return (
+          <div key={key} className="whitespace-pre-wrap break-words text-[#dbdee1] text-[15px]">
+            {parseDiscordMarkdown(component.content ?? '')}
+          </div>
+        );
+      case COMPONENT_TYPES.THUMBNAIL:
+        return (
+          component.media && (
+            <ComponentMedia
+              key={key}
+              media={component.media}
+              description={component.description}
+              className={`w-20 h-20 rounded-lg object-cover ${component.spoiler ? 'blur-md' : ''}`}
+            />
+          )
+        );
+      case COMPONENT_TYPES.MEDIA_GALLERY:
+        return (
+          <div
+            key={key}
+            className={`grid gap-1 max-w-lg ${(component.items?.length ?? 0) > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}
+          >
+            {component.items?.map((item, i) => (
+              <ComponentMedia
+                key={i}
+                media={item.media}
+                description={item.description}
+                className={`w-full max-h-80 rounded-lg object-cover ${item.spoiler ? 'blur-md' : ''}`}
+              />
+            ))}
+          </div>
+        );
+      case COMPONENT_TYPES.FILE:
+        return (
+          component.file && (
+            <a
+              key={key}
+              href={component.file.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 max-w-md px-3 py-2 rounded-lg bg-[#2b2d31] border border-[#1e1f22] text-sm text-[#00a8fc] hover:underline"
+            >
+              📎 {decodeURIComponent(component.file.url.split('?')[0].split('/').pop() ?? 'file')}
+            </a>
+          )
+        );
+      case COMPONENT_TYPES.SEPARATOR:
+        return (
+          <div key={key} className={component.spacing === 2 ? 'py-3' : 'py-1'}>
+            {component.divider !== false && <hr className="border-[#3f4147]" />}
+          </div>
+        );
+      case COMPONENT_TYPES.CONTAINER: {
+        const hidden = component.spoiler && !revealed.has(Number(key));
+        return (
+          <div
+            key={key}
+            className="relative max-w-lg rounded-lg bg-[#2b2d31] border border-[#1e1f22] border-l-4 p-4 space-y-2"
+            style={{
+              borderLeftColor:
+                component.accent_color != null
+                  ? `rgb(${hexToRgb(component.accent_color)})`
+                  : undefined,
+            }}
+          >
+            <div className={hidden ? 'blur-md pointer-events-none' : ''}>
+              <div className="space-y-2">{component.components?.map(renderComponent)}</div>
+            </div>
+            {hidden && (
+              <button
+                type="button"
+                onClick={() => setRevealed((prev) => new Set(prev).add(Number(key)))}
+                className="absolute inset-0 m-auto h-8 w-24 rounded-full bg-black/70 text-white text-xs font-bold uppercase"
+              >
+                Spoiler
+              </button>
+            )}
+          </div>
+        );
+      }
+      default:
+        return isSelectComponent(component.type) ? (
+          <ComponentSelect key={key} select={component} onUse={setNotice} />
+        ) : null;
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-2">
+      {components.map(renderComponent)}
+      {notice && (
+        <div className="flex items-start gap-2 max-w-lg px-3 py-2 rounded bg-[#2b2d31] text-xs text-[#b5bac1]">
+          <span className="flex-1">Only users can use components; the bot cannot. {notice}.</span>
+          <button
+            type="button"
+            onClick={() => setNotice(null)}
+            className="text-[#949ba4] hover:text-[#dbdee1]"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============ MESSAGE COMPONENTS ============
+
+const MESSAGE_TYPE_CHANNEL_PINNED = 6;
+const MESSAGE_TYPE_REPLY = 19;
+
+// The replied-to message shown above a reply; undefined while it is being fetched
+const ReplyPreview: React.FC<{
+  message: Message | null | undefined;
+  // Whether the reply pinged the author
+  mentioned: boolean;
+  onJump?: () => void;
+}> = ({ message, mentioned, onJump }) => {
+  return (
+    <div className="w-full relative flex items-center gap-1 pl-12 mb-0.5 min-w-0 text-sm leading-[18px] text-[#b5bac1]">
+      <div className="absolute left-[19px] top-[9px] -bottom-1 w-[25px] border-l-2 border-t-2 border-[#4e5058] rounded-tl-md" />
+      {message ? (
+        <button
+          onClick={onJump}
+          className="flex items-center gap-1 min-w-0 hover:text-[#f2f3f5] transition-colors"
+        >
+          <img
+            src={userAvatarUrl(message.author)}
+            alt={message.author.username}
+            className="w-4 h-4 rounded-full flex-shrink-0"
+          />
+          <span className="font-medium text-[#f2f3f5] flex-shrink-0">
+            {mentioned && '@'}
+            {formatUser(message.author)}
+          </span>
+          <span className="truncate">
+            {message.content ? (
+              message.content.replace(/\s+/g, ' ')
+            ) : (
+              <i>Click to see attachment</i>
+            )}
+          </span>
+        </button>
+      ) : (
+        <i className="truncate">
+          {message === null ? 'Original message was deleted' : 'Loading message…'}
+        </i>
+      )}
+    </div>
+  );
+};
+
+const MessageEmbed: React.FC<{ embed: Embed }> = ({ embed }) => {
+  const borderColor = embed.color ? `rgb(${hexToRgb(embed.color)})` : 'rgb(79, 84, 92)';
+
+  return (
+    <div
+      className="glass-light border-l-4 rounded-lg p-4 my-2 max-w-lg"
+      style={{ borderLeftColor: borderColor }}
+    >
+      {embed.author && (
+        <div className="flex items-center gap-2 mb-2">
+          {embed.author.icon_url && (
+            <img src={embed.author.icon_url} alt="" className="w-6 h-6 rounded-full" />
+          )}
+          {embed.author.url ? (
+            <a
+              href={embed.author.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm font-medium text-gray-200 hover:underline"
+            >
+              {embed.author.name}
+            </a>
+          ) : (
+            <span className="text-sm font-medium text-gray-200">{embed.author.name}</span>
+          )}
+        </div>
+      )}
+
+      {embed.title && (
+        <div className="font-semibold text-blue-400 mb-2 hover:underline cursor-pointer">
+          {embed.url ? (
+            <a href={embed.url} target="_blank" rel="noopener noreferrer">
+              {embed.title}
+            </a>
+          ) : (
+            embed.title
+          )}
+        </div>
+      )}
+
+      {embed.description && (
+        <div className="text-sm text-gray-300 whitespace-pre-wrap mb-3">
+          {parseDiscordMarkdown(embed.description)}
+        </div>
+      )}
+
+      {embed.fields && embed.fields.length > 0 && (
+        <div
+          className={`grid gap-2 ${embed.fields.some((f) => f.inline) ? 'grid-cols-2' : 'grid-cols-1'}`}
+        >
+          {embed.fields.map((field, i) => (
+            <div key={i} className={field.inline ? 'col-span-1' : 'col-span-2'}>
+              <div className="text-sm font-semibold text-gray-200 mb-1">{field.name}</div>
+              <div className="text-sm text-gray-400 whitespace-pre-wrap">
+                {parseDiscordMarkdown(field.value)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       {embed.image && (
         <img
           src={embed.image.url}
@@ -675,12 +1704,16 @@ const MessageEmbed: React.FC<{ embed: Embed }> = ({ embed }) => {
         />
       )}
 
-      {embed.footer && (
+      {(embed.footer || embed.timestamp) && (
         <div className="flex items-center gap-2 mt-3 pt-2 border-t border-gray-700/50">
-          {embed.footer.icon_url && (
+          {embed.footer?.icon_url && (
             <img src={embed.footer.icon_url} alt="" className="w-5 h-5 rounded-full" />
           )}
-          <span className="text-xs text-gray-400">{embed.footer.text}</span>
+          <span className="text-xs text-gray-400">
+            {[embed.footer?.text, embed.timestamp && formatDate(embed.timestamp)]
+              .filter(Boolean)
+              .join(' • ')}
+          </span>
         </div>
       )}
     </div>
@@ -690,15 +1723,38 @@ const MessageEmbed: React.FC<{ embed: Embed }> = ({ embed }) => {
 const MessageAttachment: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
   const isImage = attachment.content_type?.startsWith('image/');
   const isVideo = attachment.content_type?.startsWith('video/');
+  const isSpoiler = attachment.filename.startsWith('SPOILER_');
+  const [revealed, setRevealed] = useState(!isSpoiler);
 
   if (isImage) {
     return (
-      <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="block my-2">
+      <a
+        href={attachment.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block my-2 relative w-fit overflow-hidden rounded-lg"
+        onClick={(e) => {
+          if (!revealed) {
+            e.preventDefault();
+            setRevealed(true);
+          }
+        }}
+      >
         <img
           src={attachment.url}
-          alt={attachment.filename}
-          className="rounded-lg max-w-md max-h-96 object-contain cursor-pointer hover:opacity-90 transition-opacity"
+          alt={attachment.description || attachment.filename}
+          title={attachment.description || undefined}
+          className={`rounded-lg max-w-md max-h-96 object-contain cursor-pointer hover:opacity-90 transition-all ${
+            revealed ? '' : 'blur-2xl'
+          }`}
         />
+        {!revealed && (
+          <span className="absolute inset-0 flex items-center justify-center">
+            <span className="bg-black/70 text-white text-xs font-bold uppercase tracking-wider px-3 py-1.5 rounded-full">
+              Spoiler
+            </span>
+          </span>
+        )}
       </a>
     );
   }
@@ -727,25 +1783,227 @@ const MessageAttachment: React.FC<{ attachment: Attachment }> = ({ attachment })
   );
 };
 
-const MessageReaction: React.FC<{ reaction: Reaction; onAddReaction?: () => void }> = ({
-  reaction,
-  onAddReaction,
-}) => {
+const REACTORS_PAGE_SIZE = 100;
+
+const ReactionEmojiIcon: React.FC<{ emoji: Reaction['emoji'] }> = ({ emoji }) =>
+  emoji.id ? (
+    <img
+      src={`${DISCORD_CDN}/emojis/${emoji.id}.${emoji.animated ? 'gif' : 'webp'}?size=48`}
+      alt={`:${emoji.name}:`}
+      className="w-4 h-4 object-contain"
+    />
+  ) : (
+    <span className="text-base leading-4">{emoji.name}</span>
+  );
+
+// One chip per emoji and kind; super reactions get their own, outlined in the
+// emoji's burst color
+const MessageReaction: React.FC<{
+  reaction: Reaction;
+  burst?: boolean;
+  onToggle?: () => void;
+  onShowReactors: () => void;
+}> = ({ reaction, burst = false, onToggle, onShowReactors }) => {
+  const counts = reactionCounts(reaction);
+  const me = burst ? reaction.me_burst : reaction.me;
+  const burstColor = reaction.burst_colors?.[0] ?? '#f47fff';
+
   return (
     <button
-      onClick={onAddReaction}
-      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-sm ${
-        reaction.me
-          ? 'bg-[#5865f2]/30 border border-[#5865f2] text-white'
-          : 'bg-[#2b2d31] hover:bg-[#35363c] border border-[#3f4147] text-[#dbdee1]'
+      onClick={onToggle ?? onShowReactors}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        onShowReactors();
+      }}
+      style={burst ? { borderColor: burstColor } : undefined}
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-sm border ${
+        me
+          ? 'bg-[#5865f2]/30 border-[#5865f2] text-white'
+          : 'bg-[#2b2d31] hover:bg-[#35363c] border-[#3f4147] text-[#dbdee1]'
       } transition-colors`}
+      title={`:${reaction.emoji.name}:${burst ? ' (super reaction)' : ''} · right-click to see who reacted`}
     >
-      <span className="text-base">{reaction.emoji.id ? `✨` : reaction.emoji.name}</span>
-      <span className="text-xs font-medium">{reaction.count}</span>
+      <ReactionEmojiIcon emoji={reaction.emoji} />
+      <span className="text-xs font-medium">{burst ? counts.burst : counts.normal}</span>
     </button>
   );
 };
 
+// Who reacted to a message, one emoji (and kind of reaction) at a time. Moderators
+// can remove single reactions, every reaction with the emoji, or all of them.
+const ReactionsPanel: React.FC<{
+  message: Message;
+  channelId: string;
+  initial: { emoji: Reaction['emoji']; burst: boolean } | null;
+  onRemoveReactions?: (emoji: Reaction['emoji'] | null, userId: string | null) => Promise<boolean>;
+  onUserClick?: (user: User) => void;
+  onClose: () => void;
+}> = ({ message, channelId, initial, onRemoveReactions, onUserClick, onClose }) => {
+  const botId = useContext(ActiveBotContext);
+  const tabs = (message.reactions ?? []).flatMap((reaction) => {
+    const counts = reactionCounts(reaction);
+    return [
+      ...(counts.normal > 0 ? [{ emoji: reaction.emoji, burst: false, count: counts.normal }] : []),
+      ...(counts.burst > 0 ? [{ emoji: reaction.emoji, burst: true, count: counts.burst }] : []),
+    ];
+  });
+  const [selected, setSelected] = useState(initial ?? tabs[0] ?? null);
+  const [users, setUsers] = useState<User[] | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const current =
+    selected &&
+    tabs.find((tab) => sameEmoji(tab.emoji, selected.emoji) && tab.burst === selected.burst);
+  const selectedKey = current ? `${reactionKey(current.emoji)}:${current.burst}` : null;
+
+  const fetchUsers = (after?: string) => {
+    if (!current) return Promise.resolve([]);
+    const query = new URLSearchParams({ limit: String(REACTORS_PAGE_SIZE) });
+    if (current.burst) query.set('type', '1');
+    if (after) query.set('after', after);
+    return authedFetch<User[]>(
+      botId,
+      `/channels/${channelId}/messages/${message.id}/reactions/${reactionEmojiParam(current.emoji)}?${query}`
+    );
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setUsers(null);
+    fetchUsers()
+      .then((page) => {
+        if (cancelled) return;
+        setUsers(page);
+        setHasMore(page.length === REACTORS_PAGE_SIZE);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load reactions');
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedKey]);
+
+  // The last reaction went away
+  useEffect(() => {
+    if (tabs.length === 0) onClose();
+  }, [tabs.length, onClose]);
+
+  const handleLoadMore = async () => {
+    const last = users?.[users.length - 1];
+    if (!last) return;
+    try {
+      const page = await fetchUsers(last.id);
+      setUsers((prev) => [...(prev ?? []), ...page]);
+      setHasMore(page.length === REACTORS_PAGE_SIZE);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reactions');
+    }
+  };
+
+  const handleRemoveUser = async (user: User) => {
+    if (!current || !(await onRemoveReactions?.(current.emoji, user.id))) return;
+    setUsers((prev) => (prev ?? []).filter((u) => u.id !== user.id));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-lg w-full h-[60vh] flex animate-scale-in overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-32 flex-shrink-0 bg-[#232428] overflow-y-auto p-2 space-y-1">
+          {tabs.map((tab) => (
+            <button
+              key={`${reactionKey(tab.emoji)}:${tab.burst}`}
+              onClick={() => setSelected(tab)}
+              className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-sm transition-colors ${
+                current && sameEmoji(current.emoji, tab.emoji) && current.burst === tab.burst
+                  ? 'bg-[#404249] text-white'
+                  : 'text-[#b5bac1] hover:bg-[#35363c]'
+              }`}
+              title={tab.burst ? 'Super reactions' : undefined}
+            >
+              <ReactionEmojiIcon emoji={tab.emoji} />
+              <span className="font-medium">{tab.count}</span>
+              {tab.burst && <span className="text-xs text-[#f47fff]">✦</span>}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="px-4 py-3 border-b border-[#1e1f22] flex items-center gap-3">
+            <h3 className="font-semibold text-[#f2f3f5] flex-1">Reactions</h3>
+            {onRemoveReactions && current && (
+              <button
+                onClick={() => onRemoveReactions(current.emoji, null)}
+                className="text-xs text-[#f23f43] hover:underline"
+              >
+                Remove emoji
+              </button>
+            )}
+            {onRemoveReactions && (
+              <button
+                onClick={() => {
+                  if (confirm('Remove every reaction from this message?')) {
+                    onRemoveReactions(null, null);
+                  }
+                }}
+                className="text-xs text-[#f23f43] hover:underline"
+              >
+                Remove all
+              </button>
+            )}
+            <button onClick={onClose} className="text-[#b5bac1] hover:text-white">
+              ✕
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-2">
+            {error && <p className="p-2 text-sm text-[#f23f43]">{error}</p>}
+            {!users && !error && <p className="p-2 text-sm text-[#949ba4] italic">Loading…</p>}
+            {users?.map((user) => (
+              <div
+                key={user.id}
+                className="group flex items-center gap-3 px-2 py-1.5 rounded hover:bg-[#35363c]"
+              >
+                <img src={userAvatarUrl(user)} alt="" className="w-8 h-8 rounded-full" />
+                <button
+                  onClick={() => onUserClick?.(user)}
+                  className="flex-1 min-w-0 text-left text-sm text-[#f2f3f5] truncate hover:underline"
+                >
+                  {formatUser(user)}
+                </button>
+                {onRemoveReactions && (
+                  <button
+                    onClick={() => handleRemoveUser(user)}
+                    className="opacity-0 group-hover:opacity-100 text-xs text-[#f23f43] hover:underline"
+                    title="Remove this reaction"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+            {hasMore && (
+              <button
+                onClick={handleLoadMore}
+                className="w-full py-2 text-sm text-[#00a8fc] hover:underline"
+              >
+                Load more
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 const MessageComponent: React.FC<{
   message: Message;
   currentUser: User | null;
@@ -753,7 +2011,30 @@ const MessageComponent: React.FC<{
   onDelete?: (id: string) => void;
   onUserClick?: (user: User) => void;
   showHeader?: boolean;
-  onAddReaction?: (messageId: string, emoji: string) => void;
+  onReact?: (messageId: string, emoji: Reaction['emoji'], options?: ReactOptions) => void;
+  // For moderators: removes a user's reaction, every reaction with an emoji, or
+  // (with neither) all reactions
+  onRemoveReactions?: (
+    messageId: string,
+    emoji: Reaction['emoji'] | null,
+    userId: string | null
+  ) => Promise<boolean>;
+  // The server's custom emoji, offered in the reaction picker
+  customEmojis?: GuildEmoji[];
+  // Path of the channel the message is in, for copying links to it
+  channelPath?: string;
+  highlighted?: boolean;
+  onReply?: (message: Message) => void;
+  // For replies: the replied-to message, undefined until it is known
+  referencedMessage?: Message | null;
+  onLoadReference?: (channelId: string, messageId: string) => void;
+  onJumpToMessage?: (messageId: string) => void;
+  onCreateThread?: (message: Message) => void;
+  onOpenThread?: (thread: Channel) => void;
+  // Posted through a webhook whose token the bot has, so it can be edited
+  webhookEditable?: boolean;
+  onTogglePin?: (message: Message) => void;
+  onShowPins?: () => void;
 }> = ({
   message,
   currentUser,
@@ -761,16 +2042,42 @@ const MessageComponent: React.FC<{
   onDelete,
   onUserClick,
   showHeader = true,
-  onAddReaction,
+  onReact,
+  onRemoveReactions,
+  customEmojis = [],
+  channelPath,
+  highlighted = false,
+  onReply,
+  referencedMessage,
+  onLoadReference,
+  onJumpToMessage,
+  onCreateThread,
+  onOpenThread,
+  webhookEditable = false,
+  onTogglePin,
+  onShowPins,
 }) => {
-  const [isEditing, setIsEditing] = useState(false);
-  const [editContent, setEditContent] = useState(message.content);
   const [showMenu, setShowMenu] = useState(false);
   const [showReactionPicker, setShowReactionPicker] = useState(false);
+  // Reaction whose reactors are shown
+  const [reactorsOf, setReactorsOf] = useState<{
+    emoji: Reaction['emoji'];
+    burst: boolean;
+  } | null>(null);
+  const [showReactors, setShowReactors] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const reactionPickerRef = useRef<HTMLDivElement>(null);
 
   const isCurrentUser = message.author.id === currentUser?.id;
+  const canEdit = (isCurrentUser || webhookEditable) && !!onEdit;
+  const isReply = message.type === MESSAGE_TYPE_REPLY;
+  const referenceId = isReply ? message.message_reference?.message_id : undefined;
+  const referenceChannelId = message.message_reference?.channel_id || message.channel_id;
+
+  useEffect(() => {
+    if (!referenceId || !referenceChannelId || referencedMessage !== undefined) return;
+    onLoadReference?.(referenceChannelId, referenceId);
+  }, [referenceId, referenceChannelId, referencedMessage, onLoadReference]);
 
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -785,11 +2092,6 @@ const MessageComponent: React.FC<{
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const handleSaveEdit = async () => {
-    await onEdit?.({ ...message, content: editContent });
-    setIsEditing(false);
-  };
-
   const handleDelete = () => {
     if (confirm('Delete this message?')) {
       onDelete?.(message.id);
@@ -797,16 +2099,73 @@ const MessageComponent: React.FC<{
     setShowMenu(false);
   };
 
-  const handleAddReaction = (emoji: string) => {
-    onAddReaction?.(message.id, emoji);
+  const handleAddReaction = ({ id, name, animated }: PickedEmoji) => {
+    onReact?.(message.id, { id, name, animated });
     setShowReactionPicker(false);
   };
 
+  const openReactors = (emoji: Reaction['emoji'] | null, burst = false) => {
+    setReactorsOf(emoji && { emoji, burst });
+    setShowReactors(true);
+  };
+
+  if (message.type === MESSAGE_TYPE_CHANNEL_PINNED) {
+    const pinnedId = message.message_reference?.message_id;
+    return (
+      <div
+        id={`message-${message.id}`}
+        className={`flex items-center gap-4 px-4 py-0.5 mt-[17px] text-[15px] text-[#949ba4] transition-colors ${highlighted ? 'bg-[#f0b232]/10' : 'hover:bg-[#2e3035]'}`}
+      >
+        <svg className="w-4 h-4 mx-3 flex-shrink-0" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M16 9V4h1c.55 0 1-.45 1-1s-.45-1-1-1H7c-.55 0-1 .45-1 1s.45 1 1 1h1v5c0 1.66-1.34 3-3 3v2h5.97v7l1 1 1-1v-7H19v-2c-1.66 0-3-1.34-3-3z" />
+        </svg>
+        <p className="flex-1 min-w-0">
+          <button
+            onClick={() => onUserClick?.(message.author)}
+            className="font-medium text-[#f2f3f5] hover:underline"
+          >
+            {formatUser(message.author)}
+          </button>{' '}
+          pinned{' '}
+          {pinnedId && onJumpToMessage ? (
+            <button
+              onClick={() => onJumpToMessage(pinnedId)}
+              className="font-semibold text-[#f2f3f5] hover:underline"
+            >
+              a message
+            </button>
+          ) : (
+            'a message'
+          )}{' '}
+          to this channel.{' '}
+          {onShowPins && (
+            <button onClick={onShowPins} className="font-semibold text-[#f2f3f5] hover:underline">
+              See all pinned messages.
+            </button>
+          )}
+          <span className="ml-2 text-xs" title={formatFullDate(message.timestamp)}>
+            {formatDate(message.timestamp)}
+          </span>
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div
       id={`message-${message.id}`}
-      className={`group flex gap-2 px-4 py-0.5 hover:bg-[#2e3035] transition-colors relative ${showHeader ? 'mt-[17px]' : 'mt-[0.05px]'}`}
+      className={`group flex flex-wrap gap-x-2 px-4 py-0.5 transition-colors relative ${highlighted ? 'bg-[#f0b232]/10 shadow-[inset_2px_0_0_#f0b232]' : 'hover:bg-[#2e3035]'} ${showHeader ? 'mt-[17px]' : 'mt-[0.05px]'}`}
     >
+      {isReply && (
+        <ReplyPreview
+          message={referencedMessage}
+          mentioned={
+            !!referencedMessage &&
+            !!message.mentions?.some((user) => user.id === referencedMessage.author.id)
+          }
+          onJump={referenceId ? () => onJumpToMessage?.(referenceId) : undefined}
+        />
+      )}
       {showHeader && (
         <div className="relative flex-shrink-0">
           <img
@@ -848,73 +2207,121 @@ const MessageComponent: React.FC<{
         )}
 
         <div className="relative">
-          {isEditing ? (
-            <div className="space-y-2">
-              <TextArea
-                value={editContent}
-                onChange={(e) => setEditContent(e.target.value)}
-                rows={3}
-                autoFocus
-                className="w-full"
-              />
-              <div className="flex justify-end gap-2">
-                <Button variant="secondary" onClick={() => setIsEditing(false)}>
-                  Cancel
-                </Button>
-                <Button variant="primary" onClick={handleSaveEdit}>
-                  Save
-                </Button>
-              </div>
+          {message.content && (
+            <div className="whitespace-pre-wrap break-words text-[#dbdee1] text-[15px] leading-[1.375rem]">
+              {parseDiscordMarkdown(message.content)}
             </div>
-          ) : (
-            <>
-              {message.content && (
-                <div className="whitespace-pre-wrap break-words text-[#dbdee1] text-[15px] leading-[1.375rem]">
-                  {parseDiscordMarkdown(message.content)}
-                </div>
-              )}
+          )}
 
-              {message.embeds && message.embeds.length > 0 && (
-                <div className="space-y-2 mt-2">
-                  {message.embeds.map((embed, i) => (
-                    <MessageEmbed key={i} embed={embed} />
-                  ))}
-                </div>
-              )}
+          {message.embeds && message.embeds.length > 0 && (
+            <div className="space-y-2 mt-2">
+              {message.embeds.map((embed, i) => (
+                <MessageEmbed key={i} embed={embed} />
+              ))}
+            </div>
+          )}
 
-              {message.attachments && message.attachments.length > 0 && (
-                <div className="space-y-2 mt-2">
-                  {message.attachments.map((attachment) => (
-                    <MessageAttachment key={attachment.id} attachment={attachment} />
-                  ))}
-                </div>
-              )}
+          {message.attachments && message.attachments.length > 0 && (
+            <div className="space-y-2 mt-2">
+              {message.attachments.map((attachment) => (
+                <MessageAttachment key={attachment.id} attachment={attachment} />
+              ))}
+            </div>
+          )}
 
-              {message.reactions && message.reactions.length > 0 && (
-                <div className="flex flex-wrap gap-1 mt-1">
-                  {message.reactions.map((reaction, i) => (
-                    <MessageReaction
-                      key={i}
-                      reaction={reaction}
-                      onAddReaction={() => handleAddReaction(reaction.emoji.name)}
-                    />
-                  ))}
-                </div>
-              )}
-            </>
+          {message.components && message.components.length > 0 && (
+            <MessageComponents components={message.components} />
           )}
 
-          <div className="absolute -top-4 right-2 opacity-0 group-hover:opacity-100 transition-opacity flex items-center">
-            <div className="bg-[#2b2d31] border border-[#1e1f22] rounded shadow-lg flex items-center divide-x divide-[#1e1f22]">
-              <button
-                onClick={() => setShowReactionPicker(!showReactionPicker)}
-                className="px-2 py-1 hover:bg-[#35363c] transition-colors"
-                title="Add reaction"
-              >
-                <svg className="w-4 h-4 text-[#b5bac1]" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M12 0a12 12 0 1 0 0 24 12 12 0 0 0 0-24zm0 22a10 10 0 1 1 0-20 10 10 0 0 1 0 20zM7.5 9.5a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3zm9 0a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3zM12 17.5c-2.33 0-4.32-1.45-5.12-3.5h10.24c-.8 2.05-2.79 3.5-5.12 3.5z" />
-                </svg>
-              </button>
+          {message.reactions && message.reactions.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {message.reactions.map((reaction) => {
+                const counts = reactionCounts(reaction);
+                return (
+                  <React.Fragment key={reactionKey(reaction.emoji)}>
+                    {counts.normal > 0 && (
+                      <MessageReaction
+                        reaction={reaction}
+                        onToggle={
+                          onReact &&
+                          (() => onReact(message.id, reaction.emoji, { remove: reaction.me }))
+                        }
+                        onShowReactors={() => openReactors(reaction.emoji)}
+                      />
+                    )}
+                    {counts.burst > 0 && (
+                      <MessageReaction
+                        reaction={reaction}
+                        burst
+                        onToggle={
+                          onReact &&
+                          (() =>
+                            onReact(message.id, reaction.emoji, {
+                              burst: true,
+                              remove: !!reaction.me_burst,
+                            }))
+                        }
+                        onShowReactors={() => openReactors(reaction.emoji, true)}
+                      />
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </div>
+          )}
+
+          {showReactors && message.channel_id && (
+            <ReactionsPanel
+              message={message}
+              channelId={message.channel_id}
+              initial={reactorsOf}
+              onRemoveReactions={
+                onRemoveReactions &&
+                ((emoji, userId) => onRemoveReactions(message.id, emoji, userId))
+              }
+              onUserClick={onUserClick}
+              onClose={() => setShowReactors(false)}
+            />
+          )}
+
+          {message.thread && (
+            <button
+              onClick={() => message.thread && onOpenThread?.(message.thread)}
+              className="mt-1 flex items-center gap-2 max-w-md px-3 py-1.5 rounded-md bg-[#2b2d31] hover:bg-[#35363c] border border-[#1e1f22] text-left transition-colors"
+            >
+              <span className="text-sm font-semibold text-[#f2f3f5] truncate">
+                {message.thread.name}
+              </span>
+              <span className="text-xs text-[#00a8fc] flex-shrink-0">
+                {message.thread.message_count ?? 0} messages ›
+              </span>
+            </button>
+          )}
+
+          <div className="absolute -top-4 right-2 opacity-0 group-hover:opacity-100 transition-opacity flex items-center">
+            <div className="bg-[#2b2d31] border border-[#1e1f22] rounded shadow-lg flex items-center divide-x divide-[#1e1f22]">
+              {onReact && (
+                <button
+                  onClick={() => setShowReactionPicker(!showReactionPicker)}
+                  className="px-2 py-1 hover:bg-[#35363c] transition-colors"
+                  title="Add reaction"
+                >
+                  <svg className="w-4 h-4 text-[#b5bac1]" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M12 0a12 12 0 1 0 0 24 12 12 0 0 0 0-24zm0 22a10 10 0 1 1 0-20 10 10 0 0 1 0 20zM7.5 9.5a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3zm9 0a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3zM12 17.5c-2.33 0-4.32-1.45-5.12-3.5h10.24c-.8 2.05-2.79 3.5-5.12 3.5z" />
+                  </svg>
+                </button>
+              )}
+              {onReply && (
+                <button
+                  onClick={() => onReply(message)}
+                  className="px-2 py-1 hover:bg-[#35363c] transition-colors"
+                  title="Reply"
+                >
+                  <svg className="w-4 h-4 text-[#b5bac1]" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M10 9V5l-7 7 7 7v-4.1c5 0 8.5 1.6 11 5.1-1-5-4-10-11-11z" />
+                  </svg>
+                </button>
+              )}
               <button
                 onClick={() => setShowMenu(!showMenu)}
                 className="px-2 py-1 hover:bg-[#35363c] transition-colors"
@@ -927,21 +2334,12 @@ const MessageComponent: React.FC<{
             </div>
 
             {showReactionPicker && (
-              <div
-                ref={reactionPickerRef}
-                className="absolute right-0 top-6 bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-xl p-2 grid grid-cols-6 gap-1 z-30"
-              >
-                {['😀', '😂', '😍', '👍', '👎', '❤️', '🔥', '🎉', '🎊', '💯', '✨', '💪'].map(
-                  (emoji) => (
-                    <button
-                      key={emoji}
-                      onClick={() => handleAddReaction(emoji)}
-                      className="w-8 h-8 hover:bg-[#35363c] rounded transition-colors text-xl"
-                    >
-                      {emoji}
-                    </button>
-                  )
-                )}
+              <div ref={reactionPickerRef} className="absolute right-0 top-6 z-30">
+                <EmojiPicker
+                  guildEmojis={customEmojis}
+                  onSelect={handleAddReaction}
+                  onClose={() => setShowReactionPicker(false)}
+                />
               </div>
             )}
           </div>
@@ -951,32 +2349,78 @@ const MessageComponent: React.FC<{
               ref={menuRef}
               className="absolute right-0 top-6 w-44 bg-[#111214] rounded-md shadow-xl z-20 overflow-hidden py-1.5"
             >
-              {isCurrentUser && (
+              {(canEdit || onDelete) && (
                 <>
-                  <button
-                    onClick={() => {
-                      setIsEditing(true);
-                      setShowMenu(false);
-                    }}
-                    className="w-full text-left px-2 py-1.5 text-sm text-[#dbdee1] hover:bg-[#5865f2] hover:text-white transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-                      <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z" />
-                    </svg>
-                    Edit Message
-                  </button>
-                  <button
-                    onClick={handleDelete}
-                    className="w-full text-left px-2 py-1.5 text-sm text-[#f23f43] hover:bg-[#f23f43] hover:text-white transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-                      <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" />
-                    </svg>
-                    Delete Message
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => {
+                        onEdit?.(message);
+                        setShowMenu(false);
+                      }}
+                      className="w-full text-left px-2 py-1.5 text-sm text-[#dbdee1] hover:bg-[#5865f2] hover:text-white transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z" />
+                      </svg>
+                      Edit Message
+                    </button>
+                  )}
+                  {onDelete && (
+                    <button
+                      onClick={handleDelete}
+                      className="w-full text-left px-2 py-1.5 text-sm text-[#f23f43] hover:bg-[#f23f43] hover:text-white transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" />
+                      </svg>
+                      Delete Message
+                    </button>
+                  )}
                   <div className="h-px bg-[#4e5058] my-1" />
                 </>
               )}
+              {onCreateThread && !message.thread && (
+                <button
+                  onClick={() => {
+                    onCreateThread(message);
+                    setShowMenu(false);
+                  }}
+                  className="w-full text-left px-2 py-1.5 text-sm text-[#dbdee1] hover:bg-[#5865f2] hover:text-white transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M4 4h16v2H4zm0 4h10v2H4zm4 4h12v2H8zm0 4h8v2H8z" />
+                  </svg>
+                  Create Thread
+                </button>
+              )}
+              {onTogglePin && (
+                <button
+                  onClick={() => {
+                    onTogglePin(message);
+                    setShowMenu(false);
+                  }}
+                  className="w-full text-left px-2 py-1.5 text-sm text-[#dbdee1] hover:bg-[#5865f2] hover:text-white transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M16 9V4h1c.55 0 1-.45 1-1s-.45-1-1-1H7c-.55 0-1 .45-1 1s.45 1 1 1h1v5c0 1.66-1.34 3-3 3v2h5.97v7l1 1 1-1v-7H19v-2c-1.66 0-3-1.34-3-3z" />
+                  </svg>
+                  {message.pinned ? 'Unpin Message' : 'Pin Message'}
+                </button>
+              )}
+              {message.reactions && message.reactions.length > 0 && (
+                <button
+                  onClick={() => {
+                    openReactors(null);
+                    setShowMenu(false);
+                  }}
+                  className="w-full text-left px-2 py-1.5 text-sm text-[#dbdee1] hover:bg-[#5865f2] hover:text-white transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M12 0a12 12 0 1 0 0 24 12 12 0 0 0 0-24zm0 22a10 10 0 1 1 0-20 10 10 0 0 1 0 20zM7.5 9.5a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3zm9 0a1.5 1.5 0 1 0 0 3 1.5 1.5 0 0 0 0-3zM12 17.5c-2.33 0-4.32-1.45-5.12-3.5h10.24c-.8 2.05-2.79 3.5-5.12 3.5z" />
+                  </svg>
+                  View Reactions
+                </button>
+              )}
               <button
                 onClick={() => {
                   navigator.clipboard.writeText(message.id);
@@ -989,6 +2433,22 @@ const MessageComponent: React.FC<{
                 </svg>
                 Copy Message ID
               </button>
+              {channelPath && (
+                <button
+                  onClick={() => {
+                    navigator.clipboard.writeText(
+                      `${window.location.origin}${channelPath}/${message.id}`
+                    );
+                    setShowMenu(false);
+                  }}
+                  className="w-full text-left px-2 py-1.5 text-sm text-[#dbdee1] hover:bg-[#5865f2] hover:text-white transition-colors flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M3.9 12c0-1.71 1.39-3.1 3.1-3.1h4V7H7c-2.76 0-5 2.24-5 5s2.24 5 5 5h4v-1.9H7c-1.71 0-3.1-1.39-3.1-3.1zM8 13h8v-2H8v2zm9-6h-4v1.9h4c1.71 0 3.1 1.39 3.1 3.1s-1.39 3.1-3.1 3.1h-4V17h4c2.76 0 5-2.24 5-5s-2.24-5-5-5z" />
+                  </svg>
+                  Copy Message Link
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -997,403 +2457,5835 @@ const MessageComponent: React.FC<{
   );
 };
 
-// ============ TOAST COMPONENT ============
+// ============ MESSAGE LIST ============
+
+type ListedMessage = Message & { showHeader: boolean };
+
+// Consecutive messages by one author within five minutes share a header
+function groupMessages(messages: Message[]): ListedMessage[] {
+  return messages.map((message, index) => {
+    const prevMessage = messages[index - 1];
+    const showHeader =
+      !prevMessage ||
+      message.type === MESSAGE_TYPE_REPLY ||
+      prevMessage.type === MESSAGE_TYPE_CHANNEL_PINNED ||
+      prevMessage.author.id !== message.author.id ||
+      Date.parse(message.timestamp) - Date.parse(prevMessage.timestamp) > 5 * 60 * 1000;
+    return { ...message, showHeader };
+  });
+}
 
-const Toast: React.FC<{
-  message: string;
-  type?: 'success' | 'error' | 'info';
-  onClose: () => void;
-}> = ({ message, type = 'info', onClose }) => {
-  useEffect(() => {
-    const timer = setTimeout(onClose, 3000);
-    return () => clearTimeout(timer);
-  }, [onClose]);
+type MessageListHandle = {
+  // Centers a loaded message in the pane; false when it is not in the list
+  scrollToMessage: (id: string) => boolean;
+  scrollToBottom: () => void;
+};
 
-  const bgColors = {
-    success: 'bg-[#23a559]',
-    error: 'bg-[#f23f43]',
-    info: 'bg-[#5865f2]',
-  };
+// Rows rendered beyond the visible area, and how close to an edge counts as reaching it
+const LIST_PADDING_PX = 16;
+const OVERSCAN_PX = 800;
+const EDGE_PX = 300;
+const STICK_PX = 40;
+
+function estimateRowHeight(message: ListedMessage) {
+  const media = (message.attachments?.length ?? 0) + (message.embeds?.length ?? 0);
+  const reply = message.type === MESSAGE_TYPE_REPLY ? 22 : 0;
+  const components = (message.components?.length ?? 0) * 48;
+  return (message.showHeader ? 62 : 26) + reply + media * 160 + components;
+}
+
+// Reports the rendered height of a row, again whenever it changes (images loading,
+// embeds expanding). flow-root keeps the message's top margin inside the row.
+const MeasuredRow: React.FC<{
+  id: string;
+  onMeasure: (id: string, height: number) => void;
+  children: React.ReactNode;
+}> = ({ id, onMeasure, children }) => {
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const row = rowRef.current;
+    if (!row) return;
+    const measure = () => onMeasure(id, row.offsetHeight);
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(row);
+    return () => observer.disconnect();
+  }, [id, onMeasure]);
 
   return (
-    <div
-      className={`fixed bottom-4 right-4 ${bgColors[type]} text-white px-4 py-3 rounded-lg shadow-lg flex items-center gap-3 animate-slide-in z-50`}
-    >
-      {type === 'success' && (
-        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-          <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
-        </svg>
-      )}
-      {type === 'error' && (
-        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-          <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z" />
-        </svg>
-      )}
-      <span className="font-medium">{message}</span>
-      <button onClick={onClose} className="hover:bg-white/20 rounded p-0.5 transition-colors">
-        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-          <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
-        </svg>
-      </button>
+    <div ref={rowRef} className="flow-root">
+      {children}
     </div>
   );
 };
 
-// ============ QUICK SWITCHER COMPONENT ============
+// Windowed message pane: only rows near the viewport are mounted, the rest are
+// stood in for by spacers sized from measured (or estimated) row heights.
+// It sticks to the bottom while scrolled there, and otherwise keeps the first
+// visible message in place as rows are added above it or change height. Give it
+// a key per channel so switching channels starts over at the bottom.
+const MessageList = React.forwardRef<
+  MessageListHandle,
+  {
+    messages: ListedMessage[];
+    header?: React.ReactNode;
+    footer?: React.ReactNode;
+    renderMessage: (message: ListedMessage) => React.ReactNode;
+    onReachTop?: () => void;
+    onReachBottom?: () => void;
+  }
+>(function MessageList(
+  { messages, header, footer, renderMessage, onReachTop, onReachBottom },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const stickToBottomRef = useRef(true);
+  // First visible message and its distance from the top of the pane
+  const anchorRef = useRef<{ id: string; offset: number } | null>(null);
+  const lastScrollTopRef = useRef(0);
+  const [measured, setMeasured] = useState(0);
+  const [headerHeight, setHeaderHeight] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  const handleMeasure = useCallback((id: string, height: number) => {
+    if (heightsRef.current.get(id) === height) return;
+    heightsRef.current.set(id, height);
+    setMeasured((count) => count + 1);
+  }, []);
 
-const QuickSwitcher: React.FC<{
-  channels: Channel[];
-  guilds: Guild[];
-  onSelect: (type: 'channel' | 'guild', id: string) => void;
-  onClose: () => void;
-}> = ({ channels, guilds, onSelect, onClose }) => {
-  const [searchQuery, setSearchQuery] = useState('');
-  const inputRef = useRef<HTMLInputElement>(null);
+  // offsets[i] is where message i starts; the last entry is the full height
+  const offsets = useMemo(() => {
+    const result = [LIST_PADDING_PX + headerHeight];
+    messages.forEach((message, index) => {
+      result.push(
+        result[index] + (heightsRef.current.get(message.id) ?? estimateRowHeight(message))
+      );
+    });
+    return result;
+    // Heights live in a ref; `measured` changes whenever one of them does
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [messages, headerHeight, measured]);
+
+  // Index of the message covering a vertical position
+  const indexAt = (y: number) => {
+    let low = 0;
+    let high = messages.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] <= y) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+
+  const syncViewport = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    const next = { top: container.scrollTop, height: container.clientHeight };
+    setViewport((prev) => (prev.top === next.top && prev.height === next.height ? prev : next));
+  };
 
+  // Heights of messages that left the list are forgotten
   useEffect(() => {
-    inputRef.current?.focus();
+    if (heightsRef.current.size <= messages.length * 2) return;
+    const ids = new Set(messages.map((m) => m.id));
+    Array.from(heightsRef.current.keys()).forEach((id) => {
+      if (!ids.has(id)) heightsRef.current.delete(id);
+    });
+  }, [messages]);
+
+  useLayoutEffect(() => {
+    const element = headerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setHeaderHeight(element.offsetHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
   }, []);
 
-  const filteredChannels = channels.filter((c) =>
-    c.name.toLowerCase().includes(searchQuery.toLowerCase())
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => {
+      if (stickToBottomRef.current) container.scrollTop = container.scrollHeight;
+      syncViewport();
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Whenever the layout changes, hold the bottom or the anchored message in place
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const anchor = anchorRef.current;
+    if (stickToBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    } else if (anchor) {
+      const index = messages.findIndex((m) => m.id === anchor.id);
+      if (index !== -1) container.scrollTop = offsets[index] - anchor.offset;
+    }
+    // Moves made here are not the user's scrolling
+    lastScrollTopRef.current = container.scrollTop;
+    syncViewport();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [offsets]);
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    const { scrollTop, scrollHeight, clientHeight } = container;
+    const fromBottom = scrollHeight - scrollTop - clientHeight;
+    stickToBottomRef.current = fromBottom < STICK_PX;
+
+    const index = indexAt(scrollTop);
+    anchorRef.current =
+      index < messages.length
+        ? { id: messages[index].id, offset: offsets[index] - scrollTop }
+        : null;
+    syncViewport();
+
+    // Only scrolling towards an edge asks for more there
+    if (scrollTop < lastScrollTopRef.current && scrollTop < EDGE_PX) onReachTop?.();
+    if (scrollTop > lastScrollTopRef.current && fromBottom < EDGE_PX) onReachBottom?.();
+    lastScrollTopRef.current = scrollTop;
+  };
+
+  useImperativeHandle(ref, () => ({
+    scrollToMessage: (id) => {
+      const container = containerRef.current;
+      const index = messages.findIndex((m) => m.id === id);
+      if (!container || index === -1) return false;
+      const height = offsets[index + 1] - offsets[index];
+      container.scrollTop = Math.max(0, offsets[index] - (container.clientHeight - height) / 2);
+      stickToBottomRef.current = false;
+      anchorRef.current = { id, offset: offsets[index] - container.scrollTop };
+      lastScrollTopRef.current = container.scrollTop;
+      syncViewport();
+      return true;
+    },
+    scrollToBottom: () => {
+      const container = containerRef.current;
+      if (!container) return;
+      stickToBottomRef.current = true;
+      container.scrollTop = container.scrollHeight;
+    },
+  }));
+
+  const start = indexAt(viewport.top - OVERSCAN_PX);
+  const end = Math.min(messages.length, indexAt(viewport.top + viewport.height + OVERSCAN_PX) + 1);
+
+  return (
+    <div ref={containerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto">
+      <div className="py-4">
+        <div ref={headerRef}>{header}</div>
+        <div style={{ height: offsets[start] - offsets[0] }} />
+        {messages.slice(start, end).map((message) => (
+          <MeasuredRow key={message.id} id={message.id} onMeasure={handleMeasure}>
+            {renderMessage(message)}
+          </MeasuredRow>
+        ))}
+        <div style={{ height: offsets[messages.length] - offsets[end] }} />
+        {footer}
+      </div>
+    </div>
   );
-  const filteredGuilds = guilds.filter((g) =>
-    g.name.toLowerCase().includes(searchQuery.toLowerCase())
+});
+
+// ============ THREADS ============
+
+const AUTO_ARCHIVE_DURATIONS = [
+  { minutes: 60, label: '1 hour' },
+  { minutes: 1440, label: '24 hours' },
+  { minutes: 4320, label: '3 days' },
+  { minutes: 10080, label: '1 week' },
+];
+
+// Threads listed under their parent channel: the active ones always, the
+// archived ones on request while the channel is selected
+const ChannelThreads: React.FC<{
+  threads: Channel[];
+  isChannelSelected: boolean;
+  archiveState?: 'loading' | 'loaded';
+  openThreadId: string | null;
+  onToggleArchived: () => void;
+  onOpen: (thread: Channel) => void;
+}> = ({ threads, isChannelSelected, archiveState, openThreadId, onToggleArchived, onOpen }) => {
+  const active = threads.filter((thread) => !thread.thread_metadata?.archived);
+  const archived = threads.filter((thread) => thread.thread_metadata?.archived);
+  if (active.length === 0 && !isChannelSelected) return null;
+
+  const renderThread = (thread: Channel) => (
+    <button
+      key={thread.id}
+      onClick={() => onOpen(thread)}
+      className={`w-full text-left px-2 py-0.5 rounded-[4px] hover:bg-[#35363c] transition-colors flex items-center gap-1.5 ${
+        openThreadId === thread.id
+          ? 'bg-[#404249] text-white'
+          : 'text-[#949ba4] hover:text-[#dbdee1]'
+      }`}
+    >
+      <span className="text-[13px] font-medium truncate flex-1">{thread.name}</span>
+      {thread.thread_metadata?.locked && <span className="text-[10px]">🔒</span>}
+    </button>
   );
 
   return (
-    <div className="fixed inset-0 bg-black/50 flex items-start justify-center pt-[15vh] z-50">
-      <div className="bg-[#2b2d31] rounded-lg shadow-2xl w-[440px] max-h-[420px] flex flex-col animate-scale-in">
-        <div className="p-4 border-b border-[#1e1f22]">
-          <input
-            ref={inputRef}
-            type="text"
-            placeholder="Jump to..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === 'Escape') onClose();
-            }}
-            className="w-full bg-[#1e1f22] text-white px-3 py-2 rounded focus:outline-none focus:ring-2 focus:ring-[#5865f2]"
-          />
-        </div>
-        <div className="flex-1 overflow-y-auto p-2">
-          {searchQuery && filteredGuilds.length > 0 && (
-            <div className="mb-2">
-              <div className="text-xs font-semibold text-[#949ba4] uppercase px-2 mb-1">
-                Servers
-              </div>
-              {filteredGuilds.slice(0, 5).map((guild) => (
-                <button
-                  key={guild.id}
-                  onClick={() => onSelect('guild', guild.id)}
-                  className="w-full text-left px-2 py-1.5 rounded hover:bg-[#35363c] text-[#dbdee1] flex items-center gap-2"
-                >
-                  {guild.icon ? (
-                    <img src={guildIconUrl(guild)} alt="" className="w-5 h-5 rounded-full" />
-                  ) : (
-                    <div className="w-5 h-5 rounded bg-[#5865f2] flex items-center justify-center text-xs">
-                      {guild.name.charAt(0)}
-                    </div>
-                  )}
-                  <span>{guild.name}</span>
-                </button>
-              ))}
-            </div>
-          )}
-          {searchQuery && filteredChannels.length > 0 && (
-            <div>
-              <div className="text-xs font-semibold text-[#949ba4] uppercase px-2 mb-1">
-                Channels
-              </div>
-              {filteredChannels.slice(0, 5).map((channel) => (
-                <button
-                  key={channel.id}
-                  onClick={() => onSelect('channel', channel.id)}
-                  className="w-full text-left px-2 py-1.5 rounded hover:bg-[#35363c] text-[#dbdee1] flex items-center gap-2"
-                >
-                  <span className="text-[#949ba4]">{getChannelTypeIcon(channel.type)}</span>
-                  <span>{channel.name}</span>
-                </button>
-              ))}
-            </div>
-          )}
-          {!searchQuery && (
-            <div className="text-center py-8 text-[#949ba4] text-sm">
-              Type to search channels and servers...
-            </div>
-          )}
-          {searchQuery && filteredChannels.length === 0 && filteredGuilds.length === 0 && (
-            <div className="text-center py-8 text-[#949ba4] text-sm">No results found</div>
+    <div className="ml-4 pl-1 border-l border-[#3f4147] space-y-[1px]">
+      {active.map(renderThread)}
+      {isChannelSelected && (
+        <>
+          <button
+            onClick={onToggleArchived}
+            className="w-full text-left px-2 py-0.5 text-[12px] text-[#80848e] hover:text-[#dbdee1] transition-colors"
+          >
+            {archiveState ? 'Hide archived threads' : 'Show archived threads'}
+          </button>
+          {archiveState === 'loading' && (
+            <p className="px-2 py-0.5 text-[12px] text-[#80848e] italic">Loading…</p>
           )}
-        </div>
-      </div>
+          {archiveState === 'loaded' &&
+            (archived.length > 0 ? (
+              archived.map(renderThread)
+            ) : (
+              <p className="px-2 py-0.5 text-[12px] text-[#80848e] italic">No archived threads</p>
+            ))}
+        </>
+      )}
     </div>
   );
 };
 
-// ============ USER SEARCH MODAL ============
-
-const UserSearchModal: React.FC<{
-  users: User[];
-  onUserClick: (user: User) => void;
+// Side panel for one thread: its messages, a composer, joining and leaving, and
+// (for moderators) archiving, locking and the auto-archive duration
+const ThreadPanel: React.FC<{
+  thread: Channel;
+  messages: Message[];
+  isLoading: boolean;
+  canOperate: boolean;
+  canModerate: boolean;
+  renderMessage: (message: ListedMessage) => React.ReactNode;
+  onReachTop: () => void;
+  onReachBottom: () => void;
+  // Resolves to whether the message was sent
+  onSend: (content: string) => Promise<boolean>;
+  onToggleJoined: () => void;
+  onUpdate: (changes: Partial<ThreadMetadata>) => void;
   onClose: () => void;
-}> = ({ users, onUserClick, onClose }) => {
-  const [query, setQuery] = useState('');
+}> = ({
+  thread,
+  messages,
+  isLoading,
+  canOperate,
+  canModerate,
+  renderMessage,
+  onReachTop,
+  onReachBottom,
+  onSend,
+  onToggleJoined,
+  onUpdate,
+  onClose,
+}) => {
+  const [content, setContent] = useState('');
+  const [showSettings, setShowSettings] = useState(false);
+  const listed = useMemo(() => groupMessages(messages), [messages]);
+  const metadata = thread.thread_metadata;
+  // Locked threads only take messages from those who can manage them
+  const canSend = canOperate && (!metadata?.locked || canModerate);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+    if (await onSend(content)) setContent('');
+  };
 
   return (
-    <div
-      className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
-      onClick={onClose}
-    >
-      <div
-        className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-md w-full max-h-[80vh] overflow-hidden flex flex-col animate-scale-in"
-        onClick={(e) => e.stopPropagation()}
-      >
-        <div className="p-4 border-b border-[#1e1f22]">
-          <h2 className="text-xl font-bold text-white mb-4">Search Users</h2>
+    <aside className="w-[400px] flex-shrink-0 flex flex-col min-h-0 border-l border-[#1e1f22] bg-[#313338]">
+      <header className="h-12 px-4 flex items-center gap-2 border-b border-[#1e1f22] shadow-sm flex-shrink-0">
+        <span className="text-[#80848e]">{getChannelTypeIcon(thread.type)}</span>
+        <h3 className="font-semibold text-white truncate flex-1">{thread.name}</h3>
+        {metadata?.archived && (
+          <span className="text-[10px] bg-[#4e5058] text-white px-1.5 py-0.5 rounded font-bold uppercase">
+            Archived
+          </span>
+        )}
+        {metadata?.locked && (
+          <span className="text-xs" title="Locked">
+            🔒
+          </span>
+        )}
+        {canOperate && (
+          <button
+            onClick={onToggleJoined}
+            className="text-xs font-medium px-2 py-1 rounded bg-[#4e5058] hover:bg-[#6d6f78] text-white transition-colors"
+          >
+            {thread.member ? 'Leave' : 'Join'}
+          </button>
+        )}
+        {canModerate && metadata && (
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className={`p-1 transition-colors ${showSettings ? 'text-white' : 'text-[#b5bac1] hover:text-[#dbdee1]'}`}
+            title="Thread settings"
+          >
+            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M19.14 12.94c.04-.3.06-.61.06-.94 0-.32-.02-.64-.07-.94l2.03-1.58a.49.49 0 0 0 .12-.61l-1.92-3.32a.488.488 0 0 0-.59-.22l-2.39.96c-.5-.38-1.03-.7-1.62-.94l-.36-2.54a.484.484 0 0 0-.48-.41h-3.84c-.24 0-.43.17-.47.41l-.36 2.54c-.59.24-1.13.57-1.62.94l-2.39-.96c-.22-.08-.47 0-.59.22L2.74 8.87c-.12.21-.08.47.12.61l2.03 1.58c-.05.3-.09.63-.09.94s.02.64.07.94l-2.03 1.58a.49.49 0 0 0-.12.61l1.92 3.32c.12.22.37.29.59.22l2.39-.96c.5.38 1.03.7 1.62.94l.36 2.54c.05.24.24.41.48.41h3.84c.24 0 .44-.17.47-.41l.36-2.54c.59-.24 1.13-.56 1.62-.94l2.39.96c.22.08.47 0 .59-.22l1.92-3.32c.12-.22.07-.47-.12-.61l-2.01-1.58zM12 15.6c-1.98 0-3.6-1.62-3.6-3.6s1.62-3.6 3.6-3.6 3.6 1.62 3.6 3.6-1.62 3.6-3.6 3.6z" />
+            </svg>
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          className="p-1 text-[#b5bac1] hover:text-[#dbdee1] transition-colors"
+          title="Close thread"
+        >
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+          </svg>
+        </button>
+      </header>
+
+      {showSettings && metadata && (
+        <div className="px-4 py-3 border-b border-[#1e1f22] bg-[#2b2d31] space-y-2 text-sm text-[#dbdee1] flex-shrink-0">
+          <label className="flex items-center justify-between gap-2">
+            Archived
+            <input
+              type="checkbox"
+              checked={metadata.archived}
+              onChange={(e) => onUpdate({ archived: e.target.checked })}
+              className="accent-[#5865f2]"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            Locked
+            <input
+              type="checkbox"
+              checked={metadata.locked}
+              onChange={(e) => onUpdate({ locked: e.target.checked })}
+              className="accent-[#5865f2]"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            Hide after inactivity
+            <select
+              value={metadata.auto_archive_duration}
+              onChange={(e) => onUpdate({ auto_archive_duration: Number(e.target.value) })}
+              className="bg-[#1e1f22] rounded px-2 py-1 text-sm focus:outline-none"
+            >
+              {AUTO_ARCHIVE_DURATIONS.map(({ minutes, label }) => (
+                <option key={minutes} value={minutes}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="w-8 h-8 border-4 border-[#1e1f22] border-t-[#5865f2] rounded-full animate-spin" />
+        </div>
+      ) : listed.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center px-4 text-sm text-[#b5bac1]">
+          No messages in this thread yet
+        </div>
+      ) : (
+        <MessageList
+          key={thread.id}
+          messages={listed}
+          renderMessage={renderMessage}
+          onReachTop={onReachTop}
+          onReachBottom={onReachBottom}
+        />
+      )}
+
+      <form onSubmit={handleSubmit} className="px-4 pb-4 flex-shrink-0">
+        <input
+          type="text"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          disabled={!canSend}
+          placeholder={
+            canSend
+              ? `Message ${thread.name}`
+              : metadata?.locked
+                ? 'This thread is locked'
+                : 'You have read-only access to this bot'
+          }
+          className="w-full bg-[#383a40] rounded-lg px-4 py-2.5 text-[15px] text-[#dbdee1] placeholder-[#87898c] focus:outline-none disabled:opacity-60"
+        />
+      </form>
+    </aside>
+  );
+};
+
+// ============ ATTACHMENT COMPOSER ============
+
+const MAX_ATTACHMENTS = 10;
+
+function toPendingAttachment(file: File): PendingAttachment {
+  return {
+    key: `${file.name}-${file.size}-${Math.random().toString(36).slice(2)}`,
+    file,
+    previewUrl:
+      file.type.startsWith('image/') || file.type.startsWith('video/')
+        ? URL.createObjectURL(file)
+        : null,
+    spoiler: false,
+    description: '',
+  };
+}
+
+function uploadFilename(attachment: PendingAttachment) {
+  return attachment.spoiler ? `SPOILER_${attachment.file.name}` : attachment.file.name;
+}
+
+// The attachments array of a message payload describing files sent alongside it
+function attachmentMetadata(attachments: PendingAttachment[]) {
+  return attachments.map((a, index) => ({
+    id: index,
+    filename: uploadFilename(a),
+    description: a.description.trim() || undefined,
+  }));
+}
+
+// Files go as files[n]; payload_json carries everything else, including the
+// per-file metadata
+function multipartBody(payload: unknown, attachments: PendingAttachment[]): FormData {
+  const formData = new FormData();
+  formData.append('payload_json', JSON.stringify(payload));
+  attachments.forEach((a, index) => {
+    formData.append(`files[${index}]`, a.file, uploadFilename(a));
+  });
+  return formData;
+}
+
+const PendingAttachmentList: React.FC<{
+  attachments: PendingAttachment[];
+  onRemove: (key: string) => void;
+  onUpdate: (key: string, changes: Partial<PendingAttachment>) => void;
+}> = ({ attachments, onRemove, onUpdate }) => {
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-3 mb-3 border-b border-[#4e5058]/50">
+      {attachments.map((attachment) => (
+        <div
+          key={attachment.key}
+          className="relative flex-shrink-0 w-44 bg-[#2b2d31] rounded-lg p-2 flex flex-col gap-2"
+        >
+          <div className="h-28 rounded bg-[#1e1f22] flex items-center justify-center overflow-hidden relative">
+            {attachment.previewUrl && attachment.file.type.startsWith('image/') ? (
+              <img
+                src={attachment.previewUrl}
+                alt={attachment.description || attachment.file.name}
+                className={`max-h-full max-w-full object-contain ${attachment.spoiler ? 'blur-md' : ''}`}
+              />
+            ) : attachment.previewUrl && attachment.file.type.startsWith('video/') ? (
+              <video
+                src={attachment.previewUrl}
+                muted
+                className={`max-h-full max-w-full ${attachment.spoiler ? 'blur-md' : ''}`}
+              />
+            ) : (
+              <span className="text-4xl">📎</span>
+            )}
+            {attachment.spoiler && (
+              <span className="absolute bg-black/70 text-white text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-full">
+                Spoiler
+              </span>
+            )}
+          </div>
+
+          <div className="min-w-0">
+            <div className="text-xs text-[#dbdee1] truncate" title={attachment.file.name}>
+              {attachment.file.name}
+            </div>
+            <div className="text-[10px] text-[#949ba4]">{formatBytes(attachment.file.size)}</div>
+          </div>
+
+          {editingKey === attachment.key ? (
+            <input
+              type="text"
+              value={attachment.description}
+              onChange={(e) => onUpdate(attachment.key, { description: e.target.value })}
+              onBlur={() => setEditingKey(null)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === 'Escape') {
+                  e.preventDefault();
+                  setEditingKey(null);
+                }
+              }}
+              placeholder="Describe this file"
+              maxLength={1024}
+              autoFocus
+              className="w-full bg-[#1e1f22] text-xs text-[#dbdee1] placeholder-[#87898c] px-2 py-1 rounded focus:outline-none focus:ring-1 focus:ring-[#5865f2]"
+            />
+          ) : (
+            attachment.description && (
+              <div
+                className="text-[11px] text-[#b5bac1] italic truncate"
+                title={attachment.description}
+              >
+                {attachment.description}
+              </div>
+            )
+          )}
+
+          <div className="absolute -top-2 -right-2 bg-[#2b2d31] border border-[#1e1f22] rounded shadow-lg flex items-center divide-x divide-[#1e1f22]">
+            <button
+              type="button"
+              onClick={() => onUpdate(attachment.key, { spoiler: !attachment.spoiler })}
+              className={`px-1.5 py-1 hover:bg-[#35363c] transition-colors text-xs ${
+                attachment.spoiler ? 'text-[#5865f2]' : 'text-[#b5bac1]'
+              }`}
+              title={attachment.spoiler ? 'Remove spoiler' : 'Mark as spoiler'}
+            >
+              👁
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingKey(attachment.key)}
+              className="px-1.5 py-1 hover:bg-[#35363c] transition-colors text-xs text-[#b5bac1]"
+              title="Alt text"
+            >
+              ALT
+            </button>
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.key)}
+              className="px-1.5 py-1 hover:bg-[#35363c] transition-colors text-[#f23f43]"
+              title="Remove attachment"
+            >
+              <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M6 19c0 1.1.9 2 2 2h8c1.1 0 2-.9 2-2V7H6v12zM19 4h-3.5l-1-1h-5l-1 1H5v2h14V4z" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// ============ COMPONENTS COMPOSER ============
+
+const MAX_ACTION_ROWS = 5;
+const MAX_ROW_BUTTONS = 5;
+const MAX_SELECT_OPTIONS = 25;
+
+// "<:name:id>" or "<a:name:id>" for a custom emoji, anything else as a unicode one
+function parseComponentEmoji(text: string): ComponentEmoji | undefined {
+  const custom = text.trim().match(/^<(a)?:(\w+):(\d+)>$/);
+  if (custom) return { id: custom[3], name: custom[2], animated: !!custom[1] };
+  return text.trim() ? { name: text.trim() } : undefined;
+}
+
+function formatComponentEmoji(emoji?: ComponentEmoji) {
+  if (!emoji) return '';
+  return emoji.id ? `<${emoji.animated ? 'a' : ''}:${emoji.name}:${emoji.id}>` : (emoji.name ?? '');
+}
+
+function componentProblem(item: MessageComponentData): string | null {
+  if (item.type === COMPONENT_TYPES.BUTTON) {
+    if (!item.label?.trim() && !item.emoji) return 'Buttons need a label or an emoji';
+    if (item.style === BUTTON_STYLE_LINK)
+      return item.url?.trim() ? null : 'Link buttons need a URL';
+    return item.custom_id?.trim() ? null : 'Buttons need a custom ID';
+  }
+  if (!item.custom_id?.trim()) return 'Select menus need a custom ID';
+  if (!item.options?.length) return 'Select menus need at least one option';
+  if (item.options.some((option) => !option.label.trim() || !option.value.trim())) {
+    return 'Select options need a label and a value';
+  }
+  return null;
+}
+
+// Why Discord would refuse the rows, or null when they can be sent
+function componentRowsProblem(rows: MessageComponentData[]): string | null {
+  const emptyRow = rows.findIndex((row) => !row.components?.length);
+  if (emptyRow !== -1) return `Row ${emptyRow + 1} is empty`;
+  const problems = rows.flatMap((row) => row.components ?? []).map(componentProblem);
+  return problems.find((problem) => problem !== null) ?? null;
+}
+
+let componentIdCounter = 0;
+function nextCustomId(prefix: string) {
+  componentIdCounter += 1;
+  return `${prefix}_${componentIdCounter}`;
+}
+
+const builderInputClass =
+  'bg-[#1e1f22] rounded px-2 py-1 text-sm text-[#dbdee1] placeholder-[#87898c] focus:outline-none focus:ring-1 focus:ring-[#5865f2]';
+
+// Builds action rows of buttons and select menus, with a live preview
+const ComponentsComposer: React.FC<{
+  rows: MessageComponentData[];
+  onChange: (rows: MessageComponentData[]) => void;
+}> = ({ rows, onChange }) => {
+  const updateRow = (rowIndex: number, items: MessageComponentData[]) => {
+    onChange(rows.map((row, i) => (i === rowIndex ? { ...row, components: items } : row)));
+  };
+
+  const updateItem = (
+    rowIndex: number,
+    itemIndex: number,
+    changes: Partial<MessageComponentData>
+  ) => {
+    const items = rows[rowIndex].components ?? [];
+    updateRow(
+      rowIndex,
+      items.map((item, i) => (i === itemIndex ? { ...item, ...changes } : item))
+    );
+  };
+
+  const removeItem = (rowIndex: number, itemIndex: number) => {
+    updateRow(
+      rowIndex,
+      (rows[rowIndex].components ?? []).filter((_, i) => i !== itemIndex)
+    );
+  };
+
+  const addButton = (rowIndex: number) => {
+    updateRow(rowIndex, [
+      ...(rows[rowIndex].components ?? []),
+      {
+        type: COMPONENT_TYPES.BUTTON,
+        style: 1,
+        label: 'Button',
+        custom_id: nextCustomId('button'),
+      },
+    ]);
+  };
+
+  const addSelect = (rowIndex: number) => {
+    updateRow(rowIndex, [
+      {
+        type: COMPONENT_TYPES.STRING_SELECT,
+        custom_id: nextCustomId('select'),
+        placeholder: '',
+        options: [{ label: 'Option 1', value: 'option_1' }],
+      },
+    ]);
+  };
+
+  const updateOption = (
+    rowIndex: number,
+    options: SelectOption[],
+    optionIndex: number,
+    changes: Partial<SelectOption>
+  ) => {
+    updateItem(rowIndex, 0, {
+      options: options.map((option, i) => (i === optionIndex ? { ...option, ...changes } : option)),
+    });
+  };
+
+  const renderButtonEditor = (
+    button: MessageComponentData,
+    rowIndex: number,
+    itemIndex: number
+  ) => {
+    const isLink = button.style === BUTTON_STYLE_LINK;
+    return (
+      <div key={itemIndex} className="flex flex-wrap items-center gap-2">
+        <select
+          value={button.style}
+          onChange={(e) => {
+            const style = Number(e.target.value);
+            updateItem(
+              rowIndex,
+              itemIndex,
+              style === BUTTON_STYLE_LINK
+                ? { style, custom_id: undefined, url: button.url ?? 'https://' }
+                : { style, url: undefined, custom_id: button.custom_id ?? nextCustomId('button') }
+            );
+          }}
+          className={builderInputClass}
+        >
+          {BUTTON_STYLES.map(({ style, label }) => (
+            <option key={style} value={style}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={button.label ?? ''}
+          onChange={(e) => updateItem(rowIndex, itemIndex, { label: e.target.value })}
+          placeholder="Label"
+          maxLength={80}
+          className={`${builderInputClass} w-28`}
+        />
+        <input
+          type="text"
+          value={formatComponentEmoji(button.emoji)}
+          onChange={(e) =>
+            updateItem(rowIndex, itemIndex, { emoji: parseComponentEmoji(e.target.value) })
+          }
+          placeholder="Emoji"
+          className={`${builderInputClass} w-20`}
+        />
+        <input
+          type="text"
+          value={(isLink ? button.url : button.custom_id) ?? ''}
+          onChange={(e) =>
+            updateItem(
+              rowIndex,
+              itemIndex,
+              isLink ? { url: e.target.value } : { custom_id: e.target.value }
+            )
+          }
+          placeholder={isLink ? 'URL' : 'Custom ID'}
+          maxLength={isLink ? 512 : 100}
+          className={`${builderInputClass} flex-1 min-w-[8rem]`}
+        />
+        <label className="flex items-center gap-1 text-xs text-[#b5bac1]">
+          <input
+            type="checkbox"
+            checked={!!button.disabled}
+            onChange={(e) => updateItem(rowIndex, itemIndex, { disabled: e.target.checked })}
+            className="accent-[#5865f2]"
+          />
+          Disabled
+        </label>
+        <button
+          type="button"
+          onClick={() => removeItem(rowIndex, itemIndex)}
+          className="text-[#f23f43] hover:text-[#da373c] text-sm"
+          title="Remove button"
+        >
+          ✕
+        </button>
+      </div>
+    );
+  };
+
+  const renderSelectEditor = (select: MessageComponentData, rowIndex: number) => {
+    const options = select.options ?? [];
+    return (
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
           <input
             type="text"
-            placeholder="Search users..."
-            value={query}
-            onChange={(e) => setQuery(e.target.value)}
-            autoFocus
-            className="w-full bg-[#1e1f22] text-[#dbdee1] placeholder-[#87898c] px-4 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#5865f2]"
+            value={select.custom_id ?? ''}
+            onChange={(e) => updateItem(rowIndex, 0, { custom_id: e.target.value })}
+            placeholder="Custom ID"
+            maxLength={100}
+            className={`${builderInputClass} w-32`}
+          />
+          <input
+            type="text"
+            value={select.placeholder ?? ''}
+            onChange={(e) => updateItem(rowIndex, 0, { placeholder: e.target.value })}
+            placeholder="Placeholder"
+            maxLength={150}
+            className={`${builderInputClass} flex-1 min-w-[8rem]`}
           />
+          <label className="flex items-center gap-1 text-xs text-[#b5bac1]">
+            Pick
+            <input
+              type="number"
+              min={0}
+              max={options.length}
+              value={select.min_values ?? 1}
+              onChange={(e) => updateItem(rowIndex, 0, { min_values: Number(e.target.value) })}
+              className={`${builderInputClass} w-12`}
+            />
+            to
+            <input
+              type="number"
+              min={1}
+              max={options.length}
+              value={select.max_values ?? 1}
+              onChange={(e) => updateItem(rowIndex, 0, { max_values: Number(e.target.value) })}
+              className={`${builderInputClass} w-12`}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => removeItem(rowIndex, 0)}
+            className="text-[#f23f43] hover:text-[#da373c] text-sm"
+            title="Remove select menu"
+          >
+            ✕
+          </button>
         </div>
-        <div className="flex-1 overflow-y-auto p-2">
-          {users.length === 0 ? (
-            <div className="text-center py-8 text-[#949ba4]">No users found</div>
-          ) : (
-            users.map((user) => (
+        {options.map((option, optionIndex) => (
+          <div key={optionIndex} className="flex flex-wrap items-center gap-2 pl-4">
+            <input
+              type="text"
+              value={option.label}
+              onChange={(e) =>
+                updateOption(rowIndex, options, optionIndex, { label: e.target.value })
+              }
+              placeholder="Label"
+              maxLength={100}
+              className={`${builderInputClass} w-28`}
+            />
+            <input
+              type="text"
+              value={option.value}
+              onChange={(e) =>
+                updateOption(rowIndex, options, optionIndex, { value: e.target.value })
+              }
+              placeholder="Value"
+              maxLength={100}
+              className={`${builderInputClass} w-28`}
+            />
+            <input
+              type="text"
+              value={option.description ?? ''}
+              onChange={(e) =>
+                updateOption(rowIndex, options, optionIndex, {
+                  description: e.target.value || undefined,
+                })
+              }
+              placeholder="Description"
+              maxLength={100}
+              className={`${builderInputClass} flex-1 min-w-[8rem]`}
+            />
+            <button
+              type="button"
+              onClick={() =>
+                updateItem(rowIndex, 0, { options: options.filter((_, i) => i !== optionIndex) })
+              }
+              className="text-[#f23f43] hover:text-[#da373c] text-sm"
+              title="Remove option"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        {options.length < MAX_SELECT_OPTIONS && (
+          <button
+            type="button"
+            onClick={() =>
+              updateItem(rowIndex, 0, {
+                options: [
+                  ...options,
+                  { label: `Option ${options.length + 1}`, value: `option_${options.length + 1}` },
+                ],
+              })
+            }
+            className="ml-4 text-xs text-[#00a8fc] hover:underline"
+          >
+            + Add option
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="pb-3 mb-3 border-b border-[#4e5058]/50 space-y-3">
+      {rows.map((row, rowIndex) => {
+        const items = row.components ?? [];
+        const hasSelect = items.some((item) => isSelectComponent(item.type));
+        return (
+          <div key={rowIndex} className="bg-[#2b2d31] rounded-lg p-3 space-y-2">
+            <div className="flex items-center gap-3 text-xs">
+              <span className="font-bold uppercase text-[#949ba4] flex-1">Row {rowIndex + 1}</span>
+              {!hasSelect && items.length < MAX_ROW_BUTTONS && (
+                <button
+                  type="button"
+                  onClick={() => addButton(rowIndex)}
+                  className="text-[#00a8fc] hover:underline"
+                >
+                  + Button
+                </button>
+              )}
+              {items.length === 0 && (
+                <button
+                  type="button"
+                  onClick={() => addSelect(rowIndex)}
+                  className="text-[#00a8fc] hover:underline"
+                >
+                  + Select menu
+                </button>
+              )}
               <button
-                key={user.id}
-                onClick={() => onUserClick(user)}
-                className="w-full text-left px-4 py-3 rounded-lg hover:bg-[#35363c] transition-colors flex items-center gap-3"
+                type="button"
+                onClick={() => onChange(rows.filter((_, i) => i !== rowIndex))}
+                className="text-[#f23f43] hover:underline"
               >
-                <img src={userAvatarUrl(user)} alt="" className="w-10 h-10 rounded-full" />
-                <div className="flex-1">
-                  <div className="font-semibold text-[#f2f3f5]">{formatUser(user)}</div>
-                  <div className="text-sm text-[#949ba4]">@{user.username}</div>
-                </div>
-                {user.bot && (
-                  <span className="text-xs bg-[#5865f2] text-white px-2 py-1 rounded font-bold">
-                    BOT
-                  </span>
-                )}
+                Remove row
               </button>
-            ))
-          )}
+            </div>
+            {hasSelect
+              ? renderSelectEditor(items[0], rowIndex)
+              : items.map((item, itemIndex) => renderButtonEditor(item, rowIndex, itemIndex))}
+          </div>
+        );
+      })}
+      {rows.length < MAX_ACTION_ROWS && (
+        <button
+          type="button"
+          onClick={() => onChange([...rows, { type: COMPONENT_TYPES.ACTION_ROW, components: [] }])}
+          className="text-xs text-[#00a8fc] hover:underline"
+        >
+          + Add row
+        </button>
+      )}
+      {rows.some((row) => row.components?.length) && (
+        <div>
+          <div className="text-xs font-bold uppercase text-[#949ba4] mb-1">Preview</div>
+          <MessageComponents components={rows} />
         </div>
-        <div className="p-4 border-t border-[#1e1f22] flex justify-end">
-          <Button onClick={onClose}>Close</Button>
+      )}
+    </div>
+  );
+};
+
+// ============ EMBED BUILDER ============
+
+const MAX_EMBEDS = 10;
+const MAX_EMBED_FIELDS = 25;
+// Characters all embeds of a message may hold together
+const MAX_EMBED_TEXT = 6000;
+
+// Text that counts towards MAX_EMBED_TEXT
+function embedTextLength(embed: Embed) {
+  return (
+    (embed.title?.length ?? 0) +
+    (embed.description?.length ?? 0) +
+    (embed.author?.name?.length ?? 0) +
+    (embed.footer?.text.length ?? 0) +
+    (embed.fields ?? []).reduce((sum, field) => sum + field.name.length + field.value.length, 0)
+  );
+}
+
+// Drops what was left blank, as Discord refuses empty strings
+function cleanEmbed(embed: Embed): Embed {
+  const text = (value?: string) => (value?.trim() ? value : undefined);
+  return {
+    title: text(embed.title),
+    description: text(embed.description),
+    url: text(embed.url),
+    color: embed.color,
+    timestamp: embed.timestamp,
+    author: text(embed.author?.name)
+      ? {
+          name: embed.author?.name,
+          url: text(embed.author?.url),
+          icon_url: text(embed.author?.icon_url),
+        }
+      : undefined,
+    footer: text(embed.footer?.text)
+      ? { text: embed.footer?.text ?? '', icon_url: text(embed.footer?.icon_url) }
+      : undefined,
+    image: text(embed.image?.url) ? embed.image : undefined,
+    thumbnail: text(embed.thumbnail?.url) ? embed.thumbnail : undefined,
+    fields: embed.fields?.length ? embed.fields : undefined,
+  };
+}
+
+// Why Discord would refuse the embeds, or null when they can be sent
+function embedsProblem(embeds: Embed[]): string | null {
+  const emptyIndex = embeds.findIndex(
+    (embed) => embedTextLength(embed) === 0 && !embed.image?.url && !embed.thumbnail?.url
+  );
+  if (emptyIndex !== -1) return `Embed ${emptyIndex + 1} is empty`;
+  if (embeds.some((embed) => embed.fields?.some((f) => !f.name.trim() || !f.value.trim()))) {
+    return 'Embed fields need a name and a value';
+  }
+  const total = embeds.reduce((sum, embed) => sum + embedTextLength(embed), 0);
+  if (total > MAX_EMBED_TEXT) {
+    return `The embeds hold ${total} characters; Discord allows ${MAX_EMBED_TEXT}`;
+  }
+  return null;
+}
+
+// Discohook's message JSON is { content, embeds, attachments }; its backups wrap
+// messages as { messages: [{ data }] }, of which the first is imported
+function toDiscohookJson(content: string, embeds: Embed[]) {
+  return JSON.stringify(
+    { content: content || null, embeds: embeds.map(cleanEmbed), attachments: [] },
+    null,
+    2
+  );
+}
+
+function parseDiscohookJson(json: string): { content: string; embeds: Embed[] } {
+  const parsed = JSON.parse(json);
+  const data = Array.isArray(parsed?.messages) ? parsed.messages[0]?.data : parsed;
+  if (!data || typeof data !== 'object') throw new Error('This JSON holds no message');
+  const embeds = data.embeds ?? [];
+  if (!Array.isArray(embeds)) throw new Error('"embeds" must be a list');
+  if (embeds.length > MAX_EMBEDS) throw new Error(`A message takes at most ${MAX_EMBEDS} embeds`);
+  return { content: typeof data.content === 'string' ? data.content : '', embeds };
+}
+
+function colorToHex(color: number) {
+  return `#${color.toString(16).padStart(6, '0')}`;
+}
+
+// ISO timestamp <-> the local time a datetime-local input shows
+function toLocalDateTime(iso: string) {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+const EmbedEditor: React.FC<{
+  embed: Embed;
+  index: number;
+  onChange: (embed: Embed) => void;
+  onDuplicate?: () => void;
+  onRemove: () => void;
+}> = ({ embed, index, onChange, onDuplicate, onRemove }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const fields = embed.fields ?? [];
+  const update = (changes: Partial<Embed>) => onChange({ ...embed, ...changes });
+  const updateField = (
+    fieldIndex: number,
+    changes: Partial<NonNullable<Embed['fields']>[number]>
+  ) => update({ fields: fields.map((f, i) => (i === fieldIndex ? { ...f, ...changes } : f)) });
+
+  const textInput = (
+    value: string | undefined,
+    onValue: (value: string) => void,
+    placeholder: string,
+    maxLength: number,
+    className = ''
+  ) => (
+    <input
+      type="text"
+      value={value ?? ''}
+      onChange={(e) => onValue(e.target.value)}
+      placeholder={placeholder}
+      maxLength={maxLength}
+      className={`${builderInputClass} ${className}`}
+    />
+  );
+
+  return (
+    <div
+      className="bg-[#2b2d31] rounded-lg border-l-4 p-3 space-y-2"
+      style={{ borderLeftColor: embed.color !== undefined ? colorToHex(embed.color) : '#4e5058' }}
+    >
+      <div className="flex items-center gap-3 text-xs">
+        <button
+          type="button"
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="font-bold uppercase text-[#949ba4] hover:text-[#dbdee1] flex-1 text-left truncate"
+        >
+          {isCollapsed ? '▸' : '▾'} Embed {index + 1}
+          {embed.title ? ` – ${embed.title}` : ''}
+        </button>
+        <span className="text-[#80848e]">{embedTextLength(embed)} chars</span>
+        {onDuplicate && (
+          <button type="button" onClick={onDuplicate} className="text-[#00a8fc] hover:underline">
+            Duplicate
+          </button>
+        )}
+        <button type="button" onClick={onRemove} className="text-[#f23f43] hover:underline">
+          Remove
+        </button>
+      </div>
+
+      {!isCollapsed && (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {textInput(
+              embed.author?.name,
+              (name) => update({ author: { ...embed.author, name } }),
+              'Author name',
+              256
+            )}
+            {textInput(
+              embed.author?.url,
+              (url) => update({ author: { ...embed.author, url } }),
+              'Author URL',
+              2048
+            )}
+            {textInput(
+              embed.author?.icon_url,
+              (icon_url) => update({ author: { ...embed.author, icon_url } }),
+              'Author icon URL',
+              2048
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {textInput(embed.title, (title) => update({ title }), 'Title', 256)}
+            {textInput(embed.url, (url) => update({ url }), 'Title URL', 2048)}
+          </div>
+          <textarea
+            value={embed.description ?? ''}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder="Description"
+            maxLength={4096}
+            rows={3}
+            className={`${builderInputClass} w-full resize-y`}
+          />
+
+          <div className="space-y-1">
+            {fields.map((field, fieldIndex) => (
+              <div key={fieldIndex} className="flex flex-wrap items-center gap-2">
+                {textInput(
+                  field.name,
+                  (name) => updateField(fieldIndex, { name }),
+                  'Field name',
+                  256,
+                  'w-36'
+                )}
+                {textInput(
+                  field.value,
+                  (value) => updateField(fieldIndex, { value }),
+                  'Field value',
+                  1024,
+                  'flex-1 min-w-[8rem]'
+                )}
+                <label className="flex items-center gap-1 text-xs text-[#b5bac1]">
+                  <input
+                    type="checkbox"
+                    checked={!!field.inline}
+                    onChange={(e) => updateField(fieldIndex, { inline: e.target.checked })}
+                    className="accent-[#5865f2]"
+                  />
+                  Inline
+                </label>
+                <button
+                  type="button"
+                  onClick={() => update({ fields: fields.filter((_, i) => i !== fieldIndex) })}
+                  className="text-[#f23f43] hover:text-[#da373c] text-sm"
+                  title="Remove field"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            {fields.length < MAX_EMBED_FIELDS && (
+              <button
+                type="button"
+                onClick={() =>
+                  update({ fields: [...fields, { name: '', value: '', inline: false }] })
+                }
+                className="text-xs text-[#00a8fc] hover:underline"
+              >
+                + Add field
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {textInput(embed.image?.url, (url) => update({ image: { url } }), 'Image URL', 2048)}
+            {textInput(
+              embed.thumbnail?.url,
+              (url) => update({ thumbnail: { url } }),
+              'Thumbnail URL',
+              2048
+            )}
+            {textInput(
+              embed.footer?.text,
+              (text) => update({ footer: { ...embed.footer, text } }),
+              'Footer text',
+              2048
+            )}
+            {textInput(
+              embed.footer?.icon_url,
+              (icon_url) => update({ footer: { text: embed.footer?.text ?? '', icon_url } }),
+              'Footer icon URL',
+              2048
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-xs text-[#b5bac1]">
+            <label className="flex items-center gap-2">
+              Color
+              <input
+                type="color"
+                value={embed.color !== undefined ? colorToHex(embed.color) : '#5865f2'}
+                onChange={(e) => update({ color: parseInt(e.target.value.slice(1), 16) })}
+                className="w-8 h-6 bg-transparent cursor-pointer"
+              />
+              {embed.color !== undefined && (
+                <button
+                  type="button"
+                  onClick={() => update({ color: undefined })}
+                  className="text-[#949ba4] hover:underline"
+                >
+                  Clear
+                </button>
+              )}
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={!!embed.timestamp}
+                onChange={(e) =>
+                  update({ timestamp: e.target.checked ? new Date().toISOString() : undefined })
+                }
+                className="accent-[#5865f2]"
+              />
+              Timestamp
+            </label>
+            {embed.timestamp && (
+              <input
+                type="datetime-local"
+                value={toLocalDateTime(embed.timestamp)}
+                onChange={(e) =>
+                  e.target.value && update({ timestamp: new Date(e.target.value).toISOString() })
+                }
+                className={builderInputClass}
+              />
+            )}
+          </div>
+
+          <div>
+            <div className="text-xs font-bold uppercase text-[#949ba4] mb-1">Preview</div>
+            <MessageEmbed embed={cleanEmbed(embed)} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Builds up to ten embeds for the next message, and moves them (with the message
+// content) in and out of Discohook's JSON
+const EmbedBuilder: React.FC<{
+  embeds: Embed[];
+  content: string;
+  onChange: (embeds: Embed[]) => void;
+  onImport: (message: { content: string; embeds: Embed[] }) => void;
+}> = ({ embeds, content, onChange, onImport }) => {
+  const [jsonMode, setJsonMode] = useState<'import' | 'export' | null>(null);
+  const [json, setJson] = useState('');
+  const [jsonError, setJsonError] = useState<string | null>(null);
+
+  const openJson = (mode: 'import' | 'export') => {
+    setJsonMode(jsonMode === mode ? null : mode);
+    setJson(mode === 'export' ? toDiscohookJson(content, embeds) : '');
+    setJsonError(null);
+  };
+
+  const handleImport = () => {
+    try {
+      onImport(parseDiscohookJson(json));
+      setJsonMode(null);
+    } catch (error) {
+      setJsonError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  };
+
+  return (
+    <div className="pb-3 mb-3 border-b border-[#4e5058]/50 space-y-3 max-h-[50vh] overflow-y-auto">
+      <div className="flex items-center gap-3 text-xs">
+        <span className="font-bold uppercase text-[#949ba4] flex-1">
+          Embeds ({embeds.length}/{MAX_EMBEDS})
+        </span>
+        <button
+          type="button"
+          onClick={() => openJson('import')}
+          className="text-[#00a8fc] hover:underline"
+        >
+          Import JSON
+        </button>
+        <button
+          type="button"
+          onClick={() => openJson('export')}
+          className="text-[#00a8fc] hover:underline"
+        >
+          Export JSON
+        </button>
+      </div>
+
+      {jsonMode && (
+        <div className="space-y-2">
+          <textarea
+            value={json}
+            onChange={(e) => setJson(e.target.value)}
+            readOnly={jsonMode === 'export'}
+            placeholder="Paste Discohook message JSON"
+            rows={8}
+            className={`${builderInputClass} w-full font-mono text-xs resize-y`}
+          />
+          {jsonError && <p className="text-xs text-[#f23f43]">{jsonError}</p>}
+          <div className="flex justify-end gap-2">
+            {jsonMode === 'export' ? (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => navigator.clipboard.writeText(json)}
+              >
+                Copy
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                variant="primary"
+                onClick={handleImport}
+                disabled={!json.trim()}
+              >
+                Load
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {embeds.map((embed, index) => (
+        <EmbedEditor
+          key={index}
+          embed={embed}
+          index={index}
+          onChange={(changed) => onChange(embeds.map((e, i) => (i === index ? changed : e)))}
+          onDuplicate={
+            embeds.length < MAX_EMBEDS
+              ? () => onChange([...embeds.slice(0, index + 1), embed, ...embeds.slice(index + 1)])
+              : undefined
+          }
+          onRemove={() => onChange(embeds.filter((_, i) => i !== index))}
+        />
+      ))}
+      {embeds.length < MAX_EMBEDS && (
+        <button
+          type="button"
+          onClick={() => onChange([...embeds, {}])}
+          className="text-xs text-[#00a8fc] hover:underline"
+        >
+          + Add embed
+        </button>
+      )}
+    </div>
+  );
+};
+
+// ============ MESSAGE EDITOR ============
+
+const MESSAGE_FLAG_COMPONENTS_V2 = 1 << 15;
+
+// What the editor hands over; components are left out when they were not editable
+type MessageEdit = {
+  content: string;
+  embeds: Embed[];
+  components?: MessageComponentData[];
+  keptAttachmentIds: string[];
+};
+
+// Link previews are Discord's to generate; only rich embeds are the bot's own
+function isRichEmbed(embed: Embed) {
+  return !embed.type || embed.type === 'rich';
+}
+
+// The builder handles action rows of buttons and string selects; anything else is
+// kept as it is
+function hasEditableComponents(message: Message) {
+  if ((message.flags ?? 0) & MESSAGE_FLAG_COMPONENTS_V2) return false;
+  return (message.components ?? []).every(
+    (row) =>
+      row.type === COMPONENT_TYPES.ACTION_ROW &&
+      (row.components ?? []).every(
+        (item) =>
+          item.type === COMPONENT_TYPES.BUTTON || item.type === COMPONENT_TYPES.STRING_SELECT
+      )
+  );
+}
+
+// Edits everything the bot sent: content, embeds, components and which
+// attachments stay
+const MessageEditor: React.FC<{
+  message: Message;
+  onSave: (edit: MessageEdit) => Promise<boolean>;
+  onClose: () => void;
+}> = ({ message, onSave, onClose }) => {
+  const [content, setContent] = useState(message.content);
+  const [embeds, setEmbeds] = useState<Embed[]>(() => (message.embeds ?? []).filter(isRichEmbed));
+  const componentsEditable = hasEditableComponents(message);
+  const [components, setComponents] = useState<MessageComponentData[]>(
+    () => message.components ?? []
+  );
+  const [keptAttachmentIds, setKeptAttachmentIds] = useState<string[]>(
+    () => message.attachments?.map((a) => a.id) ?? []
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const found =
+      (componentsEditable && componentRowsProblem(components)) ||
+      embedsProblem(embeds) ||
+      (!content.trim() &&
+      embeds.length === 0 &&
+      components.length === 0 &&
+      keptAttachmentIds.length === 0
+        ? 'A message cannot be left empty'
+        : null);
+    setProblem(found);
+    if (found) return;
+
+    setIsSaving(true);
+    const saved = await onSave({
+      content,
+      embeds,
+      components: componentsEditable ? components : undefined,
+      keptAttachmentIds,
+    });
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#313338] border border-[#1e1f22] rounded-lg shadow-2xl max-w-3xl w-full max-h-[90vh] flex flex-col animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-4 py-3 border-b border-[#1e1f22] flex items-center justify-between">
+          <h2 className="text-lg font-bold text-white">Edit Message</h2>
+          <button onClick={onClose} className="text-[#b5bac1] hover:text-[#dbdee1]">
+            ✕
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div>
+            <label className="block text-xs font-bold uppercase text-[#b5bac1] mb-2">Content</label>
+            <textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              maxLength={2000}
+              rows={4}
+              autoFocus
+              className={`${builderInputClass} w-full text-[15px] resize-y`}
+            />
+          </div>
+
+          {message.attachments && message.attachments.length > 0 && (
+            <div>
+              <label className="block text-xs font-bold uppercase text-[#b5bac1] mb-2">
+                Attachments
+              </label>
+              <div className="space-y-1">
+                {message.attachments.map((attachment) => {
+                  const kept = keptAttachmentIds.includes(attachment.id);
+                  return (
+                    <label
+                      key={attachment.id}
+                      className={`flex items-center gap-2 px-3 py-2 rounded bg-[#2b2d31] text-sm ${
+                        kept ? 'text-[#dbdee1]' : 'text-[#80848e] line-through'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={kept}
+                        onChange={() =>
+                          setKeptAttachmentIds((prev) =>
+                            kept
+                              ? prev.filter((id) => id !== attachment.id)
+                              : [...prev, attachment.id]
+                          )
+                        }
+                        className="accent-[#5865f2]"
+                      />
+                      <span className="flex-1 truncate">{attachment.filename}</span>
+                      <span className="text-xs text-[#949ba4]">{formatBytes(attachment.size)}</span>
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <EmbedBuilder
+            embeds={embeds}
+            content={content}
+            onChange={setEmbeds}
+            onImport={(imported) => {
+              setContent(imported.content);
+              setEmbeds(imported.embeds);
+            }}
+          />
+
+          {componentsEditable ? (
+            <div>
+              <label className="block text-xs font-bold uppercase text-[#b5bac1] mb-2">
+                Components
+              </label>
+              <ComponentsComposer rows={components} onChange={setComponents} />
+            </div>
+          ) : (
+            <p className="text-xs text-[#949ba4]">
+              This message&apos;s components use a layout the builder does not edit; they are kept
+              as they are.
+            </p>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-[#1e1f22] flex items-center justify-end gap-2">
+          {problem && <p className="flex-1 text-sm text-[#f23f43]">{problem}</p>}
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving…' : 'Save'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ============ WEBHOOKS ============
+
+const WEBHOOK_TYPE_INCOMING = 1;
+
+function webhookAvatarUrl(webhook: Webhook) {
+  if (!webhook.avatar) return `${DISCORD_CDN}/embed/avatars/0.png?size=64`;
+  return `${DISCORD_CDN}/avatars/${webhook.id}/${webhook.avatar}.png?size=64`;
+}
+
+function webhookUrl(webhook: Webhook) {
+  return `https://discord.com/api/webhooks/${webhook.id}/${webhook.token}`;
+}
+
+// Webhook routes take the thread as a query parameter. Executions wait for the
+// message so it can be shown right away, and Discord drops components unless
+// with_components is set.
+function webhookPath(
+  webhook: Webhook,
+  options: { messageId?: string; threadId?: string | null; withComponents?: boolean }
+) {
+  const query = new URLSearchParams();
+  if (!options.messageId) query.set('wait', 'true');
+  if (options.threadId) query.set('thread_id', options.threadId);
+  if (options.withComponents) query.set('with_components', 'true');
+  const search = query.toString();
+  const message = options.messageId ? `/messages/${options.messageId}` : '';
+  return `/webhooks/${webhook.id}/${webhook.token}${message}${search ? `?${search}` : ''}`;
+}
+
+// Discord takes webhook avatars as data URIs
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// The channel's webhooks: listing, creating, renaming, new avatars, deleting and
+// copying their URL. Only admins manage them; operators see them to send as one.
+const WebhooksPanel: React.FC<{
+  channel: Channel;
+  webhooks: Webhook[] | undefined;
+  canManage: boolean;
+  onChange: (webhooks: Webhook[]) => void;
+  onClose: () => void;
+}> = ({ channel, webhooks, canManage, onChange, onClose }) => {
+  const botId = useContext(ActiveBotContext);
+  const [name, setName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameTo, setRenameTo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const avatarTargetRef = useRef<string | null>(null);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const list = webhooks ?? [];
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      setError(null);
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(err instanceof Error ? err.message : failure);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    run(async () => {
+      const created = await authedFetch<Webhook>(botId, `/channels/${channel.id}/webhooks`, {
+        method: 'POST',
+        body: JSON.stringify({ name: name.trim() }),
+      });
+      onChange([...list, created]);
+      setName('');
+    }, 'Failed to create webhook');
+  };
+
+  const handleUpdate = (webhook: Webhook, changes: { name?: string; avatar?: string | null }) =>
+    run(async () => {
+      const updated = await authedFetch<Webhook>(botId, `/webhooks/${webhook.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      });
+      // The token is only returned when the webhook is created or listed
+      onChange(list.map((w) => (w.id === webhook.id ? { ...w, ...updated, token: w.token } : w)));
+    }, 'Failed to update webhook');
+
+  const handleDelete = (webhook: Webhook) => {
+    if (!confirm(`Delete the webhook ${webhook.name ?? webhook.id}?`)) return;
+    run(async () => {
+      await authedFetch(botId, `/webhooks/${webhook.id}`, { method: 'DELETE' });
+      onChange(list.filter((w) => w.id !== webhook.id));
+    }, 'Failed to delete webhook');
+  };
+
+  const handleCopy = async (webhook: Webhook) => {
+    await navigator.clipboard.writeText(webhookUrl(webhook));
+    setCopiedId(webhook.id);
+    setTimeout(() => setCopiedId((id) => (id === webhook.id ? null : id)), 1500);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-lg w-full animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4">
+          <h2 className="text-xl font-bold text-white mb-1">Webhooks</h2>
+          <p className="text-sm text-[#b5bac1] mb-4">
+            Webhooks post into #{channel.name} with their own name and avatar.
+          </p>
+
+          <input
+            ref={avatarInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/gif"
+            className="hidden"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              const webhook = list.find((w) => w.id === avatarTargetRef.current);
+              e.target.value = '';
+              if (file && webhook) handleUpdate(webhook, { avatar: await readAsDataUrl(file) });
+            }}
+          />
+
+          <div className="space-y-1 max-h-72 overflow-y-auto mb-4">
+            {!webhooks && <p className="text-sm text-[#949ba4] italic">Loading…</p>}
+            {webhooks && list.length === 0 && (
+              <p className="text-sm text-[#949ba4]">This channel has no webhooks yet.</p>
+            )}
+            {list.map((webhook) => (
+              <div
+                key={webhook.id}
+                className="flex items-center gap-3 px-2 py-2 rounded hover:bg-[#35363c] transition-colors"
+              >
+                <button
+                  type="button"
+                  disabled={!canManage}
+                  onClick={() => {
+                    avatarTargetRef.current = webhook.id;
+                    avatarInputRef.current?.click();
+                  }}
+                  className="flex-shrink-0"
+                  title={canManage ? 'Change avatar' : undefined}
+                >
+                  <img src={webhookAvatarUrl(webhook)} alt="" className="w-9 h-9 rounded-full" />
+                </button>
+                <div className="flex-1 min-w-0">
+                  {renamingId === webhook.id ? (
+                    <input
+                      type="text"
+                      value={renameTo}
+                      onChange={(e) => setRenameTo(e.target.value)}
+                      onBlur={() => setRenamingId(null)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && renameTo.trim()) {
+                          handleUpdate(webhook, { name: renameTo.trim() });
+                          setRenamingId(null);
+                        } else if (e.key === 'Escape') {
+                          setRenamingId(null);
+                        }
+                      }}
+                      maxLength={80}
+                      autoFocus
+                      className={`${builderInputClass} w-full`}
+                    />
+                  ) : (
+                    <div className="text-sm font-medium text-[#f2f3f5] truncate">
+                      {webhook.name ?? 'Unnamed webhook'}
+                    </div>
+                  )}
+                  <div className="text-xs text-[#949ba4] truncate">
+                    {webhook.type === WEBHOOK_TYPE_INCOMING
+                      ? webhook.user
+                        ? `Created by ${formatUser(webhook.user)}`
+                        : 'Incoming webhook'
+                      : 'Managed by Discord or an app'}
+                  </div>
+                </div>
+                {webhook.token && (
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(webhook)}
+                    className="text-xs text-[#00a8fc] hover:underline"
+                  >
+                    {copiedId === webhook.id ? 'Copied!' : 'Copy URL'}
+                  </button>
+                )}
+                {canManage && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setRenamingId(webhook.id);
+                        setRenameTo(webhook.name ?? '');
+                      }}
+                      className="text-xs text-[#b5bac1] hover:text-[#dbdee1]"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(webhook)}
+                      className="text-xs text-[#f23f43] hover:underline"
+                    >
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {canManage && (
+            <form onSubmit={handleCreate} className="flex gap-2 mb-3">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="New webhook name"
+                maxLength={80}
+                className="flex-1 bg-[#1e1f22] rounded px-3 py-2 text-sm text-[#dbdee1] placeholder-[#87898c] focus:outline-none focus:ring-1 focus:ring-[#5865f2]"
+              />
+              <Button type="submit" variant="primary" disabled={!name.trim()}>
+                Create
+              </Button>
+            </form>
+          )}
+
+          {error && <p className="text-sm text-[#f23f43] mb-3">{error}</p>}
+
+          <div className="flex justify-end">
+            <Button variant="secondary" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Who the composer sends as: a webhook of the channel, with optional overrides
+const SendAsBar: React.FC<{
+  webhooks: Webhook[] | undefined;
+  threads: Channel[];
+  sendAs: WebhookSendAs;
+  onChange: (sendAs: WebhookSendAs) => void;
+  onClose: () => void;
+}> = ({ webhooks, threads, sendAs, onChange, onClose }) => {
+  const usable = (webhooks ?? []).filter((w) => w.token);
+  const selected = usable.find((w) => w.id === sendAs.webhookId);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 -mx-4 -mt-3 mb-3 px-4 py-2 bg-[#2b2d31] rounded-t-lg text-sm text-[#b5bac1]">
+      <span className="font-semibold text-[#f2f3f5]">Send as</span>
+      {!webhooks ? (
+        <span className="italic">Loading webhooks…</span>
+      ) : usable.length === 0 ? (
+        <span>No webhooks the bot can use in this channel</span>
+      ) : (
+        <>
+          <select
+            value={sendAs.webhookId ?? ''}
+            onChange={(e) => onChange({ ...sendAs, webhookId: e.target.value || null })}
+            className={builderInputClass}
+          >
+            <option value="">Choose a webhook</option>
+            {usable.map((webhook) => (
+              <option key={webhook.id} value={webhook.id}>
+                {webhook.name ?? webhook.id}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={sendAs.username}
+            onChange={(e) => onChange({ ...sendAs, username: e.target.value })}
+            placeholder={selected?.name ?? 'Username'}
+            maxLength={80}
+            className={`${builderInputClass} w-32`}
+          />
+          <input
+            type="text"
+            value={sendAs.avatarUrl}
+            onChange={(e) => onChange({ ...sendAs, avatarUrl: e.target.value })}
+            placeholder="Avatar URL"
+            className={`${builderInputClass} w-40`}
+          />
+          {threads.length > 0 && (
+            <select
+              value={sendAs.threadId ?? ''}
+              onChange={(e) => onChange({ ...sendAs, threadId: e.target.value || null })}
+              className={builderInputClass}
+            >
+              <option value="">In the channel</option>
+              {threads.map((thread) => (
+                <option key={thread.id} value={thread.id}>
+                  🧵 {thread.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </>
+      )}
+      <div className="flex-1" />
+      <button
+        type="button"
+        onClick={onClose}
+        className="text-[#b5bac1] hover:text-[#dbdee1] transition-colors"
+        title="Send as the bot"
+      >
+        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+// ============ PINNED MESSAGES ============
+
+const PINS_PAGE_SIZE = 25;
+
+// The channel's pinned messages, newest pin first, in a popover under the header
+const PinsPanel: React.FC<{
+  channel: Channel;
+  // Changes whenever the channel's pins change, to reload them
+  refreshKey: number;
+  canUnpin: boolean;
+  onJump: (messageId: string) => void;
+  onUnpin: (message: Message) => Promise<boolean>;
+  onClose: () => void;
+}> = ({ channel, refreshKey, canUnpin, onJump, onUnpin, onClose }) => {
+  const botId = useContext(ActiveBotContext);
+  const [pins, setPins] = useState<PinnedMessage[] | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPins = (before?: string) => {
+    const query = new URLSearchParams({ limit: String(PINS_PAGE_SIZE) });
+    if (before) query.set('before', before);
+    return authedFetch<PinList>(botId, `/channels/${channel.id}/messages/pins?${query}`);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchPins()
+      .then((list) => {
+        if (cancelled) return;
+        setPins(list.items);
+        setHasMore(list.has_more);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load pins');
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [channel.id, refreshKey]);
+
+  const handleLoadMore = async () => {
+    const last = pins?.[pins.length - 1];
+    if (!last) return;
+    setIsLoadingMore(true);
+    try {
+      const list = await fetchPins(last.pinned_at);
+      setPins((prev) => [...(prev ?? []), ...list.items]);
+      setHasMore(list.has_more);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pins');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleUnpin = async (message: Message) => {
+    if (await onUnpin(message)) {
+      setPins((prev) => (prev ?? []).filter((pin) => pin.message.id !== message.id));
+    }
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-30" onClick={onClose} />
+      <div className="absolute right-0 top-9 z-40 w-[420px] max-w-[90vw] max-h-[70vh] flex flex-col bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl animate-scale-in">
+        <div className="px-4 py-3 border-b border-[#1e1f22] flex items-center justify-between">
+          <h3 className="font-semibold text-[#f2f3f5]">Pinned Messages</h3>
+          <button onClick={onClose} className="text-[#b5bac1] hover:text-white">
+            ✕
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-2 space-y-2">
+          {error && <p className="p-2 text-sm text-[#f23f43]">{error}</p>}
+          {!pins && !error && <p className="p-2 text-sm text-[#949ba4] italic">Loading…</p>}
+          {pins?.length === 0 && (
+            <p className="p-4 text-sm text-center text-[#949ba4]">
+              #{channel.name} has no pinned messages yet.
+            </p>
+          )}
+          {pins?.map(({ message }) => (
+            <div
+              key={message.id}
+              className="group relative bg-[#313338] border border-[#1e1f22] rounded p-3"
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <img src={userAvatarUrl(message.author)} alt="" className="w-6 h-6 rounded-full" />
+                <span className="text-sm font-medium text-[#f2f3f5] truncate">
+                  {formatUser(message.author)}
+                </span>
+                <span className="text-xs text-[#949ba4]" title={formatFullDate(message.timestamp)}>
+                  {formatDate(message.timestamp)}
+                </span>
+              </div>
+              {message.content && (
+                <div className="max-h-24 overflow-hidden whitespace-pre-wrap break-words text-sm text-[#dbdee1]">
+                  {parseDiscordMarkdown(message.content)}
+                </div>
+              )}
+              {(message.attachments?.length ?? 0) + (message.embeds?.length ?? 0) > 0 && (
+                <div className="text-xs text-[#949ba4] mt-1">
+                  {[
+                    message.attachments?.length && `${message.attachments.length} attachment(s)`,
+                    message.embeds?.length && `${message.embeds.length} embed(s)`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </div>
+              )}
+              <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => onJump(message.id)}
+                  className="px-2 py-0.5 text-xs rounded bg-[#1e1f22] text-[#dbdee1] hover:bg-[#5865f2] hover:text-white"
+                >
+                  Jump
+                </button>
+                {canUnpin && (
+                  <button
+                    onClick={() => handleUnpin(message)}
+                    className="px-2 py-0.5 text-xs rounded bg-[#1e1f22] text-[#f23f43] hover:bg-[#f23f43] hover:text-white"
+                    title="Unpin"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+          {hasMore && (
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="w-full py-2 text-sm text-[#00a8fc] hover:underline"
+            >
+              {isLoadingMore ? 'Loading…' : 'Load more'}
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+// ============ FORUMS ============
+
+// Channel flag: posts need at least one tag
+const CHANNEL_FLAG_REQUIRE_TAG = 1 << 4;
+const MAX_APPLIED_TAGS = 5;
+
+type ForumSortOrder = 'activity' | 'created';
+
+// What the new post form hands over
+type NewForumPost = {
+  name: string;
+  content: string;
+  appliedTags: string[];
+  attachments: PendingAttachment[];
+};
+
+// A post is last active when its newest message was sent, or when it was created
+function postActivity(post: Channel): number {
+  return snowflakeTime(post.last_message_id || post.id);
+}
+
+const ForumTagChip: React.FC<{ tag: ForumTag; active?: boolean; onClick?: () => void }> = ({
+  tag,
+  active,
+  onClick,
+}) => {
+  const emoji = tag.emoji_id ? (
+    <img src={`${DISCORD_CDN}/emojis/${tag.emoji_id}.webp?size=16`} alt="" className="w-4 h-4" />
+  ) : (
+    tag.emoji_name && <span>{tag.emoji_name}</span>
+  );
+  const className = `inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium transition-colors ${
+    active
+      ? 'bg-[#5865f2] text-white'
+      : 'bg-[#2b2d31] text-[#dbdee1] border border-[#3f4147] hover:bg-[#35363c]'
+  }`;
+
+  if (!onClick) {
+    return (
+      <span className={className}>
+        {emoji}
+        {tag.name}
+      </span>
+    );
+  }
+  return (
+    <button type="button" onClick={onClick} className={className}>
+      {emoji}
+      {tag.name}
+    </button>
+  );
+};
+
+const NewForumPostForm: React.FC<{
+  channel: Channel;
+  onSubmit: (post: NewForumPost) => Promise<boolean>;
+  onCancel: () => void;
+}> = ({ channel, onSubmit, onCancel }) => {
+  const [name, setName] = useState('');
+  const [content, setContent] = useState('');
+  const [appliedTags, setAppliedTags] = useState<string[]>([]);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const tags = channel.available_tags ?? [];
+  const requiresTag = !!((channel.flags ?? 0) & CHANNEL_FLAG_REQUIRE_TAG) && tags.length > 0;
+  // Media channel posts are built around their files
+  const requiresFile = channel.type === 16;
+  const canSubmit =
+    !!name.trim() &&
+    (!!content.trim() || attachments.length > 0) &&
+    (!requiresTag || appliedTags.length > 0) &&
+    (!requiresFile || attachments.length > 0);
+
+  const toggleTag = (id: string) => {
+    setAppliedTags((prev) =>
+      prev.includes(id)
+        ? prev.filter((tagId) => tagId !== id)
+        : prev.length < MAX_APPLIED_TAGS
+          ? [...prev, id]
+          : prev
+    );
+  };
+
+  const handleAddFiles = (files: FileList) => {
+    const room = Math.max(0, MAX_ATTACHMENTS - attachments.length);
+    setAttachments((prev) => [
+      ...prev,
+      ...Array.from(files).slice(0, room).map(toPendingAttachment),
+    ]);
+  };
+
+  const handleRemoveFile = (key: string) => {
+    const removed = attachments.find((a) => a.key === key);
+    if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+    setAttachments((prev) => prev.filter((a) => a.key !== key));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit || isSubmitting) return;
+    setIsSubmitting(true);
+    const created = await onSubmit({ name: name.trim(), content, appliedTags, attachments });
+    setIsSubmitting(false);
+    if (created) {
+      attachments.forEach((a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+      onCancel();
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-[#2b2d31] rounded-lg p-4 space-y-3">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Post title"
+        maxLength={100}
+        autoFocus
+        className="w-full bg-[#1e1f22] rounded px-3 py-2 text-base font-semibold text-white placeholder-[#87898c] focus:outline-none focus:ring-1 focus:ring-[#5865f2]"
+      />
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-xs text-[#949ba4] mr-1">
+            Tags{requiresTag ? ' (required)' : ''}:
+          </span>
+          {tags.map((tag) => (
+            <ForumTagChip
+              key={tag.id}
+              tag={tag}
+              active={appliedTags.includes(tag.id)}
+              onClick={() => toggleTag(tag.id)}
+            />
+          ))}
+        </div>
+      )}
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder="Starter message"
+        rows={4}
+        maxLength={2000}
+        className="w-full bg-[#1e1f22] rounded px-3 py-2 text-[15px] text-[#dbdee1] placeholder-[#87898c] resize-y focus:outline-none focus:ring-1 focus:ring-[#5865f2]"
+      />
+      {attachments.length > 0 && (
+        <PendingAttachmentList
+          attachments={attachments}
+          onRemove={handleRemoveFile}
+          onUpdate={(key, changes) =>
+            setAttachments((prev) => prev.map((a) => (a.key === key ? { ...a, ...changes } : a)))
+          }
+        />
+      )}
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={attachments.length >= MAX_ATTACHMENTS}
+          className="px-3 py-1.5 rounded text-sm text-[#dbdee1] bg-[#4e5058] hover:bg-[#6d6f78] disabled:opacity-50 transition-colors"
+        >
+          Attach files{requiresFile ? ' (required)' : ''}
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files) handleAddFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded text-sm text-[#dbdee1] hover:underline"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!canSubmit || isSubmitting}
+          className="px-4 py-1.5 rounded text-sm font-medium text-white bg-[#5865f2] hover:bg-[#4752c4] disabled:opacity-50 transition-colors"
+        >
+          {isSubmitting ? 'Posting…' : 'Post'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// A forum or media channel: its posts as cards, sorted and filtered by tag, and a
+// form to start a new one
+const ForumView: React.FC<{
+  channel: Channel;
+  posts: Channel[];
+  archiveState?: 'loading' | 'loaded';
+  openThreadId: string | null;
+  canOperate: boolean;
+  onOpen: (post: Channel) => void;
+  onToggleArchived: () => void;
+  // Resolves to whether the post was created
+  onCreatePost: (post: NewForumPost) => Promise<boolean>;
+}> = ({
+  channel,
+  posts,
+  archiveState,
+  openThreadId,
+  canOperate,
+  onOpen,
+  onToggleArchived,
+  onCreatePost,
+}) => {
+  const [sortOrder, setSortOrder] = useState<ForumSortOrder>(
+    channel.default_sort_order === 1 ? 'created' : 'activity'
+  );
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [showNewPost, setShowNewPost] = useState(false);
+  const tags = channel.available_tags ?? [];
+  const tagsById = new Map(tags.map((tag) => [tag.id, tag]));
+
+  const visiblePosts = useMemo(
+    () =>
+      posts
+        .filter(
+          (post) =>
+            (archiveState === 'loaded' || !post.thread_metadata?.archived) &&
+            (tagFilter.length === 0 || tagFilter.some((id) => post.applied_tags?.includes(id)))
+        )
+        .sort((a, b) =>
+          sortOrder === 'created'
+            ? compareSnowflakes(b.id, a.id)
+            : postActivity(b) - postActivity(a)
+        ),
+    [posts, archiveState, tagFilter, sortOrder]
+  );
+
+  const toggleTagFilter = (id: string) => {
+    setTagFilter((prev) =>
+      prev.includes(id) ? prev.filter((tagId) => tagId !== id) : [...prev, id]
+    );
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {canOperate && !showNewPost && (
+          <button
+            onClick={() => setShowNewPost(true)}
+            className="px-4 py-1.5 rounded text-sm font-medium text-white bg-[#5865f2] hover:bg-[#4752c4] transition-colors"
+          >
+            New post
+          </button>
+        )}
+        <select
+          value={sortOrder}
+          onChange={(e) => setSortOrder(e.target.value as ForumSortOrder)}
+          className="bg-[#1e1f22] rounded px-2 py-1.5 text-sm text-[#dbdee1] focus:outline-none"
+        >
+          <option value="activity">Sort by recent activity</option>
+          <option value="created">Sort by creation date</option>
+        </select>
+        <button
+          onClick={onToggleArchived}
+          className="px-2 py-1.5 text-sm text-[#949ba4] hover:text-[#dbdee1] transition-colors"
+        >
+          {archiveState ? 'Hide archived posts' : 'Show archived posts'}
+        </button>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          {tags.map((tag) => (
+            <ForumTagChip
+              key={tag.id}
+              tag={tag}
+              active={tagFilter.includes(tag.id)}
+              onClick={() => toggleTagFilter(tag.id)}
+            />
+          ))}
+          {tagFilter.length > 0 && (
+            <button
+              onClick={() => setTagFilter([])}
+              className="text-xs text-[#949ba4] hover:text-[#dbdee1] hover:underline ml-1"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      {showNewPost && (
+        <NewForumPostForm
+          channel={channel}
+          onSubmit={onCreatePost}
+          onCancel={() => setShowNewPost(false)}
+        />
+      )}
+
+      {archiveState === 'loading' && (
+        <p className="text-sm text-[#80848e] italic">Loading archived posts…</p>
+      )}
+      {visiblePosts.length === 0 ? (
+        <div className="py-12 text-center text-sm text-[#b5bac1]">
+          {tagFilter.length > 0 ? 'No posts with these tags' : 'No posts yet'}
+        </div>
+      ) : (
+        visiblePosts.map((post) => (
+          <button
+            key={post.id}
+            onClick={() => onOpen(post)}
+            className={`w-full text-left rounded-lg p-4 border transition-colors ${
+              openThreadId === post.id
+                ? 'bg-[#404249] border-[#5865f2]'
+                : 'bg-[#2b2d31] border-transparent hover:border-[#3f4147] hover:bg-[#2e3035]'
+            }`}
+          >
+            <div className="flex items-center gap-2 mb-1">
+              <h3 className="font-semibold text-white truncate flex-1">{post.name}</h3>
+              {post.thread_metadata?.archived && (
+                <span className="text-[10px] bg-[#4e5058] text-white px-1.5 py-0.5 rounded font-bold uppercase">
+                  Archived
+                </span>
+              )}
+              {post.thread_metadata?.locked && <span className="text-xs">🔒</span>}
+            </div>
+            {!!post.applied_tags?.length && (
+              <div className="flex flex-wrap gap-1 mb-2">
+                {post.applied_tags.map((id) => {
+                  const tag = tagsById.get(id);
+                  return tag && <ForumTagChip key={id} tag={tag} />;
+                })}
+              </div>
+            )}
+            <div className="flex items-center gap-3 text-xs text-[#949ba4]">
+              <span>
+                💬 {post.message_count ?? 0} {post.message_count === 1 ? 'reply' : 'replies'}
+              </span>
+              <span>Last activity {formatDate(new Date(postActivity(post)).toISOString())}</span>
+            </div>
+          </button>
+        ))
+      )}
+    </div>
+  );
+};
+
+// ============ TOAST COMPONENT ============
+
+const Toast: React.FC<{
+  message: string;
+  type?: 'success' | 'error' | 'info';
+  onClose: () => void;
+}> = ({ message, type = 'info', onClose }) => {
+  useEffect(() => {
+    const timer = setTimeout(onClose, 3000);
+    return () => clearTimeout(timer);
+  }, [onClose]);
+
+  const bgColors = {
+    success: 'bg-[#23a559]',
+    error: 'bg-[#f23f43]',
+    info: 'bg-[#5865f2]',
+  };
+
+  return (
+    <div
+      className={`fixed bottom-4 right-4 ${bgColors[type]} text-white px-4 py-3 rounded-lg shadow-lg flex items-center gap-3 animate-slide-in z-50`}
+    >
+      {type === 'success' && (
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
+        </svg>
+      )}
+      {type === 'error' && (
+        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 15h-2v-2h2v2zm0-4h-2V7h2v6z" />
+        </svg>
+      )}
+      <span className="font-medium">{message}</span>
+      <button onClick={onClose} className="hover:bg-white/20 rounded p-0.5 transition-colors">
+        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+// ============ QUICK SWITCHER COMPONENT ============
+
+const QuickSwitcher: React.FC<{
+  channels: Channel[];
+  guilds: Guild[];
+  onSelect: (type: 'channel' | 'guild', id: string) => void;
+  onClose: () => void;
+}> = ({ channels, guilds, onSelect, onClose }) => {
+  const [searchQuery, setSearchQuery] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const filteredChannels = channels.filter((c) =>
+    c.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+  const filteredGuilds = guilds.filter((g) =>
+    g.name.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center pt-[15vh] z-50">
+      <div className="bg-[#2b2d31] rounded-lg shadow-2xl w-[440px] max-h-[420px] flex flex-col animate-scale-in">
+        <div className="p-4 border-b border-[#1e1f22]">
+          <input
+            ref={inputRef}
+            type="text"
+            placeholder="Jump to..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') onClose();
+            }}
+            className="w-full bg-[#1e1f22] text-white px-3 py-2 rounded focus:outline-none focus:ring-2 focus:ring-[#5865f2]"
+          />
+        </div>
+        <div className="flex-1 overflow-y-auto p-2">
+          {searchQuery && filteredGuilds.length > 0 && (
+            <div className="mb-2">
+              <div className="text-xs font-semibold text-[#949ba4] uppercase px-2 mb-1">
+                Servers
+              </div>
+              {filteredGuilds.slice(0, 5).map((guild) => (
+                <button
+                  key={guild.id}
+                  onClick={() => onSelect('guild', guild.id)}
+                  className="w-full text-left px-2 py-1.5 rounded hover:bg-[#35363c] text-[#dbdee1] flex items-center gap-2"
+                >
+                  {guild.icon ? (
+                    <img src={guildIconUrl(guild)} alt="" className="w-5 h-5 rounded-full" />
+                  ) : (
+                    <div className="w-5 h-5 rounded bg-[#5865f2] flex items-center justify-center text-xs">
+                      {guild.name.charAt(0)}
+                    </div>
+                  )}
+                  <span>{guild.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {searchQuery && filteredChannels.length > 0 && (
+            <div>
+              <div className="text-xs font-semibold text-[#949ba4] uppercase px-2 mb-1">
+                Channels
+              </div>
+              {filteredChannels.slice(0, 5).map((channel) => (
+                <button
+                  key={channel.id}
+                  onClick={() => onSelect('channel', channel.id)}
+                  className="w-full text-left px-2 py-1.5 rounded hover:bg-[#35363c] text-[#dbdee1] flex items-center gap-2"
+                >
+                  <span className="text-[#949ba4]">{getChannelTypeIcon(channel.type)}</span>
+                  <span>{channel.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {!searchQuery && (
+            <div className="text-center py-8 text-[#949ba4] text-sm">
+              Type to search channels and servers...
+            </div>
+          )}
+          {searchQuery && filteredChannels.length === 0 && filteredGuilds.length === 0 && (
+            <div className="text-center py-8 text-[#949ba4] text-sm">No results found</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ============ USER SEARCH MODAL ============
+
+const UserSearchModal: React.FC<{
+  users: User[];
+  onUserClick: (user: User) => void;
+  onClose: () => void;
+}> = ({ users, onUserClick, onClose }) => {
+  const [query, setQuery] = useState('');
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-md w-full max-h-[80vh] overflow-hidden flex flex-col animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-[#1e1f22]">
+          <h2 className="text-xl font-bold text-white mb-4">Search Users</h2>
+          <input
+            type="text"
+            placeholder="Search users..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            autoFocus
+            className="w-full bg-[#1e1f22] text-[#dbdee1] placeholder-[#87898c] px-4 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#5865f2]"
+          />
+        </div>
+        <div className="flex-1 overflow-y-auto p-2">
+          {users.length === 0 ? (
+            <div className="text-center py-8 text-[#949ba4]">No users found</div>
+          ) : (
+            users.map((user) => (
+              <button
+                key={user.id}
+                onClick={() => onUserClick(user)}
+                className="w-full text-left px-4 py-3 rounded-lg hover:bg-[#35363c] transition-colors flex items-center gap-3"
+              >
+                <img src={userAvatarUrl(user)} alt="" className="w-10 h-10 rounded-full" />
+                <div className="flex-1">
+                  <div className="font-semibold text-[#f2f3f5]">{formatUser(user)}</div>
+                  <div className="text-sm text-[#949ba4]">@{user.username}</div>
+                </div>
+                {user.bot && (
+                  <span className="text-xs bg-[#5865f2] text-white px-2 py-1 rounded font-bold">
+                    BOT
+                  </span>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+        <div className="p-4 border-t border-[#1e1f22] flex justify-end">
+          <Button onClick={onClose}>Close</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ============ CREATE SERVER MODAL ============
+
+const CreateServerModal: React.FC<{
+  onClose: () => void;
+  onCreate: (name: string, icon: File | null) => void;
+}> = ({ onClose, onCreate }) => {
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState<File | null>(null);
+  const [iconPreview, setIconPreview] = useState<string>('');
+
+  const handleIconChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setIcon(file);
+      setIconPreview(URL.createObjectURL(file));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) {
+      onCreate(name.trim(), icon);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-md w-full animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4">
+          <h2 className="text-xl font-bold text-white mb-6">Create Server</h2>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-semibold text-[#b5bac1] mb-2">Server Icon</label>
+              <div className="flex items-center gap-4">
+                <div
+                  className="w-20 h-20 rounded-full bg-[#35363c] flex items-center justify-center cursor-pointer hover:bg-[#404249] transition-colors relative overflow-hidden group"
+                  onClick={() => document.getElementById('server-icon-input')?.click()}
+                >
+                  {iconPreview ? (
+                    <img src={iconPreview} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <svg
+                      className="w-10 h-10 text-[#949ba4]"
+                      fill="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path d="M19 13h-6v6h-2v-6h-2v-2h6v2zM7 9c-1.1 0-2 .9-2 2v2h-2c0 1.1.9 2 2s.9-2 2-2zm8 0c-1.1 0-2 .9-2 2v2h-2c0 1.1.9 2 2s.9-2 2-2zm5 11h-4v4h-2v-4H7v-2h4V7h2v4z" />
+                    </svg>
+                  )}
+                  <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                    <span className="text-white text-xs">Upload</span>
+                  </div>
+                </div>
+                <input
+                  id="server-icon-input"
+                  type="file"
+                  accept="image/*"
+                  onChange={handleIconChange}
+                  className="hidden"
+                />
+                {icon && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setIcon(null);
+                      setIconPreview('');
+                    }}
+                    className="text-[#f23f43] text-sm hover:underline"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-[#b5bac1] mb-2">Server Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="My Awesome Server"
+                maxLength={100}
+                autoFocus
+                className="w-full bg-[#1e1f22] text-[#dbdee1] placeholder-[#87898c] px-4 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#5865f2]"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={onClose} variant="secondary">
+                Cancel
+              </Button>
+              <Button type="submit" variant="primary" disabled={!name.trim()}>
+                Create Server
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ============ TEAM PANEL ============
+
+const TeamPanel: React.FC<{
+  currentAccountId: string;
+  onClose: () => void;
+}> = ({ currentAccountId, onClose }) => {
+  const botId = useContext(ActiveBotContext);
+  const [members, setMembers] = useState<BotMember[]>([]);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<TeamRole>('viewer');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadMembers = useCallback(async () => {
+    try {
+      setMembers(await appRequest<BotMember[]>(botId, '/api/team'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load team');
+    }
+  }, [botId]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const saveMember = async (member: { username: string; role: TeamRole; password?: string }) => {
+    setIsSaving(true);
+    try {
+      await appRequest(botId, '/api/team', 'PUT', member);
+      setError(null);
+      await loadMembers();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save member');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeMember = async (member: BotMember) => {
+    if (!confirm(`Remove ${member.username} from this bot?`)) return;
+    try {
+      await appRequest(
+        botId,
+        `/api/team?accountId=${encodeURIComponent(member.accountId)}`,
+        'DELETE'
+      );
+      setError(null);
+      await loadMembers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove member');
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    const saved = await saveMember({
+      username: username.trim(),
+      role,
+      password: password || undefined,
+    });
+    if (saved) {
+      setUsername('');
+      setPassword('');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-lg w-full animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4">
+          <h2 className="text-xl font-bold text-white mb-1">Team</h2>
+          <p className="text-sm text-[#b5bac1] mb-4">
+            Viewers read, operators send, react and edit, moderators also delete, kick and ban.
+            Admins can do everything, including managing this list.
+          </p>
+
+          <div className="space-y-1 max-h-64 overflow-y-auto mb-4">
+            {members.map((member) => (
+              <div
+                key={member.accountId}
+                className="flex items-center gap-2 px-2 py-1.5 rounded hover:bg-[#35363c]"
+              >
+                <span className="flex-1 text-sm text-[#dbdee1] truncate">
+                  {member.username}
+                  {member.accountId === currentAccountId && (
+                    <span className="text-[#949ba4]"> (you)</span>
+                  )}
+                </span>
+                <select
+                  value={member.role}
+                  disabled={isSaving}
+                  onChange={(e) =>
+                    saveMember({ username: member.username, role: e.target.value as TeamRole })
+                  }
+                  className="bg-[#1e1f22] text-[#dbdee1] text-sm px-2 py-1 rounded focus:outline-none"
+                >
+                  {TEAM_ROLES.map((r) => (
+                    <option key={r} value={r}>
+                      {r}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => removeMember(member)}
+                  className="text-[#f23f43] text-sm hover:underline"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <form onSubmit={handleAdd} className="space-y-2">
+            <label className="block text-sm font-semibold text-[#b5bac1]">Add member</label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Username"
+                className="flex-1 min-w-0 bg-[#1e1f22] text-[#dbdee1] placeholder-[#87898c] px-3 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#5865f2]"
+              />
+              <select
+                value={role}
+                onChange={(e) => setRole(e.target.value as TeamRole)}
+                className="bg-[#1e1f22] text-[#dbdee1] text-sm px-2 rounded-lg focus:outline-none"
+              >
+                {TEAM_ROLES.map((r) => (
+                  <option key={r} value={r}>
+                    {r}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password (only to create a new account)"
+              className="w-full bg-[#1e1f22] text-[#dbdee1] placeholder-[#87898c] px-3 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#5865f2]"
+            />
+            {error && <p className="text-sm text-[#f23f43]">{error}</p>}
+            <div className="flex gap-2">
+              <Button type="button" onClick={onClose} variant="secondary">
+                Close
+              </Button>
+              <Button type="submit" variant="primary" disabled={!username.trim() || isSaving}>
+                Add Member
+              </Button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ============ AUDIT LOG PANEL ============
+
+const AUDIT_METHODS = ['POST', 'PATCH', 'PUT', 'DELETE'];
+
+const AuditLogPanel: React.FC<{ botId: string; onClose: () => void }> = ({ botId, onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [members, setMembers] = useState<BotMember[]>([]);
+  const [username, setUsername] = useState('');
+  const [method, setMethod] = useState('');
+  const [outcome, setOutcome] = useState('');
+  const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const query = useMemo(() => {
+    const params = new URLSearchParams({ botId });
+    if (username) params.set('username', username);
+    if (method) params.set('method', method);
+    if (outcome) params.set('outcome', outcome);
+    if (search.trim()) params.set('search', search.trim());
+    // Dates are local calendar days; the "to" day is included in full
+    if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+    return params.toString();
+  }, [botId, username, method, outcome, search, from, to]);
+
+  useEffect(() => {
+    appRequest<BotMember[]>(botId, '/api/team')
+      .then(setMembers)
+      .catch(() => setMembers([]));
+  }, [botId]);
+
+  useEffect(() => {
+    // Debounced so typing in the search box does not fire a request per key
+    const timer = setTimeout(() => {
+      appRequest<{ entries: AuditEntry[]; total: number }>(botId, `/api/audit?${query}`)
+        .then((data) => {
+          setEntries(data.entries);
+          setTotal(data.total);
+          setError(null);
+        })
+        .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load audit log'));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [botId, query]);
+
+  const filterClass =
+    'bg-[#1e1f22] text-[#dbdee1] placeholder-[#87898c] text-sm px-2 py-1.5 rounded focus:outline-none focus:ring-2 focus:ring-[#5865f2]';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-5xl w-full max-h-[85vh] flex flex-col animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-[#1e1f22]">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-xl font-bold text-white">Audit Log</h2>
+            <div className="flex items-center gap-2">
+              <a
+                href={`/api/audit?${query}&format=csv`}
+                className="text-sm text-[#00a8fc] hover:underline"
+              >
+                Export CSV
+              </a>
+              <a
+                href={`/api/audit?${query}&format=json`}
+                className="text-sm text-[#00a8fc] hover:underline"
+              >
+                Export JSON
+              </a>
+              <button onClick={onClose} className="text-[#b5bac1] hover:text-white ml-2">
+                ✕
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className={filterClass}
+            >
+              <option value="">All members</option>
+              {members.map((member) => (
+                <option key={member.accountId} value={member.username}>
+                  {member.username}
+                </option>
+              ))}
+            </select>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value)}
+              className={filterClass}
+            >
+              <option value="">All methods</option>
+              {AUDIT_METHODS.map((m) => (
+                <option key={m} value={m}>
+                  {m}
+                </option>
+              ))}
+            </select>
+            <select
+              value={outcome}
+              onChange={(e) => setOutcome(e.target.value)}
+              className={filterClass}
+            >
+              <option value="">Any result</option>
+              <option value="success">Succeeded</option>
+              <option value="error">Failed or denied</option>
+            </select>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search route or body"
+              className={`${filterClass} flex-1 min-w-[160px]`}
+            />
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className={filterClass}
+              title="From"
+            />
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className={filterClass}
+              title="To"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {error ? (
+            <p className="p-4 text-sm text-[#f23f43]">{error}</p>
+          ) : entries.length === 0 ? (
+            <p className="p-4 text-sm text-[#949ba4]">No matching actions</p>
+          ) : (
+            <table className="w-full text-sm text-left">
+              <thead className="sticky top-0 bg-[#2b2d31] text-xs uppercase text-[#949ba4]">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">Time</th>
+                  <th className="px-3 py-2 font-semibold">Member</th>
+                  <th className="px-3 py-2 font-semibold">Request</th>
+                  <th className="px-3 py-2 font-semibold">Body</th>
+                  <th className="px-3 py-2 font-semibold">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-t border-[#1e1f22] align-top">
+                    <td className="px-3 py-2 text-[#b5bac1] whitespace-nowrap">
+                      {formatFullDate(entry.timestamp)}
+                    </td>
+                    <td className="px-3 py-2 text-[#dbdee1]">{entry.username}</td>
+                    <td className="px-3 py-2 text-[#dbdee1] font-mono text-xs break-all">
+                      <span className="font-semibold">{entry.method}</span> {entry.path}
+                    </td>
+                    <td className="px-3 py-2 text-[#b5bac1] text-xs break-words max-w-xs">
+                      {entry.summary}
+                    </td>
+                    <td
+                      className={`px-3 py-2 font-semibold whitespace-nowrap ${
+                        entry.denied || entry.status >= 400 ? 'text-[#f23f43]' : 'text-[#23a559]'
+                      }`}
+                    >
+                      {entry.denied ? 'Denied' : entry.status}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {total > entries.length && (
+          <p className="px-4 py-2 text-xs text-[#949ba4] border-t border-[#1e1f22]">
+            Showing the latest {entries.length} of {total} actions; exports include all of them.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ============ SLASH COMMANDS ============
+
+const COMMAND_TYPE_CHAT_INPUT = 1;
+
+const COMMAND_TYPE_LABELS: Record<number, string> = {
+  1: 'Slash command',
+  2: 'User menu',
+  3: 'Message menu',
+  4: 'Activity entry point',
+};
+
+const OPTION_TYPES = {
+  SUB_COMMAND: 1,
+  SUB_COMMAND_GROUP: 2,
+  STRING: 3,
+  INTEGER: 4,
+  BOOLEAN: 5,
+  USER: 6,
+  CHANNEL: 7,
+  ROLE: 8,
+  MENTIONABLE: 9,
+  NUMBER: 10,
+  ATTACHMENT: 11,
+};
+
+const OPTION_TYPE_LABELS: Record<number, string> = {
+  1: 'Subcommand',
+  2: 'Subcommand group',
+  3: 'String',
+  4: 'Integer',
+  5: 'Boolean',
+  6: 'User',
+  7: 'Channel',
+  8: 'Role',
+  9: 'Mentionable',
+  10: 'Number',
+  11: 'Attachment',
+};
+
+const VALUE_OPTION_TYPES = [3, 4, 5, 6, 7, 8, 9, 10, 11];
+
+// Channel types a channel option can be limited to
+const OPTION_CHANNEL_TYPES = [
+  { value: 0, label: 'Text' },
+  { value: 2, label: 'Voice' },
+  { value: 4, label: 'Category' },
+  { value: 5, label: 'Announcement' },
+  { value: 11, label: 'Thread' },
+  { value: 13, label: 'Stage' },
+  { value: 15, label: 'Forum' },
+];
+
+// Where a command shows up
+const COMMAND_CONTEXTS = [
+  { value: 0, label: 'Servers' },
+  { value: 1, label: "The bot's DMs" },
+  { value: 2, label: 'Other DMs and group DMs' },
+];
+
+// Permissions commands are commonly limited to
+const COMMAND_PERMISSIONS = [
+  { value: '8', label: 'Administrator' },
+  { value: '32', label: 'Manage Server' },
+  { value: '16', label: 'Manage Channels' },
+  { value: '268435456', label: 'Manage Roles' },
+  { value: '8192', label: 'Manage Messages' },
+  { value: '2', label: 'Kick Members' },
+  { value: '4', label: 'Ban Members' },
+  { value: '1099511627776', label: 'Timeout Members' },
+];
+
+const DISCORD_LOCALES = [
+  'bg',
+  'cs',
+  'da',
+  'de',
+  'el',
+  'en-GB',
+  'en-US',
+  'es-419',
+  'es-ES',
+  'fi',
+  'fr',
+  'hi',
+  'hr',
+  'hu',
+  'id',
+  'it',
+  'ja',
+  'ko',
+  'lt',
+  'nl',
+  'no',
+  'pl',
+  'pt-BR',
+  'ro',
+  'ru',
+  'sv-SE',
+  'th',
+  'tr',
+  'uk',
+  'vi',
+  'zh-CN',
+  'zh-TW',
+];
+
+const MAX_COMMAND_OPTIONS = 25;
+const MAX_OPTION_CHOICES = 25;
+
+const applicationIdRequests = new Map<string, Promise<string>>();
+
+// The bot's application id, which older bots do not share with their user id
+function loadApplicationId(botId: string | null) {
+  if (!botId) return Promise.reject(new Error('No bot selected'));
+  let request = applicationIdRequests.get(botId);
+  if (!request) {
+    request = authedFetch<{ id: string }>(botId, '/applications/@me').then((app) => app.id);
+    request.catch(() => applicationIdRequests.delete(botId));
+    applicationIdRequests.set(botId, request);
+  }
+  return request;
+}
+
+function commandsPath(applicationId: string, guildId: string | null) {
+  return guildId
+    ? `/applications/${applicationId}/guilds/${guildId}/commands`
+    : `/applications/${applicationId}/commands`;
+}
+
+function hasPermissionBit(permissions: string | null | undefined, bit: string) {
+  return !!permissions && (BigInt(permissions) & BigInt(bit)) === BigInt(bit);
+}
+
+function togglePermissionBit(permissions: string | null | undefined, bit: string) {
+  return (BigInt(permissions ?? '0') ^ BigInt(bit)).toString();
+}
+
+function isValueOption(option: CommandOption) {
+  return VALUE_OPTION_TYPES.includes(option.type);
+}
+
+function takesChoices(option: CommandOption) {
+  return [OPTION_TYPES.STRING, OPTION_TYPES.INTEGER, OPTION_TYPES.NUMBER].includes(option.type);
+}
+
+// Slash command and option names are lowercase and without spaces; context menu
+// entries may have both
+function commandNameProblem(name: string, what: string, spaced = false) {
+  if (spaced ? !/^.{1,32}$/.test(name) : !/^\S{1,32}$/.test(name) || name !== name.toLowerCase()) {
+    return spaced
+      ? `${what} names are 1-32 characters`
+      : `${what} names are 1-32 lowercase characters without spaces`;
+  }
+  return null;
+}
+
+function describedProblem(description: string | undefined, what: string) {
+  const length = description?.trim().length ?? 0;
+  return length < 1 || length > 100 ? `${what} needs a description of 1-100 characters` : null;
+}
+
+function choicesProblem(option: CommandOption, what: string): string | null {
+  const choices = option.choices ?? [];
+  if (choices.length > MAX_OPTION_CHOICES) return `${what} has more than 25 choices`;
+  if (choices.length > 0 && option.autocomplete) {
+    return `${what} cannot have both choices and autocomplete`;
+  }
+  for (const choice of choices) {
+    if (!choice.name.trim() || choice.name.length > 100) {
+      return `Choices of ${what} need a name of 1-100 characters`;
+    }
+    const valid =
+      option.type === OPTION_TYPES.STRING
+        ? typeof choice.value === 'string' && choice.value.length > 0 && choice.value.length <= 100
+        : typeof choice.value === 'number' &&
+          isFinite(choice.value) &&
+          (option.type !== OPTION_TYPES.INTEGER || Number.isInteger(choice.value));
+    if (!valid) return `The choice "${choice.name}" of ${what} has no valid value`;
+  }
+  return null;
+}
+
+// The first thing Discord would reject about a list of options, if anything
+function optionsProblem(options: CommandOption[], parent: string): string | null {
+  if (options.length > MAX_COMMAND_OPTIONS) return `${parent} has more than 25 options`;
+  const subcommands = options.filter((option) => !isValueOption(option)).length;
+  if (subcommands > 0 && subcommands < options.length) {
+    return `${parent} mixes subcommands with other options`;
+  }
+  const names = options.map((option) => option.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) return `${parent} has two options called "${duplicate}"`;
+  const firstOptional = options.findIndex((option) => isValueOption(option) && !option.required);
+  if (
+    options.some((option, index) => option.required && firstOptional >= 0 && index > firstOptional)
+  ) {
+    return `Required options of ${parent} have to come before the optional ones`;
+  }
+
+  for (const option of options) {
+    const what = `the option "${option.name}"`;
+    const problem =
+      commandNameProblem(option.name, 'Option') ||
+      describedProblem(option.description, what) ||
+      (takesChoices(option) ? choicesProblem(option, what) : null) ||
+      (isValueOption(option) ? null : optionsProblem(option.options ?? [], what));
+    if (problem) return problem;
+  }
+  return null;
+}
+
+function commandProblem(command: ApplicationCommand): string | null {
+  if ((command.type ?? COMMAND_TYPE_CHAT_INPUT) !== COMMAND_TYPE_CHAT_INPUT) {
+    return commandNameProblem(command.name, 'Menu entry', true);
+  }
+  return (
+    commandNameProblem(command.name, 'Command') ||
+    describedProblem(command.description, `/${command.name}`) ||
+    optionsProblem(command.options ?? [], `/${command.name}`)
+  );
+}
+
+// Translations without text are dropped, the rest sorted by locale
+function compactLocalizations(localizations?: Localizations | null) {
+  const locales = Object.keys(localizations ?? {})
+    .filter((locale) => localizations?.[locale]?.trim())
+    .sort();
+  if (!localizations || locales.length === 0) return undefined;
+  return locales.reduce<Localizations>((result, locale) => {
+    result[locale] = localizations[locale];
+    return result;
+  }, {});
+}
+
+function normalizeOption(option: CommandOption): CommandOption {
+  const numeric = (value?: number) => (typeof value === 'number' ? value : undefined);
+  return {
+    type: option.type,
+    name: option.name,
+    name_localizations: compactLocalizations(option.name_localizations),
+    description: option.description,
+    description_localizations: compactLocalizations(option.description_localizations),
+    required: option.required || undefined,
+    choices: option.choices?.length
+      ? option.choices.map((choice) => ({
+          name: choice.name,
+          name_localizations: compactLocalizations(choice.name_localizations),
+          value: choice.value,
+        }))
+      : undefined,
+    options: option.options?.length ? option.options.map(normalizeOption) : undefined,
+    channel_types: option.channel_types?.length
+      ? option.channel_types.slice().sort((a, b) => a - b)
+      : undefined,
+    min_value: numeric(option.min_value),
+    max_value: numeric(option.max_value),
+    min_length: numeric(option.min_length),
+    max_length: numeric(option.max_length),
+    autocomplete: option.autocomplete || undefined,
+  };
+}
+
+// What registering a command sets, in a fixed key order and without Discord's
+// defaults. It is both the body sent to Discord and what the diff compares, so a
+// command fetched back after saving compares equal to the one saved.
+function normalizeCommand(command: ApplicationCommand): ApplicationCommand {
+  const type = command.type ?? COMMAND_TYPE_CHAT_INPUT;
+  const integrationTypes = command.integration_types ?? [];
+  return {
+    type,
+    name: command.name,
+    name_localizations: compactLocalizations(command.name_localizations),
+    description: type === COMMAND_TYPE_CHAT_INPUT ? (command.description ?? '') : '',
+    description_localizations:
+      type === COMMAND_TYPE_CHAT_INPUT
+        ? compactLocalizations(command.description_localizations)
+        : undefined,
+    options:
+      type === COMMAND_TYPE_CHAT_INPUT && command.options?.length
+        ? command.options.map(normalizeOption)
+        : undefined,
+    default_member_permissions: command.default_member_permissions ?? null,
+    contexts: command.contexts?.length ? command.contexts.slice().sort((a, b) => a - b) : undefined,
+    // Guild installs are the default
+    integration_types:
+      integrationTypes.length > 0 && integrationTypes.join() !== '0'
+        ? integrationTypes.slice().sort((a, b) => a - b)
+        : undefined,
+    nsfw: command.nsfw || undefined,
+  };
+}
+
+// PATCH keeps the fields its body leaves out, so the ones normalizeCommand drops
+// once cleared are sent as explicitly empty instead
+function commandPatchBody(command: ApplicationCommand): ApplicationCommand {
+  const normalized = normalizeCommand(command);
+  const chatInput = normalized.type === COMMAND_TYPE_CHAT_INPUT;
+  return {
+    ...normalized,
+    name_localizations: normalized.name_localizations ?? null,
+    ...(chatInput && {
+      description_localizations: normalized.description_localizations ?? null,
+      options: normalized.options ?? [],
+    }),
+    contexts: normalized.contexts ?? null,
+    integration_types: normalized.integration_types ?? [0],
+    nsfw: normalized.nsfw ?? false,
+  };
+}
+
+const commandKey = (command: ApplicationCommand) =>
+  `${command.type ?? COMMAND_TYPE_CHAT_INPUT}:${command.name}`;
+
+type CommandDiff = {
+  key: string;
+  command: ApplicationCommand;
+  status: 'added' | 'changed' | 'removed' | 'unchanged';
+  // Top-level fields that differ, for changed commands
+  fields: string[];
+};
+
+// How overwriting the registered commands with a local list would change them;
+// commands are matched by type and name, like Discord does
+function diffCommands(registered: ApplicationCommand[], local: ApplicationCommand[]) {
+  const registeredByKey = new Map(
+    registered.map((c): [string, ApplicationCommand] => [commandKey(c), normalizeCommand(c)])
+  );
+  const localKeys = new Set(local.map(commandKey));
+
+  const diff: CommandDiff[] = local.map((command) => {
+    const key = commandKey(command);
+    const before = registeredByKey.get(key);
+    const after = normalizeCommand(command);
+    if (!before) return { key, command, status: 'added', fields: [] };
+    const fields = (Object.keys(after) as (keyof ApplicationCommand)[]).filter(
+      (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+    );
+    return { key, command, status: fields.length > 0 ? 'changed' : 'unchanged', fields };
+  });
+  registered
+    .filter((command) => !localKeys.has(commandKey(command)))
+    .forEach((command) =>
+      diff.push({ key: commandKey(command), command, status: 'removed', fields: [] })
+    );
+  return diff;
+}
+
+// Accepts an array of commands, as Discord takes them for a bulk overwrite, or an
+// object with a "commands" array
+function parseCommandsJson(text: string): ApplicationCommand[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const list =
+    data && typeof data === 'object' && !Array.isArray(data)
+      ? (data as { commands?: unknown }).commands
+      : data;
+  if (!Array.isArray(list)) throw new Error('Expected an array of commands');
+  if (list.some((command) => !command || typeof command.name !== 'string')) {
+    throw new Error('Every command needs a name');
+  }
+  return list as ApplicationCommand[];
+}
+
+function downloadJson(filename: string, data: unknown) {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const CommandsLabel: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <div className="text-xs font-bold uppercase text-[#949ba4] mb-1">{children}</div>
+);
+
+// Translations of a name or description, one row per locale
+const LocalizationsEditor: React.FC<{
+  value: Localizations | null | undefined;
+  maxLength: number;
+  onChange: (value: Localizations | null) => void;
+}> = ({ value, maxLength, onChange }) => {
+  const locales = Object.keys(value ?? {});
+  const unused = DISCORD_LOCALES.filter((locale) => !locales.includes(locale));
+
+  const set = (entries: [string, string][]) =>
+    onChange(entries.length > 0 ? Object.fromEntries(entries) : null);
+  const entries = locales.map((locale): [string, string] => [locale, value?.[locale] ?? '']);
+
+  return (
+    <div className="space-y-1">
+      {entries.map(([locale, text], index) => (
+        <div key={locale} className="flex items-center gap-2">
+          <select
+            value={locale}
+            onChange={(e) =>
+              set(entries.map((entry, i) => (i === index ? [e.target.value, text] : entry)))
+            }
+            className={builderInputClass}
+          >
+            {[locale, ...unused].map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={text}
+            onChange={(e) =>
+              set(entries.map((entry, i) => (i === index ? [locale, e.target.value] : entry)))
+            }
+            maxLength={maxLength}
+            className={`${builderInputClass} flex-1`}
+          />
+          <button
+            type="button"
+            onClick={() => set(entries.filter((_, i) => i !== index))}
+            className="text-xs text-[#f23f43] hover:underline"
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      {unused.length > 0 && (
+        <button
+          type="button"
+          onClick={() => set([...entries, [unused[0], '']])}
+          className="text-xs text-[#00a8fc] hover:underline"
+        >
+          + Add translation
+        </button>
+      )}
+    </div>
+  );
+};
+
+const CommandOptionEditor: React.FC<{
+  option: CommandOption;
+  allowedTypes: number[];
+  onChange: (option: CommandOption) => void;
+  onRemove: () => void;
+}> = ({ option, allowedTypes, onChange, onRemove }) => {
+  const [showTranslations, setShowTranslations] = useState(
+    !!compactLocalizations(option.name_localizations) ||
+      !!compactLocalizations(option.description_localizations)
+  );
+  const update = (changes: Partial<CommandOption>) => onChange({ ...option, ...changes });
+  const numberInput = (
+    field: 'min_value' | 'max_value' | 'min_length' | 'max_length',
+    placeholder: string
+  ) => (
+    <input
+      type="number"
+      value={option[field] ?? ''}
+      onChange={(e) =>
+        update({ [field]: e.target.value === '' ? undefined : Number(e.target.value) })
+      }
+      placeholder={placeholder}
+      className={`${builderInputClass} w-24`}
+    />
+  );
+  const choices = option.choices ?? [];
+  const updateChoice = (index: number, changes: Partial<CommandChoice>) =>
+    update({ choices: choices.map((c, i) => (i === index ? { ...c, ...changes } : c)) });
+
+  return (
+    <div className="bg-[#2b2d31] rounded p-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={option.type}
+          // Type-specific settings do not carry over to another type
+          onChange={(e) =>
+            onChange({
+              type: Number(e.target.value),
+              name: option.name,
+              name_localizations: option.name_localizations,
+              description: option.description,
+              description_localizations: option.description_localizations,
+              required: option.required,
+            })
+          }
+          className={builderInputClass}
+        >
+          {allowedTypes.map((type) => (
+            <option key={type} value={type}>
+              {OPTION_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={option.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="name"
+          maxLength={32}
+          className={`${builderInputClass} w-32`}
+        />
+        <input
+          type="text"
+          value={option.description}
+          onChange={(e) => update({ description: e.target.value })}
+          placeholder="Description"
+          maxLength={100}
+          className={`${builderInputClass} flex-1 min-w-[140px]`}
+        />
+        {isValueOption(option) && (
+          <label className="flex items-center gap-1 text-xs text-[#b5bac1]">
+            <input
+              type="checkbox"
+              checked={!!option.required}
+              onChange={(e) => update({ required: e.target.checked })}
+            />
+            Required
+          </label>
+        )}
+        <button
+          type="button"
+          onClick={() => setShowTranslations(!showTranslations)}
+          className="text-xs text-[#00a8fc] hover:underline"
+        >
+          Translations
+        </button>
+        <button type="button" onClick={onRemove} className="text-xs text-[#f23f43] hover:underline">
+          Remove
+        </button>
+      </div>
+
+      {showTranslations && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <CommandsLabel>Name</CommandsLabel>
+            <LocalizationsEditor
+              value={option.name_localizations}
+              maxLength={32}
+              onChange={(name_localizations) => update({ name_localizations })}
+            />
+          </div>
+          <div>
+            <CommandsLabel>Description</CommandsLabel>
+            <LocalizationsEditor
+              value={option.description_localizations}
+              maxLength={100}
+              onChange={(description_localizations) => update({ description_localizations })}
+            />
+          </div>
+        </div>
+      )}
+
+      {option.type === OPTION_TYPES.STRING && (
+        <div className="flex items-center gap-2 text-xs text-[#b5bac1]">
+          Length {numberInput('min_length', 'min')} {numberInput('max_length', 'max')}
+        </div>
+      )}
+      {(option.type === OPTION_TYPES.INTEGER || option.type === OPTION_TYPES.NUMBER) && (
+        <div className="flex items-center gap-2 text-xs text-[#b5bac1]">
+          Value {numberInput('min_value', 'min')} {numberInput('max_value', 'max')}
+        </div>
+      )}
+      {option.type === OPTION_TYPES.CHANNEL && (
+        <div className="flex flex-wrap items-center gap-3 text-xs text-[#b5bac1]">
+          Only
+          {OPTION_CHANNEL_TYPES.map(({ value, label }) => (
+            <label key={value} className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={!!option.channel_types?.includes(value)}
+                onChange={(e) => {
+                  const rest = (option.channel_types ?? []).filter((t) => t !== value);
+                  update({ channel_types: e.target.checked ? [...rest, value] : rest });
+                }}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {takesChoices(option) && (
+        <div className="space-y-1">
+          <label className="flex items-center gap-1 text-xs text-[#b5bac1]">
+            <input
+              type="checkbox"
+              checked={!!option.autocomplete}
+              disabled={choices.length > 0}
+              onChange={(e) => update({ autocomplete: e.target.checked })}
+            />
+            Autocomplete (the bot suggests values while the member types)
+          </label>
+          {choices.map((choice, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={choice.name}
+                onChange={(e) => updateChoice(index, { name: e.target.value })}
+                placeholder="Choice name"
+                maxLength={100}
+                className={`${builderInputClass} flex-1`}
+              />
+              <input
+                type={option.type === OPTION_TYPES.STRING ? 'text' : 'number'}
+                value={choice.value}
+                onChange={(e) =>
+                  updateChoice(index, {
+                    value:
+                      option.type === OPTION_TYPES.STRING || e.target.value === ''
+                        ? e.target.value
+                        : Number(e.target.value),
+                  })
+                }
+                placeholder="Value"
+                maxLength={100}
+                className={`${builderInputClass} w-32`}
+              />
+              <button
+                type="button"
+                onClick={() => update({ choices: choices.filter((_, i) => i !== index) })}
+                className="text-xs text-[#f23f43] hover:underline"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          {choices.length < MAX_OPTION_CHOICES && !option.autocomplete && (
+            <button
+              type="button"
+              onClick={() => update({ choices: [...choices, { name: '', value: '' }] })}
+              className="text-xs text-[#00a8fc] hover:underline"
+            >
+              + Add choice
+            </button>
+          )}
+        </div>
+      )}
+
+      {!isValueOption(option) && (
+        <div className="pl-4 border-l-2 border-[#4e5058]">
+          <CommandOptionsEditor
+            options={option.options ?? []}
+            parentType={option.type}
+            onChange={(options) => update({ options })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Options of a command, or the subcommands and options nested in one
+const CommandOptionsEditor: React.FC<{
+  options: CommandOption[];
+  // The subcommand or group the options belong to; unset for the command itself
+  parentType?: number;
+  onChange: (options: CommandOption[]) => void;
+}> = ({ options, parentType, onChange }) => {
+  const allowedTypes =
+    parentType === OPTION_TYPES.SUB_COMMAND_GROUP
+      ? [OPTION_TYPES.SUB_COMMAND]
+      : parentType === OPTION_TYPES.SUB_COMMAND
+        ? VALUE_OPTION_TYPES
+        : [...VALUE_OPTION_TYPES, OPTION_TYPES.SUB_COMMAND, OPTION_TYPES.SUB_COMMAND_GROUP];
+
+  return (
+    <div className="space-y-2">
+      {options.map((option, index) => (
+        <CommandOptionEditor
+          key={index}
+          option={option}
+          allowedTypes={allowedTypes}
+          onChange={(changed) => onChange(options.map((o, i) => (i === index ? changed : o)))}
+          onRemove={() => onChange(options.filter((_, i) => i !== index))}
+        />
+      ))}
+      {options.length < MAX_COMMAND_OPTIONS && (
+        <button
+          type="button"
+          onClick={() =>
+            onChange([...options, { type: allowedTypes[0], name: '', description: '' }])
+          }
+          className="text-xs text-[#00a8fc] hover:underline"
+        >
+          + Add {parentType === OPTION_TYPES.SUB_COMMAND_GROUP ? 'subcommand' : 'option'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Creates or edits one command
+const CommandForm: React.FC<{
+  command: ApplicationCommand;
+  isSaving: boolean;
+  onSave: (command: ApplicationCommand) => void;
+  onCancel: () => void;
+}> = ({ command, isSaving, onSave, onCancel }) => {
+  const [draft, setDraft] = useState(command);
+  const update = (changes: Partial<ApplicationCommand>) => setDraft({ ...draft, ...changes });
+  const isSlash = (draft.type ?? COMMAND_TYPE_CHAT_INPUT) === COMMAND_TYPE_CHAT_INPUT;
+  const problem = commandProblem(draft);
+  const permissions = draft.default_member_permissions ?? null;
+  const access = permissions === null ? 'everyone' : permissions === '0' ? 'admins' : 'permissions';
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!problem) onSave(draft);
+      }}
+      className="space-y-4"
+    >
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={draft.type ?? COMMAND_TYPE_CHAT_INPUT}
+          // Discord does not change the type of an existing command
+          disabled={!!draft.id}
+          onChange={(e) => update({ type: Number(e.target.value) })}
+          className={builderInputClass}
+        >
+          {[1, 2, 3].map((type) => (
+            <option key={type} value={type}>
+              {COMMAND_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder={isSlash ? 'name' : 'Menu entry name'}
+          maxLength={32}
+          autoFocus
+          className={`${builderInputClass} w-40`}
+        />
+        {isSlash && (
+          <input
+            type="text"
+            value={draft.description ?? ''}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder="Description"
+            maxLength={100}
+            className={`${builderInputClass} flex-1 min-w-[160px]`}
+          />
+        )}
+      </div>
+
+      <div className={isSlash ? 'grid grid-cols-2 gap-3' : ''}>
+        <div>
+          <CommandsLabel>Name translations</CommandsLabel>
+          <LocalizationsEditor
+            value={draft.name_localizations}
+            maxLength={32}
+            onChange={(name_localizations) => update({ name_localizations })}
+          />
+        </div>
+        {isSlash && (
+          <div>
+            <CommandsLabel>Description translations</CommandsLabel>
+            <LocalizationsEditor
+              value={draft.description_localizations}
+              maxLength={100}
+              onChange={(description_localizations) => update({ description_localizations })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1 text-sm text-[#dbdee1]">
+          <CommandsLabel>Who can use it</CommandsLabel>
+          <select
+            value={access}
+            onChange={(e) =>
+              update({
+                default_member_permissions:
+                  e.target.value === 'everyone'
+                    ? null
+                    : e.target.value === 'admins'
+                      ? '0'
+                      : COMMAND_PERMISSIONS[1].value,
+              })
+            }
+            className={builderInputClass}
+          >
+            <option value="everyone">Everyone</option>
+            <option value="admins">Administrators only</option>
+            <option value="permissions">Members with permissions</option>
+          </select>
+          {access === 'permissions' &&
+            COMMAND_PERMISSIONS.map(({ value, label }) => (
+              <label key={value} className="flex items-center gap-2 text-xs text-[#b5bac1]">
+                <input
+                  type="checkbox"
+                  checked={hasPermissionBit(permissions, value)}
+                  onChange={() =>
+                    update({ default_member_permissions: togglePermissionBit(permissions, value) })
+                  }
+                />
+                {label}
+              </label>
+            ))}
+        </div>
+        <div className="space-y-1">
+          <CommandsLabel>Available in</CommandsLabel>
+          {COMMAND_CONTEXTS.map(({ value, label }) => (
+            <label key={value} className="flex items-center gap-2 text-xs text-[#b5bac1]">
+              <input
+                type="checkbox"
+                checked={!draft.contexts?.length || draft.contexts.includes(value)}
+                onChange={(e) => {
+                  const current = draft.contexts?.length
+                    ? draft.contexts
+                    : COMMAND_CONTEXTS.map((c) => c.value);
+                  const rest = current.filter((c) => c !== value);
+                  update({ contexts: e.target.checked ? [...rest, value] : rest });
+                }}
+              />
+              {label}
+            </label>
+          ))}
+          <label className="flex items-center gap-2 text-xs text-[#b5bac1] pt-1">
+            <input
+              type="checkbox"
+              checked={!!draft.nsfw}
+              onChange={(e) => update({ nsfw: e.target.checked })}
+            />
+            Age-restricted
+          </label>
+        </div>
+      </div>
+
+      {isSlash && (
+        <div>
+          <CommandsLabel>Options</CommandsLabel>
+          <CommandOptionsEditor
+            options={draft.options ?? []}
+            onChange={(options) => update({ options })}
+          />
+        </div>
+      )}
+
+      {problem && <p className="text-sm text-[#f0b232]">{problem}</p>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" disabled={!!problem || isSaving}>
+          {draft.id ? 'Save Command' : 'Create Command'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+const COMMAND_DIFF_LABELS: Record<CommandDiff['status'], { verb: string; className: string }> = {
+  added: { verb: 'add', className: 'text-[#23a559]' },
+  changed: { verb: 'change', className: 'text-[#f0b232]' },
+  removed: { verb: 'remove', className: 'text-[#f23f43]' },
+  unchanged: { verb: 'keep', className: 'text-[#949ba4]' },
+};
+
+function commandLabel(command: ApplicationCommand) {
+  return (command.type ?? COMMAND_TYPE_CHAT_INPUT) === COMMAND_TYPE_CHAT_INPUT
+    ? `/${command.name}`
+    : command.name;
+}
+
+// The application's global or server commands: listing, editing, deleting, and
+// overwriting them all from a JSON file after reviewing what would change
+const CommandsPanel: React.FC<{
+  guilds: Guild[];
+  canManage: boolean;
+  onClose: () => void;
+}> = ({ guilds, canManage, onClose }) => {
+  const botId = useContext(ActiveBotContext);
+  const [applicationId, setApplicationId] = useState<string | null>(null);
+  // Server the listed commands belong to; null for global commands
+  const [guildId, setGuildId] = useState<string | null>(null);
+  const [commands, setCommands] = useState<ApplicationCommand[] | null>(null);
+  const [editing, setEditing] = useState<ApplicationCommand | null>(null);
+  const [imported, setImported] = useState<{ name: string; commands: ApplicationCommand[] } | null>(
+    null
+  );
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadApplicationId(botId)
+      .then(setApplicationId)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load application'));
+  }, [botId]);
+
+  useEffect(() => {
+    if (!applicationId) return;
+    let cancelled = false;
+    setCommands(null);
+    setEditing(null);
+    setImported(null);
+    authedFetch<ApplicationCommand[]>(
+      botId,
+      `${commandsPath(applicationId, guildId)}?with_localizations=true`
+    )
+      .then((list) => {
+        if (cancelled) return;
+        setCommands(list);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load commands');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [botId, applicationId, guildId]);
+
+  const run = async (action: (path: string) => Promise<void>, failure: string) => {
+    if (!applicationId) return;
+    setIsSaving(true);
+    try {
+      await action(commandsPath(applicationId, guildId));
+      setError(null);
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(err instanceof Error ? err.message : failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = (command: ApplicationCommand) =>
+    run(async (path) => {
+      const saved = await authedFetch<ApplicationCommand>(
+        botId,
+        command.id ? `${path}/${command.id}` : path,
+        {
+          method: command.id ? 'PATCH' : 'POST',
+          body: JSON.stringify(command.id ? commandPatchBody(command) : normalizeCommand(command)),
+        }
+      );
+      // Creating a command with the name of an existing one replaces it
+      setCommands((prev) => [...(prev ?? []).filter((c) => c.id !== saved.id), saved]);
+      setEditing(null);
+    }, 'Failed to save command');
+
+  const handleDelete = (command: ApplicationCommand) =>
+    run(async (path) => {
+      await authedFetch(botId, `${path}/${command.id}`, { method: 'DELETE' });
+      setCommands((prev) => (prev ?? []).filter((c) => c.id !== command.id));
+    }, 'Failed to delete command');
+
+  const handleOverwrite = (list: ApplicationCommand[]) =>
+    run(async (path) => {
+      const saved = await authedFetch<ApplicationCommand[]>(botId, path, {
+        method: 'PUT',
+        body: JSON.stringify(list.map(normalizeCommand)),
+      });
+      setCommands(saved);
+      setImported(null);
+    }, 'Failed to overwrite commands');
+
+  const handleFile = async (file: File) => {
+    try {
+      setImported({ name: file.name, commands: parseCommandsJson(await file.text()) });
+      setEditing(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    }
+  };
+
+  const scopeName = guildId ? (guilds.find((g) => g.id === guildId)?.name ?? 'this server') : null;
+  const diff = imported && commands ? diffCommands(commands, imported.commands) : null;
+  const importProblem = imported?.commands
+    .map((command) => commandProblem(command))
+    .find((problem) => problem);
+  const sorted = (commands ?? []).slice().sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-3xl w-full max-h-[85vh] flex flex-col animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-[#1e1f22]">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-xl font-bold text-white">Commands</h2>
+            <button onClick={onClose} className="text-[#b5bac1] hover:text-white">
+              ✕
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <select
+              value={guildId ?? ''}
+              onChange={(e) => setGuildId(e.target.value || null)}
+              className={builderInputClass}
+            >
+              <option value="">Global commands</option>
+              {guilds.map((guild) => (
+                <option key={guild.id} value={guild.id}>
+                  {guild.name}
+                </option>
+              ))}
+            </select>
+            <div className="flex-1" />
+            {canManage && (
+              <button
+                type="button"
+                onClick={() => {
+                  setImported(null);
+                  setEditing({ type: COMMAND_TYPE_CHAT_INPUT, name: '', description: '' });
+                }}
+                disabled={!commands}
+                className="text-[#00a8fc] hover:underline"
+              >
+                New command
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!commands}
+              className="text-[#00a8fc] hover:underline"
+            >
+              Import JSON
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                downloadJson(`commands-${guildId ?? 'global'}.json`, sorted.map(normalizeCommand))
+              }
+              disabled={!commands}
+              className="text-[#00a8fc] hover:underline"
+            >
+              Export JSON
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleFile(file);
+              }}
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {error && <p className="text-sm text-[#f23f43] mb-3">{error}</p>}
+
+          {editing ? (
+            <CommandForm
+              command={editing}
+              isSaving={isSaving}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          ) : diff && imported ? (
+            <div className="space-y-3">
+              <p className="text-sm text-[#b5bac1]">
+                Overwriting the {scopeName ? `commands of ${scopeName}` : 'global commands'} with{' '}
+                <span className="font-semibold text-[#f2f3f5]">{imported.name}</span> would:
+              </p>
+              <div className="space-y-1">
+                {diff.map((entry) => (
+                  <div key={entry.key} className="flex items-baseline gap-3 text-sm">
+                    <span
+                      className={`w-20 flex-shrink-0 text-xs font-bold uppercase ${
+                        COMMAND_DIFF_LABELS[entry.status].className
+                      }`}
+                    >
+                      {COMMAND_DIFF_LABELS[entry.status].verb}
+                    </span>
+                    <span className="font-mono text-[#dbdee1]">{commandLabel(entry.command)}</span>
+                    {entry.fields.length > 0 && (
+                      <span className="text-xs text-[#949ba4] truncate">
+                        {entry.fields.join(', ')}
+                      </span>
+                    )}
+                  </div>
+                ))}
+                {diff.length === 0 && (
+                  <p className="text-sm text-[#949ba4]">Neither side has any commands.</p>
+                )}
+              </div>
+              {importProblem && <p className="text-sm text-[#f0b232]">{importProblem}</p>}
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="secondary" onClick={() => setImported(null)}>
+                  Cancel
+                </Button>
+                {canManage && (
+                  <Button
+                    type="button"
+                    variant="danger"
+                    onClick={() => handleOverwrite(imported.commands)}
+                    disabled={!!importProblem || isSaving}
+                  >
+                    Overwrite
+                  </Button>
+                )}
+              </div>
+            </div>
+          ) : !commands ? (
+            !error && <p className="text-sm text-[#949ba4] italic">Loading…</p>
+          ) : sorted.length === 0 ? (
+            <p className="text-sm text-[#949ba4]">
+              No {scopeName ? `commands registered in ${scopeName}` : 'global commands'} yet.
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {sorted.map((command) => (
+                <div
+                  key={command.id}
+                  className="flex items-center gap-3 px-2 py-2 rounded hover:bg-[#35363c] transition-colors"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm text-[#f2f3f5]">
+                      <span className="font-mono font-semibold">{commandLabel(command)}</span>
+                      <span className="ml-2 text-xs text-[#949ba4]">
+                        {COMMAND_TYPE_LABELS[command.type ?? COMMAND_TYPE_CHAT_INPUT]}
+                        {command.options?.length ? ` · ${command.options.length} option(s)` : ''}
+                        {command.default_member_permissions !== null &&
+                          command.default_member_permissions !== undefined &&
+                          ' · restricted'}
+                      </span>
+                    </div>
+                    {command.description && (
+                      <div className="text-xs text-[#b5bac1] truncate">{command.description}</div>
+                    )}
+                  </div>
+                  {canManage && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => setEditing(command)}
+                        className="text-xs text-[#b5bac1] hover:text-[#dbdee1]"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(command)}
+                        disabled={isSaving}
+                        className="text-xs text-[#f23f43] hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ============ EMOJI PICKER ============
+
+// A Unicode emoji from the bundled dataset
+type UnicodeEmoji = {
+  emoji: string;
+  label: string;
+  // Discord-style :names:, the first of which is inserted into the composer
+  names: string[];
+  tags: string[];
+  group: number;
+  // The emoji in skin tones 1 to 5
+  skins?: string[];
+};
+
+type EmojiData = {
+  emojis: UnicodeEmoji[];
+  byName: Map<string, UnicodeEmoji>;
+};
+
+// An emoji chosen in the picker, in the shape reactions take. Unicode emoji have
+// no id and are named by the emoji itself; text is what goes into the composer.
+type PickedEmoji = {
+  id: string | null;
+  name: string;
+  animated?: boolean;
+  text: string;
+  label: string;
+};
+
+type EmojiPickerTab = 'unicode' | 'guild' | 'application';
+
+// Dataset groups shown as categories; 2 (skin tone components) is left out
+const EMOJI_CATEGORIES = [
+  { group: 0, label: 'Smileys & Emotion', icon: '😀' },
+  { group: 1, label: 'People & Body', icon: '👋' },
+  { group: 3, label: 'Animals & Nature', icon: '🐱' },
+  { group: 4, label: 'Food & Drink', icon: '🍕' },
+  { group: 5, label: 'Travel & Places', icon: '🚗' },
+  { group: 6, label: 'Activities', icon: '⚽' },
+  { group: 7, label: 'Objects', icon: '💡' },
+  { group: 8, label: 'Symbols', icon: '❤️' },
+  { group: 9, label: 'Flags', icon: '🏁' },
+];
+
+const SKIN_TONES = ['✋', '✋🏻', '✋🏼', '✋🏽', '✋🏾', '✋🏿'];
+const SKIN_TONE_MODIFIERS = ['1F3FB', '1F3FC', '1F3FD', '1F3FE', '1F3FF'];
+const SKIN_TONE_STORAGE_KEY = 'botclienty-emoji-skin-tone';
+const RECENT_EMOJI_LIMIT = 32;
+// :name:, optionally followed by a skin tone, skipping custom emoji tokens
+const EMOJI_SHORTCODE_PATTERN = /<a?:\w+:\d+>|:([\w+-]+):(?::skin-tone-([1-5]):)?/g;
+
+let emojiDataRequest: Promise<EmojiData> | null = null;
+
+// The dataset is large, so it is only fetched once something needs it
+function loadEmojiData() {
+  if (!emojiDataRequest) {
+    emojiDataRequest = Promise.all([
+      import('emojibase-data/en/compact.json'),
+      import('emojibase-data/en/shortcodes/iamcal.json'),
+    ]).then(([{ default: compact }, { default: shortcodes }]) => {
+      const namesOf = (hexcode: string) => {
+        const names = shortcodes[hexcode];
+        return names ? ([] as string[]).concat(names) : [];
+      };
+      const emojis: UnicodeEmoji[] = compact
+        .filter((entry) => entry.group !== undefined && entry.group !== 2)
+        .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+        .map((entry) => {
+          // Multi-person emoji come in mixed tones too; only the uniform ones are offered
+          const skins = entry.skins && [
+            ...SKIN_TONE_MODIFIERS.map(
+              (modifier) =>
+                entry.skins?.find((skin) =>
+                  skin.hexcode
+                    .split('-')
+                    .filter((code) => SKIN_TONE_MODIFIERS.includes(code))
+                    .every((code) => code === modifier)
+                )?.unicode ?? entry.unicode
+            ),
+          ];
+          return {
+            emoji: entry.unicode,
+            label: entry.label,
+            names: namesOf(entry.hexcode),
+            tags: entry.tags ?? [],
+            group: entry.group ?? 0,
+            skins,
+          };
+        });
+      const byName = new Map<string, UnicodeEmoji>();
+      emojis.forEach((emoji) => emoji.names.forEach((name) => byName.set(name, emoji)));
+      return { emojis, byName };
+    });
+    emojiDataRequest.catch(() => {
+      emojiDataRequest = null;
+    });
+  }
+  return emojiDataRequest;
+}
+
+// Rewrites message text outside of code spans and blocks, which are sent as typed
+function replaceOutsideCode(content: string, replace: (text: string) => string) {
+  return content
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((part, i) => (i % 2 ? part : replace(part)))
+    .join('');
+}
+
+// Discord's own client turns :name: into the emoji before sending, the API does
+// not
+async function expandEmojiShortcodes(content: string) {
+  if (!content.includes(':')) return content;
+  let data: EmojiData;
+  try {
+    data = await loadEmojiData();
+  } catch {
+    return content;
+  }
+  return replaceOutsideCode(content, (text) =>
+    text.replace(EMOJI_SHORTCODE_PATTERN, (match, name?: string, tone?: string) => {
+      const emoji = name ? data.byName.get(name) : undefined;
+      if (!emoji) return match;
+      return (tone && emoji.skins?.[Number(tone) - 1]) || emoji.emoji;
+    })
+  );
+}
+
+function customEmojiText(emoji: GuildEmoji) {
+  return `<${emoji.animated ? 'a' : ''}:${emoji.name}:${emoji.id}>`;
+}
+
+function pickUnicodeEmoji(emoji: UnicodeEmoji, tone: number): PickedEmoji {
+  const unicode = (tone > 0 && emoji.skins?.[tone - 1]) || emoji.emoji;
+  const name = emoji.names[0];
+  return {
+    id: null,
+    name: unicode,
+    text: name ? `:${name}:${unicode !== emoji.emoji ? `:skin-tone-${tone}:` : ''}` : unicode,
+    label: name ? `:${name}:` : emoji.label,
+  };
+}
+
+function pickCustomEmoji(emoji: GuildEmoji): PickedEmoji {
+  return {
+    id: emoji.id,
+    name: emoji.name,
+    animated: emoji.animated,
+    text: customEmojiText(emoji),
+    label: `:${emoji.name}:`,
+  };
+}
+
+// Recently used emoji are kept per bot, since custom ones only work for bots
+// that can see them
+function recentEmojiKey(botId: string | null) {
+  return `botclienty-recent-emojis:${botId ?? ''}`;
+}
+
+function readRecentEmojis(botId: string | null): PickedEmoji[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(recentEmojiKey(botId)) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function rememberEmoji(botId: string | null, emoji: PickedEmoji) {
+  const recent = [
+    emoji,
+    ...readRecentEmojis(botId).filter((other) => reactionKey(other) !== reactionKey(emoji)),
+  ].slice(0, RECENT_EMOJI_LIMIT);
+  localStorage.setItem(recentEmojiKey(botId), JSON.stringify(recent));
+}
+
+const applicationEmojiRequests = new Map<string, Promise<GuildEmoji[]>>();
+
+// Emoji uploaded to the bot's application, usable in every server
+function loadApplicationEmojis(botId: string | null) {
+  if (!botId) return Promise.resolve([]);
+  let request = applicationEmojiRequests.get(botId);
+  if (!request) {
+    request = loadApplicationId(botId)
+      .then((applicationId) =>
+        authedFetch<{ items: GuildEmoji[] }>(botId, `/applications/${applicationId}/emojis`)
+      )
+      .then((list) => list.items);
+    request.catch(() => applicationEmojiRequests.delete(botId));
+    applicationEmojiRequests.set(botId, request);
+  }
+  return request;
+}
+
+function matchesEmojiSearch(emoji: UnicodeEmoji, terms: string[]) {
+  return terms.every(
+    (term) =>
+      emoji.names.some((name) => name.includes(term)) ||
+      emoji.tags.some((tag) => tag.startsWith(term)) ||
+      emoji.label.toLowerCase().includes(term)
+  );
+}
+
+const EmojiButton: React.FC<{ emoji: PickedEmoji; onClick: () => void }> = ({ emoji, onClick }) => (
+  <button
+    type="button"
+    onClick={onClick}
+    className="w-9 h-9 text-2xl hover:bg-[#35363c] rounded transition-colors flex items-center justify-center"
+    title={emoji.label}
+  >
+    {emoji.id ? (
+      <img
+        src={`${DISCORD_CDN}/emojis/${emoji.id}.${emoji.animated ? 'gif' : 'webp'}?size=48`}
+        alt={emoji.label}
+        className="w-7 h-7 object-contain"
+      />
+    ) : (
+      emoji.name
+    )}
+  </button>
+);
+
+const EmojiGrid: React.FC<{
+  title?: string;
+  emojis: PickedEmoji[];
+  onPick: (emoji: PickedEmoji) => void;
+}> = ({ title, emojis, onPick }) =>
+  emojis.length === 0 ? null : (
+    <div className="mb-2">
+      {title && (
+        <h4 className="sticky top-0 bg-[#2b2d31] px-1 py-1 text-xs font-semibold uppercase text-[#949ba4]">
+          {title}
+        </h4>
+      )}
+      <div className="grid grid-cols-9 gap-0.5">
+        {emojis.map((emoji) => (
+          <EmojiButton key={reactionKey(emoji)} emoji={emoji} onClick={() => onPick(emoji)} />
+        ))}
+      </div>
+    </div>
+  );
+
+// Unicode emoji by category, the server's and the application's custom emoji, and
+// the bot's recently used ones. Searching covers all of them.
+const EmojiPicker: React.FC<{
+  guildEmojis?: GuildEmoji[];
+  // Positions the picker; it is otherwise unplaced
+  className?: string;
+  onSelect: (emoji: PickedEmoji) => void;
+  onClose: () => void;
+}> = ({ guildEmojis = [], className = '', onSelect, onClose }) => {
+  const botId = useContext(ActiveBotContext);
+  const [data, setData] = useState<EmojiData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [appEmojis, setAppEmojis] = useState<GuildEmoji[] | null>(null);
+  const [tab, setTab] = useState<EmojiPickerTab>('unicode');
+  const [search, setSearch] = useState('');
+  const [tone, setTone] = useState(() => Number(localStorage.getItem(SKIN_TONE_STORAGE_KEY)) || 0);
+  const [showTones, setShowTones] = useState(false);
+  const [recent] = useState(() => readRecentEmojis(botId));
+  const categoryRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEmojiData()
+      .then((loaded) => !cancelled && setData(loaded))
+      .catch(() => !cancelled && setError('Failed to load emoji'));
+    loadApplicationEmojis(botId)
+      .then((emojis) => !cancelled && setAppEmojis(emojis))
+      .catch(() => !cancelled && setAppEmojis([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [botId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const handlePick = (emoji: PickedEmoji) => {
+    rememberEmoji(botId, emoji);
+    onSelect(emoji);
+  };
+
+  const handleTone = (next: number) => {
+    setTone(next);
+    setShowTones(false);
+    localStorage.setItem(SKIN_TONE_STORAGE_KEY, String(next));
+  };
+
+  const usableGuildEmojis = guildEmojis.filter((emoji) => emoji.available !== false);
+  const usableAppEmojis = (appEmojis ?? []).filter((emoji) => emoji.available !== false);
+  const terms = search.toLowerCase().replace(/:/g, ' ').split(/\s+/).filter(Boolean);
+
+  const searchResults =
+    terms.length > 0
+      ? [
+          ...[...usableGuildEmojis, ...usableAppEmojis]
+            .filter((emoji) => terms.every((term) => emoji.name.toLowerCase().includes(term)))
+            .map(pickCustomEmoji),
+          ...(data?.emojis ?? [])
+            .filter((emoji) => matchesEmojiSearch(emoji, terms))
+            .slice(0, 200)
+            .map((emoji) => pickUnicodeEmoji(emoji, tone)),
+        ]
+      : null;
+
+  const renderBody = () => {
+    if (searchResults) {
+      if (searchResults.length === 0) {
+        return <p className="p-4 text-sm text-center text-[#949ba4]">No emoji match.</p>;
+      }
+      return <EmojiGrid emojis={searchResults} onPick={handlePick} />;
+    }
+
+    if (tab === 'guild' || tab === 'application') {
+      const emojis = tab === 'guild' ? usableGuildEmojis : usableAppEmojis;
+      if (tab === 'application' && !appEmojis) {
+        return <p className="p-2 text-sm text-[#949ba4] italic">Loading…</p>;
+      }
+      if (emojis.length === 0) {
+        return (
+          <p className="p-4 text-sm text-center text-[#949ba4]">
+            {tab === 'guild' ? 'This server has no custom emoji.' : 'The bot has no emoji.'}
+          </p>
+        );
+      }
+      return <EmojiGrid emojis={emojis.map(pickCustomEmoji)} onPick={handlePick} />;
+    }
+
+    if (error) return <p className="p-2 text-sm text-[#f23f43]">{error}</p>;
+    if (!data) return <p className="p-2 text-sm text-[#949ba4] italic">Loading…</p>;
+    return (
+      <>
+        <EmojiGrid title="Recently Used" emojis={recent} onPick={handlePick} />
+        {EMOJI_CATEGORIES.map((category) => (
+          <div
+            key={category.group}
+            ref={(el) => {
+              categoryRefs.current[category.group] = el;
+            }}
+          >
+            <EmojiGrid
+              title={category.label}
+              emojis={data.emojis
+                .filter((emoji) => emoji.group === category.group)
+                .map((emoji) => pickUnicodeEmoji(emoji, tone))}
+              onPick={handlePick}
+            />
+          </div>
+        ))}
+      </>
+    );
+  };
+
+  const tabs: { id: EmojiPickerTab; label: string }[] = [
+    { id: 'unicode', label: 'Emoji' },
+    { id: 'guild', label: 'Server' },
+    { id: 'application', label: 'Bot' },
+  ];
+
+  return (
+    <div
+      className={`w-[420px] max-w-[90vw] bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-xl z-50 animate-scale-in flex flex-col ${className}`}
+    >
+      <div className="p-2 flex items-center gap-2 border-b border-[#1e1f22]">
+        <input
+          autoFocus
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter picks the first result instead of submitting the composer
+            if (e.key !== 'Enter') return;
+            e.preventDefault();
+            if (searchResults?.[0]) handlePick(searchResults[0]);
+          }}
+          placeholder="Find the perfect emoji"
+          className="flex-1 min-w-0 px-2 py-1.5 rounded bg-[#1e1f22] text-sm text-[#dbdee1] placeholder-[#87898c] focus:outline-none"
+        />
+        <div className="relative">
+          <button
+            type="button"
+            onClick={() => setShowTones(!showTones)}
+            className="w-8 h-8 text-xl rounded hover:bg-[#35363c]"
+            title="Skin tone"
+          >
+            {SKIN_TONES[tone]}
+          </button>
+          {showTones && (
+            <div className="absolute right-0 top-9 z-10 bg-[#111214] rounded shadow-xl p-1 flex flex-col">
+              {SKIN_TONES.map((sample, index) => (
+                <button
+                  key={sample}
+                  type="button"
+                  onClick={() => handleTone(index)}
+                  className={`w-8 h-8 text-xl rounded hover:bg-[#35363c] ${index === tone ? 'bg-[#404249]' : ''}`}
+                >
+                  {sample}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <button type="button" onClick={onClose} className="text-[#949ba4] hover:text-[#dbdee1]">
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1 px-2 pt-2">
+        {tabs.map(({ id, label }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => {
+              setTab(id);
+              setSearch('');
+            }}
+            className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+              tab === id && !searchResults
+                ? 'bg-[#404249] text-white'
+                : 'text-[#b5bac1] hover:bg-[#35363c]'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+        {tab === 'unicode' && !searchResults && data && (
+          <div className="ml-auto flex">
+            {EMOJI_CATEGORIES.map((category) => (
+              <button
+                key={category.group}
+                type="button"
+                onClick={() => categoryRefs.current[category.group]?.scrollIntoView()}
+                className="w-6 h-6 text-sm rounded opacity-70 hover:opacity-100 hover:bg-[#35363c]"
+                title={category.label}
+              >
+                {category.icon}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="h-72 overflow-y-auto p-2">{renderBody()}</div>
+    </div>
+  );
+};
+
+// ============ COMPOSER AUTOCOMPLETE ============
+
+type AutocompleteTrigger = '@' | '#' | ':' | '/';
+
+// What is being typed at the composer's cursor: the trigger, the text after it,
+// and where the trigger is
+type AutocompleteQuery = {
+  trigger: AutocompleteTrigger;
+  query: string;
+  start: number;
+};
+
+type AutocompleteOption = {
+  key: string;
+  // What the composer shows once the option is picked
+  text: string;
+  // What is sent in place of the text, when that differs
+  token?: string;
+  // Added to the text when another option would show the same
+  distinct?: string;
+  label: string;
+  detail?: string;
+  icon?: React.ReactNode;
+};
+
+// A friendly name in the composer and the mention token it is sent as
+type ComposerToken = {
+  text: string;
+  token: string;
+};
+
+type ComposerAutocompleteHandle = {
+  // Moves through and picks options; true when the key was used
+  handleKeyDown: (e: React.KeyboardEvent) => boolean;
+};
+
+const AUTOCOMPLETE_LIMIT = 10;
+const MEMBER_SEARCH_DELAY_MS = 300;
+const AUTOCOMPLETE_TITLES: Record<AutocompleteTrigger, string> = {
+  '@': 'Members and roles',
+  '#': 'Channels',
+  ':': 'Emoji',
+  '/': 'Commands',
+};
+// Guild channels that can be mentioned; categories cannot
+const MENTIONABLE_CHANNEL_TYPES = [0, 2, 5, 10, 11, 12, 13, 15, 16];
+
+function findAutocompleteQuery(value: string, caret: number): AutocompleteQuery | null {
+  const match = /(^|\s)([@#:/])([^\s@#:/]*)$/.exec(value.slice(0, caret));
+  if (!match) return null;
+  const trigger = match[2] as AutocompleteTrigger;
+  // As in Discord, emoji wait for two characters so colons in prose stay quiet
+  if (trigger === ':' && match[3].length < 2) return null;
+  return { trigger, query: match[3], start: caret - match[3].length - 1 };
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Options that would show the same text get their distinct part added, so each
+// name in the composer stands for one mention
+function distinctOptionTexts(options: AutocompleteOption[]): AutocompleteOption[] {
+  const counts = new Map<string, number>();
+  options.forEach(({ text }) => counts.set(text, (counts.get(text) ?? 0) + 1));
+  return options.map((option) =>
+    option.distinct && (counts.get(option.text) ?? 0) > 1
+      ? { ...option, text: `${option.text} (${option.distinct})` }
+      : option
+  );
+}
+
+// Swaps the friendly names picked in the composer for their tokens
+function applyComposerTokens(content: string, tokens: ComposerToken[]) {
+  if (tokens.length === 0) return content;
+  const byText: Record<string, string> = {};
+  tokens.forEach(({ text, token }) => {
+    byText[text] = token;
+  });
+  // Longest first, so @Sam does not cut into @Samantha
+  const names = Object.keys(byText)
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  const pattern = new RegExp(`(?:${names.join('|')})(?!\\w)`, 'g');
+  return replaceOutsideCode(content, (text) => text.replace(pattern, (name) => byText[name]));
+}
+
+function memberName(member: Member) {
+  return member.nick || member.user.global_name || member.user.username;
+}
+
+// Slash commands as they are typed, subcommands included, with the tokens that
+// mention them
+function commandMentions(command: ApplicationCommand): { name: string; token: string }[] {
+  if (!command.id || (command.type ?? COMMAND_TYPE_CHAT_INPUT) !== COMMAND_TYPE_CHAT_INPUT) {
+    return [];
+  }
+  const paths = (command.options ?? []).flatMap((option) => {
+    if (option.type === OPTION_TYPES.SUB_COMMAND) return [`${command.name} ${option.name}`];
+    if (option.type !== OPTION_TYPES.SUB_COMMAND_GROUP) return [];
+    return (option.options ?? []).map((sub) => `${command.name} ${option.name} ${sub.name}`);
+  });
+  return (paths.length > 0 ? paths : [command.name]).map((name) => ({
+    name,
+    token: `</${name}:${command.id}>`,
+  }));
+}
+
+// Suggestions for what is being typed in the composer, drawn from the server's
+// members, roles and channels, emoji, and the bot's commands. Members beyond the
+// loaded ones are searched for on Discord.
+const ComposerAutocomplete = React.forwardRef<
+  ComposerAutocompleteHandle,
+  {
+    query: AutocompleteQuery;
+    // Null in direct messages, which offer only emoji and global commands
+    guildId: string | null;
+    members: Member[];
+    roles: Role[];
+    channels: Channel[];
+    guildEmojis: GuildEmoji[];
+    onPick: (option: AutocompleteOption) => void;
+    onDismiss: () => void;
+  }
+>(function ComposerAutocomplete(
+  { query, guildId, members, roles, channels, guildEmojis, onPick, onDismiss },
+  ref
+) {
+  const botId = useContext(ActiveBotContext);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [emojiData, setEmojiData] = useState<EmojiData | null>(null);
+  const [appEmojis, setAppEmojis] = useState<GuildEmoji[]>([]);
+  const [commands, setCommands] = useState<ApplicationCommand[]>([]);
+  const [searchedMembers, setSearchedMembers] = useState<Member[]>([]);
+  const { trigger } = query;
+  const search = query.query.toLowerCase();
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [trigger, search]);
+
+  useEffect(() => {
+    if (trigger !== ':') return;
+    let cancelled = false;
+    loadEmojiData()
+      .then((data) => !cancelled && setEmojiData(data))
+      .catch((error) => console.error('Failed to load emoji:', error));
+    loadApplicationEmojis(botId)
+      .then((list) => !cancelled && setAppEmojis(list))
+      .catch((error) => console.error('Failed to load application emojis:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [botId, trigger]);
+
+  useEffect(() => {
+    if (trigger !== '/') return;
+    let cancelled = false;
+    loadApplicationId(botId)
+      .then((applicationId) =>
+        Promise.all([
+          authedFetch<ApplicationCommand[]>(botId, commandsPath(applicationId, null)),
+          guildId
+            ? authedFetch<ApplicationCommand[]>(botId, commandsPath(applicationId, guildId))
+            : Promise.resolve([]),
+        ])
+      )
+      .then(([global, guild]) => !cancelled && setCommands([...guild, ...global]))
+      .catch((error) => console.error('Failed to load commands:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [botId, trigger, guildId]);
+
+  const matchingMembers = members.filter((member) =>
+    [member.nick, member.user.global_name, member.user.username].some((name) =>
+      name?.toLowerCase().startsWith(search)
+    )
+  );
+
+  // The loaded members are only the first hundred
+  const shouldSearchMembers =
+    trigger === '@' &&
+    !!guildId &&
+    search.length > 0 &&
+    matchingMembers.length < AUTOCOMPLETE_LIMIT;
+  useEffect(() => {
+    setSearchedMembers([]);
+    if (!shouldSearchMembers) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ query: search, limit: String(AUTOCOMPLETE_LIMIT) });
+      authedFetch<Member[]>(botId, `/guilds/${guildId}/members/search?${params}`)
+        .then((found) => !cancelled && setSearchedMembers(found))
+        .catch((error) => console.error('Failed to search members:', error));
+    }, MEMBER_SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [botId, shouldSearchMembers, guildId, search]);
+
+  const buildOptions = (): AutocompleteOption[] => {
+    if (trigger === '@') {
+      const seen = new Set(matchingMembers.map((member) => member.user.id));
+      const memberOptions = [
+        ...matchingMembers,
+        ...searchedMembers.filter((member) => !seen.has(member.user.id)),
+      ].map((member) => ({
+        key: `user:${member.user.id}`,
+        text: `@${memberName(member)}`,
+        token: `<@${member.user.id}>`,
+        distinct: member.user.username,
+        label: memberName(member),
+        detail: member.user.username,
+        icon: <img src={userAvatarUrl(member.user)} alt="" className="w-6 h-6 rounded-full" />,
+      }));
+      const roleOptions = roles
+        .filter((role) => role.id !== guildId && role.name.toLowerCase().includes(search))
+        .map((role) => ({
+          key: `role:${role.id}`,
+          text: `@${role.name}`,
+          token: `<@&${role.id}>`,
+          distinct: `role ${role.id}`,
+          label: `@${role.name}`,
+          detail: role.mentionable ? 'Role' : 'Role · not mentionable',
+          icon: (
+            <span
+              className="w-3 h-3 mx-1.5 rounded-full"
+              style={{ backgroundColor: role.color ? colorToHex(role.color) : '#99aab5' }}
+            />
+          ),
+        }));
+      const everyoneOptions = guildId
+        ? ['everyone', 'here']
+            .filter((name) => name.startsWith(search))
+            .map((name) => ({
+              key: name,
+              text: `@${name}`,
+              label: `@${name}`,
+              detail:
+                name === 'everyone'
+                  ? 'Notify everyone who can see this channel'
+                  : 'Notify everyone online',
+            }))
+        : [];
+      return [...memberOptions, ...roleOptions, ...everyoneOptions];
+    }
+
+    if (trigger === '#') {
+      return channels
+        .filter(
+          (channel) =>
+            MENTIONABLE_CHANNEL_TYPES.includes(channel.type) &&
+            channel.name.toLowerCase().includes(search)
+        )
+        .map((channel) => ({
+          key: channel.id,
+          text: `#${channel.name}`,
+          token: `<#${channel.id}>`,
+          distinct: channel.id,
+          label: channel.name,
+          detail: channels.find((parent) => parent.id === channel.parent_id)?.name,
+          icon: <span className="w-6 text-center text-lg text-[#80848e]">#</span>,
+        }));
+    }
+
+    if (trigger === ':') {
+      const custom = [...guildEmojis, ...appEmojis]
+        .filter((emoji) => emoji.available !== false && emoji.name.toLowerCase().includes(search))
+        .map((emoji) => ({
+          key: emoji.id,
+          text: `:${emoji.name}:`,
+          token: customEmojiText(emoji),
+          distinct: emoji.id,
+          label: `:${emoji.name}:`,
+          icon: <ReactionEmojiIcon emoji={emoji} />,
+        }));
+      const unicode = (emojiData?.emojis ?? [])
+        .filter((emoji) => emoji.names.some((name) => name.startsWith(search)))
+        .map((emoji) => {
+          const name = emoji.names.find((n) => n.startsWith(search)) ?? emoji.names[0];
+          return {
+            key: emoji.emoji,
+            // Sent as typed; the shortcode is expanded on sending
+            text: `:${name}:`,
+            label: `:${name}:`,
+            icon: <span className="w-6 text-center text-lg">{emoji.emoji}</span>,
+          };
+        });
+      return [...custom, ...unicode];
+    }
+
+    return commands
+      .flatMap(commandMentions)
+      .filter(({ name }) => name.toLowerCase().startsWith(search))
+      .map(({ name, token }) => ({
+        key: token,
+        text: `/${name}`,
+        token,
+        label: `/${name}`,
+      }));
+  };
+  const options = distinctOptionTexts(buildOptions()).slice(0, AUTOCOMPLETE_LIMIT);
+  const active = Math.min(activeIndex, Math.max(0, options.length - 1));
+
+  useImperativeHandle(ref, () => ({
+    handleKeyDown: (e) => {
+      if (e.key === 'Escape') {
+        onDismiss();
+        return true;
+      }
+      if (options.length === 0) return false;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((active + step + options.length) % options.length);
+        return true;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        onPick(options[active]);
+        return true;
+      }
+      return false;
+    },
+  }));
+
+  if (options.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-xl z-30 py-2">
+      <h4 className="px-3 pb-1 text-xs font-semibold uppercase text-[#b5bac1]">
+        {AUTOCOMPLETE_TITLES[trigger]}
+        {query.query && (
+          <>
+            {' '}
+            matching <span className="normal-case text-[#dbdee1]">{query.query}</span>
+          </>
+        )}
+      </h4>
+      {options.map((option, index) => (
+        <button
+          key={option.key}
+          type="button"
+          // Keeps the composer focused
+          onMouseDown={(e) => e.preventDefault()}
+          onMouseEnter={() => setActiveIndex(index)}
+          onClick={() => onPick(option)}
+          className={`w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm ${
+            index === active ? 'bg-[#404249] text-white' : 'text-[#dbdee1]'
+          }`}
+        >
+          {option.icon}
+          <span className="truncate">{option.label}</span>
+          {option.detail && (
+            <span className="ml-auto pl-2 text-xs text-[#949ba4] truncate">{option.detail}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+});
+
+// ============ COMPOSER FORMATTING ============
+
+// Bots get Discord's standard limit; the 4000 characters of Nitro never apply to them
+const MESSAGE_CONTENT_LIMIT = 2000;
+// The counter shows once this close to the limit, as in Discord
+const CONTENT_COUNTER_THRESHOLD = 200;
+const COMPOSER_MAX_HEIGHT_PX = 300;
+const CODE_LANGUAGES = ['', 'js', 'ts', 'py', 'json', 'bash', 'diff', 'css', 'html', 'sql', 'yaml'];
+
+// The composer's text and selection after a formatting change
+type ComposerEdit = {
+  value: string;
+  start: number;
+  end: number;
+};
+
+// Puts markers around the selection, or takes them away when it already has them.
+// Without a selection the placeholder is inserted, selected for typing over.
+function wrapSelection(
+  value: string,
+  start: number,
+  end: number,
+  before: string,
+  after = before,
+  placeholder = 'text'
+): ComposerEdit {
+  const selected = value.slice(start, end);
+  if (
+    value.slice(start - before.length, start) === before &&
+    value.slice(end, end + after.length) === after
+  ) {
+    return {
+      value: value.slice(0, start - before.length) + selected + value.slice(end + after.length),
+      start: start - before.length,
+      end: end - before.length,
+    };
+  }
+  const inner = selected || placeholder;
+  return {
+    value: value.slice(0, start) + before + inner + after + value.slice(end),
+    start: start + before.length,
+    end: start + before.length + inner.length,
+  };
+}
+
+// Starts every selected line with a prefix (numbered when given a function), or
+// takes the prefixes away when all the lines have them
+function prefixLines(
+  value: string,
+  start: number,
+  end: number,
+  prefix: string | ((index: number) => string)
+): ComposerEdit {
+  const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = value.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? value.length : nextBreak;
+  const lines = value.slice(lineStart, lineEnd).split('\n');
+  const prefixAt = (index: number) => (typeof prefix === 'string' ? prefix : prefix(index));
+  const prefixed = lines.every((line, index) => line.startsWith(prefixAt(index)));
+  const block = lines
+    .map((line, index) => (prefixed ? line.slice(prefixAt(index).length) : prefixAt(index) + line))
+    .join('\n');
+  return {
+    value: value.slice(0, lineStart) + block + value.slice(lineEnd),
+    start: lineStart,
+    end: lineStart + block.length,
+  };
+}
+
+function wrapCodeBlock(value: string, start: number, end: number, language: string) {
+  const before = `${start > 0 && value[start - 1] !== '\n' ? '\n' : ''}\`\`\`${language}\n`;
+  return wrapSelection(value, start, end, before, '\n```', 'code');
+}
+
+type FormattingAction = {
+  label: string;
+  title: string;
+  // Ctrl/Cmd key that applies it, if any
+  shortcut?: string;
+  apply: (value: string, start: number, end: number) => ComposerEdit;
+};
+
+const FORMATTING_ACTIONS: FormattingAction[] = [
+  { label: 'B', title: 'Bold', shortcut: 'b', apply: (v, s, e) => wrapSelection(v, s, e, '**') },
+  { label: 'I', title: 'Italic', shortcut: 'i', apply: (v, s, e) => wrapSelection(v, s, e, '*') },
+  {
+    label: 'U',
+    title: 'Underline',
+    shortcut: 'u',
+    apply: (v, s, e) => wrapSelection(v, s, e, '__'),
+  },
+  { label: 'S', title: 'Strikethrough', apply: (v, s, e) => wrapSelection(v, s, e, '~~') },
+  { label: '▮', title: 'Spoiler', apply: (v, s, e) => wrapSelection(v, s, e, '||') },
+  {
+    label: '<>',
+    title: 'Inline code',
+    apply: (v, s, e) => wrapSelection(v, s, e, '`', '`', 'code'),
+  },
+  { label: '❝', title: 'Quote', apply: (v, s, e) => prefixLines(v, s, e, '> ') },
+  { label: '•', title: 'Bulleted list', apply: (v, s, e) => prefixLines(v, s, e, '- ') },
+  {
+    label: '1.',
+    title: 'Numbered list',
+    apply: (v, s, e) => prefixLines(v, s, e, (index) => `${index + 1}. `),
+  },
+  { label: 'H1', title: 'Big header', apply: (v, s, e) => prefixLines(v, s, e, '# ') },
+  { label: 'H2', title: 'Medium header', apply: (v, s, e) => prefixLines(v, s, e, '## ') },
+  { label: 'H3', title: 'Small header', apply: (v, s, e) => prefixLines(v, s, e, '### ') },
+  { label: '-#', title: 'Subtext', apply: (v, s, e) => prefixLines(v, s, e, '-# ') },
+];
+
+// The edit for a Ctrl/Cmd formatting shortcut pressed in the composer, if it is one
+function formattingShortcut(e: React.KeyboardEvent<HTMLTextAreaElement>): ComposerEdit | null {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey) return null;
+  const action = FORMATTING_ACTIONS.find((a) => a.shortcut === e.key.toLowerCase());
+  if (!action) return null;
+  const { value, selectionStart, selectionEnd } = e.currentTarget;
+  return action.apply(value, selectionStart, selectionEnd);
+}
+
+// Markdown buttons over the composer, the code block language list, and the
+// preview switch
+const FormattingToolbar: React.FC<{
+  inputRef: React.RefObject<HTMLTextAreaElement>;
+  value: string;
+  showPreview: boolean;
+  onEdit: (edit: ComposerEdit) => void;
+  onTogglePreview: () => void;
+}> = ({ inputRef, value, showPreview, onEdit, onTogglePreview }) => {
+  const [showLanguages, setShowLanguages] = useState(false);
+
+  const apply = (format: (value: string, start: number, end: number) => ComposerEdit) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? value.length;
+    const end = input?.selectionEnd ?? start;
+    onEdit(format(value, start, end));
+  };
+
+  const buttonClass =
+    'min-w-[28px] h-7 px-1.5 rounded text-xs font-semibold text-[#b5bac1] hover:bg-[#4e5058] hover:text-[#dbdee1] transition-colors';
+
+  return (
+    <div className="flex flex-wrap items-center gap-0.5 pb-2 mb-2 border-b border-[#4e5058]">
+      {FORMATTING_ACTIONS.map((action) => (
+        <button
+          key={action.title}
+          type="button"
+          // Keeps the selection in the composer
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => apply(action.apply)}
+          className={buttonClass}
+          title={
+            action.shortcut
+              ? `${action.title} (Ctrl+${action.shortcut.toUpperCase()})`
+              : action.title
+          }
+        >
+          {action.label}
+        </button>
+      ))}
+      <div className="relative">
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => setShowLanguages(!showLanguages)}
+          className={buttonClass}
+          title="Code block"
+        >
+          {'{ }'}
+        </button>
+        {showLanguages && (
+          <div className="absolute bottom-full left-0 mb-1 z-30 w-32 max-h-60 overflow-y-auto bg-[#111214] rounded shadow-xl py-1">
+            {CODE_LANGUAGES.map((language) => (
+              <button
+                key={language}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  apply((v, s, e) => wrapCodeBlock(v, s, e, language));
+                  setShowLanguages(false);
+                }}
+                className="w-full px-3 py-1 text-left text-sm font-mono text-[#dbdee1] hover:bg-[#5865f2] hover:text-white"
+              >
+                {language || 'plain text'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <button
+        type="button"
+        onClick={onTogglePreview}
+        className={`ml-auto px-2 h-7 rounded text-xs font-semibold transition-colors ${
+          showPreview ? 'bg-[#5865f2] text-white' : 'text-[#b5bac1] hover:bg-[#4e5058]'
+        }`}
+      >
+        Preview
+      </button>
+    </div>
+  );
+};
+
+// ============ SEND OPTIONS ============
+
+const MESSAGE_FLAG_SUPPRESS_EMBEDS = 1 << 2;
+const MESSAGE_FLAG_SUPPRESS_NOTIFICATIONS = 1 << 12;
+
+// How the composer sends: what its messages may ping and which flags they carry.
+// Each channel keeps the options last used in it.
+type SendOptions = {
+  mentionUsers: boolean;
+  mentionRoles: boolean;
+  mentionEveryone: boolean;
+  // Whether replies ping the replied-to author
+  mentionRepliedUser: boolean;
+  silent: boolean;
+  suppressEmbeds: boolean;
+  tts: boolean;
+  // Sends a nonce Discord uses to drop a retried copy of the same message
+  enforceNonce: boolean;
+};
+
+const DEFAULT_SEND_OPTIONS: SendOptions = {
+  mentionUsers: true,
+  mentionRoles: true,
+  mentionEveryone: true,
+  mentionRepliedUser: true,
+  silent: false,
+  suppressEmbeds: false,
+  tts: false,
+  enforceNonce: true,
+};
+
+const SEND_OPTION_FIELDS: { key: keyof SendOptions; label: string; description: string }[] = [
+  { key: 'mentionUsers', label: 'Ping users', description: 'User mentions notify them' },
+  { key: 'mentionRoles', label: 'Ping roles', description: 'Role mentions notify their members' },
+  {
+    key: 'mentionEveryone',
+    label: 'Ping @everyone and @here',
+    description: 'Otherwise they are sent as plain text',
+  },
+  {
+    key: 'mentionRepliedUser',
+    label: 'Ping replied-to author',
+    description: 'Applies to replies only',
+  },
+  { key: 'silent', label: 'Silent', description: 'No push or desktop notifications' },
+  { key: 'suppressEmbeds', label: 'Suppress embeds', description: 'No link previews' },
+  { key: 'tts', label: 'Text-to-speech', description: 'Read aloud to those viewing the channel' },
+  {
+    key: 'enforceNonce',
+    label: 'De-duplicate retries',
+    description: 'A resent message is not posted twice',
+  },
+];
+
+function sendOptionsKey(botId: string | null, channelId: string) {
+  return `botclienty-send-options:${botId ?? ''}:${channelId}`;
+}
+
+function readSendOptions(botId: string | null, channelId: string): SendOptions {
+  try {
+    const stored = JSON.parse(localStorage.getItem(sendOptionsKey(botId, channelId)) || '{}');
+    return { ...DEFAULT_SEND_OPTIONS, ...stored };
+  } catch {
+    return DEFAULT_SEND_OPTIONS;
+  }
+}
+
+function saveSendOptions(botId: string | null, channelId: string, options: SendOptions) {
+  localStorage.setItem(sendOptionsKey(botId, channelId), JSON.stringify(options));
+}
+
+// The options that differ from the usual, for the composer to show
+function sendOptionsSummary(options: SendOptions) {
+  return [
+    options.silent && 'Silent',
+    options.suppressEmbeds && 'No embeds',
+    options.tts && 'TTS',
+    !options.mentionUsers && 'No user pings',
+    !options.mentionRoles && 'No role pings',
+    !options.mentionEveryone && 'No @everyone',
+  ].filter((label): label is string => !!label);
+}
+
+// allowed_mentions, flags and tts for a message sent with the options
+function sendOptionsPayload(options: SendOptions, isReply: boolean) {
+  const flags =
+    (options.suppressEmbeds ? MESSAGE_FLAG_SUPPRESS_EMBEDS : 0) |
+    (options.silent ? MESSAGE_FLAG_SUPPRESS_NOTIFICATIONS : 0);
+  const parse = [
+    options.mentionUsers && 'users',
+    options.mentionRoles && 'roles',
+    options.mentionEveryone && 'everyone',
+  ].filter((type): type is string => !!type);
+  return {
+    allowed_mentions: {
+      parse,
+      ...(isReply && { replied_user: options.mentionRepliedUser }),
+    },
+    ...(flags && { flags }),
+    ...(options.tts && { tts: true }),
+  };
+}
+
+// Whether the text pings @everyone or @here, code aside
+function mentionsEveryone(content: string) {
+  return /@(everyone|here)\b/.test(content.replace(/```[\s\S]*?```|`[^`\n]*`/g, ''));
+}
+
+// Discord takes nonces of up to 25 characters
+function createNonce() {
+  return `${Date.now()}${Math.floor(Math.random() * 1e6)}`;
+}
+
+const SendOptionsMenu: React.FC<{
+  options: SendOptions;
+  // Webhooks take no nonce
+  isWebhook: boolean;
+  onChange: (options: SendOptions) => void;
+  onClose: () => void;
+}> = ({ options, isWebhook, onChange, onClose }) => (
+  <>
+    <div className="fixed inset-0 z-30" onClick={onClose} />
+    <div className="absolute bottom-full right-0 mb-2 z-40 w-72 bg-[#111214] rounded-lg shadow-xl p-2 animate-scale-in">
+      <div className="flex items-center justify-between px-2 pb-1">
+        <h4 className="text-xs font-semibold uppercase text-[#b5bac1]">Send options</h4>
+        <button
+          type="button"
+          onClick={() => onChange(DEFAULT_SEND_OPTIONS)}
+          className="text-xs text-[#00a8fc] hover:underline"
+        >
+          Reset
+        </button>
+      </div>
+      {SEND_OPTION_FIELDS.filter(({ key }) => !(isWebhook && key === 'enforceNonce')).map(
+        ({ key, label, description }) => (
+          <label
+            key={key}
+            className="flex items-start gap-2 px-2 py-1.5 rounded hover:bg-[#1e1f22] cursor-pointer"
+          >
+            <input
+              type="checkbox"
+              checked={options[key]}
+              onChange={(e) => onChange({ ...options, [key]: e.target.checked })}
+              className="mt-1"
+            />
+            <span>
+              <span className="block text-sm text-[#dbdee1]">{label}</span>
+              <span className="block text-xs text-[#949ba4]">{description}</span>
+            </span>
+          </label>
+        )
+      )}
+      <p className="px-2 pt-1 text-xs text-[#949ba4]">Remembered for this channel.</p>
+    </div>
+  </>
+);
+
+// ============ SCHEDULED MESSAGES ============
+
+// How often the scheduler panel refreshes, matching the server's timer
+const SCHEDULER_REFRESH_MS = 15000;
+// A failed one-off message is retried this long from now
+const SCHEDULE_RETRY_DELAY_MS = 30 * 1000;
+
+const SCHEDULE_PRESETS = [
+  { label: 'Every hour', cron: '0 * * * *' },
+  { label: 'Every day at 9:00', cron: '0 9 * * *' },
+  { label: 'Weekdays at 9:00', cron: '0 9 * * 1-5' },
+  { label: 'Every Monday at 9:00', cron: '0 9 * * 1' },
+  { label: 'First of the month at 9:00', cron: '0 9 1 * *' },
+];
+
+type ScheduleRequest = ScheduleTiming & { name?: string };
+
+function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+// Value for a datetime-local input, in the browser's time zone
+function toDateTimeInput(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+}
+
+function describeSchedule(job: ScheduledJob) {
+  if (!job.cron) return 'Once';
+  const preset = SCHEDULE_PRESETS.find((p) => p.cron === job.cron);
+  return `${preset?.label ?? job.cron} (${job.timeZone})`;
+}
+
+// Picks when the composed message goes out: once at a time, or repeatedly on a
+// cron schedule read in a time zone
+const ScheduleMessageDialog: React.FC<{
+  channelName: string;
+  onSchedule: (request: ScheduleRequest) => Promise<void>;
+  onClose: () => void;
+}> = ({ channelName, onSchedule, onClose }) => {
+  const [repeat, setRepeat] = useState(false);
+  const [runAt, setRunAt] = useState(() => {
+    const nextHour = new Date();
+    nextHour.setHours(nextHour.getHours() + 1, 0, 0, 0);
+    return toDateTimeInput(nextHour);
+  });
+  const [cron, setCron] = useState(SCHEDULE_PRESETS[1].cron);
+  const [timeZone, setTimeZone] = useState(localTimeZone);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSchedule({
+        name: name.trim() || undefined,
+        timeZone: timeZone.trim() || 'UTC',
+        // The input holds a local time, which Date reads as such
+        ...(repeat ? { cron: cron.trim() } : { runAt: new Date(runAt).toISOString() }),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full bg-[#1e1f22] text-[#dbdee1] placeholder-[#87898c] text-sm px-3 py-2 rounded focus:outline-none focus:ring-2 focus:ring-[#5865f2]';
+  const tabClass = (active: boolean) =>
+    `flex-1 py-1.5 rounded text-sm font-medium transition-colors ${
+      active ? 'bg-[#5865f2] text-white' : 'text-[#b5bac1] hover:bg-[#35373c]'
+    }`;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-md w-full p-4 space-y-4 animate-scale-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white">Schedule message</h2>
+          <button type="button" onClick={onClose} className="text-[#b5bac1] hover:text-white">
+            ✕
+          </button>
+        </div>
+        <p className="text-sm text-[#b5bac1]">
+          The bot posts it in <span className="text-[#dbdee1]">{channelName}</span> with its
+          attachments, embeds and send options, even while this tab is closed.
+        </p>
+
+        <div className="flex gap-1 p-1 bg-[#1e1f22] rounded">
+          <button type="button" onClick={() => setRepeat(false)} className={tabClass(!repeat)}>
+            Once
+          </button>
+          <button type="button" onClick={() => setRepeat(true)} className={tabClass(repeat)}>
+            Repeat
+          </button>
+        </div>
+
+        {repeat ? (
+          <>
+            <label className="block">
+              <span className="block text-xs font-semibold uppercase text-[#b5bac1] mb-1">
+                Schedule
+              </span>
+              <select
+                value={SCHEDULE_PRESETS.some((p) => p.cron === cron) ? cron : ''}
+                onChange={(e) => e.target.value && setCron(e.target.value)}
+                className={inputClass}
+              >
+                {SCHEDULE_PRESETS.map((preset) => (
+                  <option key={preset.cron} value={preset.cron}>
+                    {preset.label}
+                  </option>
+                ))}
+                <option value="">Custom</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs font-semibold uppercase text-[#b5bac1] mb-1">
+                Cron expression
+              </span>
+              <input
+                type="text"
+                value={cron}
+                onChange={(e) => setCron(e.target.value)}
+                placeholder="minute hour day month weekday"
+                className={`${inputClass} font-mono`}
+                required
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-semibold uppercase text-[#b5bac1] mb-1">
+                Time zone
+              </span>
+              <input
+                type="text"
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                placeholder="Europe/Berlin"
+                className={inputClass}
+              />
+            </label>
+          </>
+        ) : (
+          <label className="block">
+            <span className="block text-xs font-semibold uppercase text-[#b5bac1] mb-1">
+              Send at
+            </span>
+            <input
+              type="datetime-local"
+              value={runAt}
+              min={toDateTimeInput(new Date())}
+              onChange={(e) => setRunAt(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </label>
+        )}
+
+        <label className="block">
+          <span className="block text-xs font-semibold uppercase text-[#b5bac1] mb-1">
+            Name (optional)
+          </span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Defaults to the first line of the message"
+            maxLength={100}
+            className={inputClass}
+          />
+        </label>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-white hover:underline"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-white bg-[#5865f2] hover:bg-[#4752c4] rounded disabled:opacity-50"
+          >
+            {isSaving ? 'Scheduling...' : 'Schedule'}
+          </button>
         </div>
-      </div>
+      </form>
     </div>
   );
 };
 
-// ============ CREATE SERVER MODAL ============
-
-const CreateServerModal: React.FC<{
+// The bot's scheduled messages and what happened when they ran. Members change
+// their own schedules; admins change anyone's.
+const SchedulerPanel: React.FC<{
+  accountId: string;
+  role: TeamRole | null;
   onClose: () => void;
-  onCreate: (name: string, icon: File | null) => void;
-}> = ({ onClose, onCreate }) => {
-  const [name, setName] = useState('');
-  const [icon, setIcon] = useState<File | null>(null);
-  const [iconPreview, setIconPreview] = useState<string>('');
+}> = ({ accountId, role, onClose }) => {
+  const botId = useContext(ActiveBotContext);
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<ScheduledRun[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [channelNames, setChannelNames] = useState<Record<string, string>>({});
+  const channelRequestsRef = useRef(new Set<string>());
+
+  const load = useCallback(() => {
+    appRequest<{ jobs: ScheduledJob[]; runs: ScheduledRun[] }>(botId, '/api/schedules')
+      .then((data) => {
+        setJobs(data.jobs);
+        setRuns(data.runs);
+        setError(null);
+      })
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : 'Failed to load scheduled messages')
+      );
+  }, [botId]);
 
-  const handleIconChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setIcon(file);
-      setIconPreview(URL.createObjectURL(file));
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, SCHEDULER_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  // Schedules may point at channels of servers that are not open
+  useEffect(() => {
+    [...jobs, ...runs].forEach(({ channelId }) => {
+      if (channelRequestsRef.current.has(channelId)) return;
+      channelRequestsRef.current.add(channelId);
+      authedFetch<Channel>(botId, `/channels/${channelId}`)
+        .then((channel) =>
+          setChannelNames((prev) => ({
+            ...prev,
+            [channelId]: channel.recipients?.length
+              ? `@${channel.recipients[0].username}`
+              : `#${channel.name}`,
+          }))
+        )
+        .catch(() => undefined);
+    });
+  }, [botId, jobs, runs]);
+
+  const channelName = (channelId: string) => channelNames[channelId] ?? `#${channelId}`;
+
+  const canChange = (job: ScheduledJob) =>
+    role === 'admin' || (job.accountId === accountId && hasTeamRole(role, 'operator'));
+
+  const handleUpdate = async (
+    job: ScheduledJob,
+    changes: ScheduleRequest & { paused?: boolean }
+  ) => {
+    try {
+      await appRequest<ScheduledJob>(botId, `/api/schedules/${job.id}`, 'PATCH', changes);
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update scheduled message');
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (name.trim()) {
-      onCreate(name.trim(), icon);
+  const handleDelete = async (job: ScheduledJob) => {
+    if (!confirm(`Delete the scheduled message "${job.name}"?`)) return;
+    try {
+      await appRequest(botId, `/api/schedules/${job.id}`, 'DELETE');
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete scheduled message');
     }
   };
 
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 rounded text-sm font-medium transition-colors ${
+      active ? 'bg-[#404249] text-white' : 'text-[#b5bac1] hover:text-[#dbdee1]'
+    }`;
+  const actionClass = 'text-xs text-[#00a8fc] hover:underline';
+
   return (
     <div
       className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
       onClick={onClose}
     >
       <div
-        className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-md w-full animate-scale-in"
+        className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-4xl w-full max-h-[85vh] flex flex-col animate-scale-in"
         onClick={(e) => e.stopPropagation()}
       >
-        <div className="p-4">
-          <h2 className="text-xl font-bold text-white mb-6">Create Server</h2>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div>
-              <label className="block text-sm font-semibold text-[#b5bac1] mb-2">Server Icon</label>
-              <div className="flex items-center gap-4">
-                <div
-                  className="w-20 h-20 rounded-full bg-[#35363c] flex items-center justify-center cursor-pointer hover:bg-[#404249] transition-colors relative overflow-hidden group"
-                  onClick={() => document.getElementById('server-icon-input')?.click()}
-                >
-                  {iconPreview ? (
-                    <img src={iconPreview} alt="" className="w-full h-full object-cover" />
-                  ) : (
-                    <svg
-                      className="w-10 h-10 text-[#949ba4]"
-                      fill="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path d="M19 13h-6v6h-2v-6h-2v-2h6v2zM7 9c-1.1 0-2 .9-2 2v2h-2c0 1.1.9 2 2s.9-2 2-2zm8 0c-1.1 0-2 .9-2 2v2h-2c0 1.1.9 2 2s.9-2 2-2zm5 11h-4v4h-2v-4H7v-2h4V7h2v4z" />
-                    </svg>
-                  )}
-                  <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                    <span className="text-white text-xs">Upload</span>
-                  </div>
-                </div>
-                <input
-                  id="server-icon-input"
-                  type="file"
-                  accept="image/*"
-                  onChange={handleIconChange}
-                  className="hidden"
-                />
-                {icon && (
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setIcon(null);
-                      setIconPreview('');
-                    }}
-                    className="text-[#f23f43] text-sm hover:underline"
-                  >
-                    Remove
-                  </button>
-                )}
-              </div>
-            </div>
-
-            <div>
-              <label className="block text-sm font-semibold text-[#b5bac1] mb-2">Server Name</label>
-              <input
-                type="text"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-                placeholder="My Awesome Server"
-                maxLength={100}
-                autoFocus
-                className="w-full bg-[#1e1f22] text-[#dbdee1] placeholder-[#87898c] px-4 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#5865f2]"
-              />
-            </div>
-
-            <div className="flex gap-2">
-              <Button onClick={onClose} variant="secondary">
-                Cancel
-              </Button>
-              <Button type="submit" variant="primary" disabled={!name.trim()}>
-                Create Server
-              </Button>
-            </div>
-          </form>
+        <div className="p-4 border-b border-[#1e1f22]">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-xl font-bold text-white">Scheduled Messages</h2>
+            <button onClick={onClose} className="text-[#b5bac1] hover:text-white">
+              ✕
+            </button>
+          </div>
+          <div className="flex gap-1">
+            <button onClick={() => setShowHistory(false)} className={tabClass(!showHistory)}>
+              Upcoming ({jobs.length})
+            </button>
+            <button onClick={() => setShowHistory(true)} className={tabClass(showHistory)}>
+              History
+            </button>
+          </div>
         </div>
-      </div>
-    </div>
-  );
-};
 
-// ============ EMOJI PICKER ============
-
-const EmojiPicker: React.FC<{
-  onSelect: (emoji: string) => void;
-  onClose: () => void;
-}> = ({ onSelect, onClose }) => {
-  const emojis = [
-    '😀',
-    '😂',
-    '😍',
-    '🥰',
-    '🎉',
-    '🎊',
-    '💯',
-    '✨',
-    '💪',
-    '❤️',
-    '🧡',
-    '💔',
-    '👍',
-    '👎�',
-    '🔥',
-    '⭐',
-    '🌟',
-    '💕',
-    '😎',
-    '🤔',
-    '😮',
-    '🤯',
-    '😅',
-    '😢',
-    '😡',
-    '🤣',
-    '🤬',
-    '👀',
-    '👽',
-    '🐱',
-    '🌈',
-    '🌍',
-    '💻',
-    '🎮',
-    '🎨',
-    '🎭',
-    '🍕',
-    '🍔',
-    '☕',
-    '🍷',
-    '🥤',
-    '🍺',
-    '🥝',
-    '🍞',
-    '🍰',
-    '⚽',
-    '🏀',
-    '🎸',
-    '🎺',
-    '🎻',
-    '🎤',
-    '🎧',
-    '🏹',
-    '🏈',
-    '🚗',
-    '🚀',
-    '🛸',
-    '🌎',
-    '🎱',
-    '🎬',
-    '📺',
-    '📷',
-    '📸',
-  ];
+        {error && <p className="px-4 pt-3 text-sm text-[#f23f43]">{error}</p>}
 
-  return (
-    <div className="fixed bottom-24 right-4 bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-xl p-3 z-50 animate-scale-in">
-      <div className="flex items-center justify-between mb-3">
-        <h3 className="text-sm font-semibold text-[#b5bac1]">Emoji Picker</h3>
-        <button onClick={onClose} className="text-[#949ba4] hover:text-[#dbdee1]">
-          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
-          </svg>
-        </button>
-      </div>
-      <div className="grid grid-cols-8 gap-1 max-h-64 overflow-y-auto">
-        {emojis.map((emoji) => (
-          <button
-            key={emoji}
-            onClick={() => onSelect(emoji)}
-            className="w-9 h-9 text-2xl hover:bg-[#35363c] rounded transition-colors flex items-center justify-center"
-          >
-            {emoji}
-          </button>
-        ))}
+        <div className="flex-1 overflow-y-auto">
+          {!showHistory ? (
+            jobs.length === 0 ? (
+              <p className="p-4 text-sm text-[#949ba4]">
+                Nothing scheduled. Write a message and use the clock button next to the composer.
+              </p>
+            ) : (
+              <ul className="divide-y divide-[#1e1f22]">
+                {jobs.map((job) => (
+                  <li key={job.id} className="px-4 py-3 flex items-start gap-4">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-[#f2f3f5] truncate">{job.name}</p>
+                      <p className="text-xs text-[#949ba4]">
+                        {channelName(job.channelId)} · {describeSchedule(job)}
+                        {job.files.length > 0 && ` · ${job.files.length} file(s)`} · by{' '}
+                        {job.username}
+                      </p>
+                      {job.lastRun && (
+                        <p
+                          className={`text-xs mt-1 ${
+                            job.lastRun.ok ? 'text-[#23a559]' : 'text-[#f23f43]'
+                          }`}
+                        >
+                          {job.lastRun.ok ? 'Sent' : `Failed: ${job.lastRun.error}`} ·{' '}
+                          {formatFullDate(job.lastRun.at)}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-right flex-shrink-0">
+                      <p className="text-sm text-[#dbdee1]">
+                        {job.paused
+                          ? 'Paused'
+                          : job.nextRunAt
+                            ? formatFullDate(job.nextRunAt)
+                            : 'Not scheduled'}
+                      </p>
+                      {canChange(job) && (
+                        <div className="flex justify-end gap-3 mt-1">
+                          {!job.cron && !job.nextRunAt ? (
+                            <button
+                              onClick={() =>
+                                handleUpdate(job, {
+                                  runAt: new Date(
+                                    Date.now() + SCHEDULE_RETRY_DELAY_MS
+                                  ).toISOString(),
+                                  paused: false,
+                                })
+                              }
+                              className={actionClass}
+                            >
+                              Retry
+                            </button>
+                          ) : (
+                            <button
+                              onClick={() => handleUpdate(job, { paused: !job.paused })}
+                              className={actionClass}
+                            >
+                              {job.paused ? 'Resume' : 'Pause'}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDelete(job)}
+                            className="text-xs text-[#f23f43] hover:underline"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )
+          ) : runs.length === 0 ? (
+            <p className="p-4 text-sm text-[#949ba4]">No scheduled message has run yet</p>
+          ) : (
+            <table className="w-full text-sm text-left">
+              <thead className="sticky top-0 bg-[#2b2d31] text-xs uppercase text-[#949ba4]">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">Ran</th>
+                  <th className="px-3 py-2 font-semibold">Message</th>
+                  <th className="px-3 py-2 font-semibold">Channel</th>
+                  <th className="px-3 py-2 font-semibold">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr key={run.id} className="border-t border-[#1e1f22] align-top">
+                    <td
+                      className="px-3 py-2 text-[#b5bac1] whitespace-nowrap"
+                      title={`Scheduled for ${formatFullDate(run.scheduledFor)}`}
+                    >
+                      {formatFullDate(run.at)}
+                    </td>
+                    <td className="px-3 py-2 text-[#dbdee1]">
+                      {run.jobName}
+                      <span className="block text-xs text-[#949ba4]">by {run.username}</span>
+                    </td>
+                    <td className="px-3 py-2 text-[#b5bac1]">{channelName(run.channelId)}</td>
+                    <td
+                      className={`px-3 py-2 text-xs ${
+                        run.ok ? 'text-[#23a559] font-semibold' : 'text-[#f23f43]'
+                      }`}
+                    >
+                      {run.ok ? 'Sent' : `${run.status ? `${run.status}: ` : ''}${run.error}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -1476,8 +8368,12 @@ const MemberList: React.FC<{
 export default function DiscordClient() {
   // Core state
   const [tokenInput, setTokenInput] = useState('');
-  const [authToken, setAuthToken] = useState<string | null>(null);
-  const [botUser, setBotUser] = useState<User | null>(null);
+  const [usernameInput, setUsernameInput] = useState('');
+  const [passwordInput, setPasswordInput] = useState('');
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [setupRequired, setSetupRequired] = useState(false);
+  // Profiles of all the account's bots, for the bot switcher
+  const [botProfiles, setBotProfiles] = useState<Record<string, User>>({});
 
   // Data state
   const [guilds, setGuilds] = useState<Guild[]>([]);
@@ -1486,16 +8382,56 @@ export default function DiscordClient() {
   const [selectedChannelId, setSelectedChannelId] = useState<string | null>(null);
   const [roles, setRoles] = useState<Role[]>([]);
   const [members, setMembers] = useState<Member[]>([]);
+  // Custom emoji of the selected server
+  const [emojis, setEmojis] = useState<GuildEmoji[]>([]);
   const [dmChannels, setDmChannels] = useState<Channel[]>([]);
   const [isDMView, setIsDMView] = useState(false);
-
-  // Messages
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Threads of the selected server: the active ones, plus archived ones once listed
+  const [threads, setThreads] = useState<Channel[]>([]);
+  const [threadArchives, setThreadArchives] = useState<Record<string, 'loading' | 'loaded'>>({});
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [isLoadingThread, setIsLoadingThread] = useState(false);
+  const openThread = threads.find((thread) => thread.id === openThreadId) ?? null;
+
+  // Messages, cached per bot and channel so Gateway events keep every loaded channel
+  // of every open bot live
+  const [messageCache, setMessageCache] = useState<Record<string, Record<string, Message[]>>>({});
+  // Id of each channel's first message, once history has been loaded back to it
+  const [channelStarts, setChannelStarts] = useState<Record<string, Record<string, string>>>({});
+  // Channels whose cache was cut short of the newest messages, per bot
+  const [detachedChannels, setDetachedChannels] = useState<Record<string, Record<string, boolean>>>(
+    {}
+  );
+  const [loadingHistory, setLoadingHistory] = useState<{
+    channelId: string;
+    direction: 'older' | 'newer';
+  } | null>(null);
   const [messageInput, setMessageInput] = useState('');
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  // Action rows being built for the next message; null while the builder is closed
+  const [composedComponents, setComposedComponents] = useState<MessageComponentData[] | null>(null);
+  // Embeds being built for the next message; null while the builder is closed
+  const [composedEmbeds, setComposedEmbeds] = useState<Embed[] | null>(null);
+  const [editingMessage, setEditingMessage] = useState<{
+    message: Message;
+    channelId: string;
+  } | null>(null);
+  // Webhooks by channel, listed when the channel is opened
+  const [channelWebhooks, setChannelWebhooks] = useState<Record<string, Webhook[]>>({});
+  const webhookRequestsRef = useRef(new Set<string>());
+  const [showWebhooks, setShowWebhooks] = useState(false);
+  const [showPins, setShowPins] = useState(false);
+  // Bumped per channel when its pins change, so an open pins panel reloads
+  const [pinsVersions, setPinsVersions] = useState<Record<string, number>>({});
+  // Set while the composer sends through a webhook instead of as the bot
+  const [sendAs, setSendAs] = useState<WebhookSendAs | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [openedBotIds, setOpenedBotIds] = useState<string[]>([]);
+  const [gatewayStatuses, setGatewayStatuses] = useState<Record<string, GatewayStatus>>({});
 
   // UI state
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [isAuthenticating, setIsAuthenticating] = useState(false);
+  const [isAuthenticating, setIsAuthenticating] = useState(true);
   const [authError, setAuthError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showUserProfile, setShowUserProfile] = useState(false);
@@ -1503,6 +8439,7 @@ export default function DiscordClient() {
   const [showChannelInfo, setShowChannelInfo] = useState(false);
   const [showQuickSwitcher, setShowQuickSwitcher] = useState(false);
   const [showMemberList, setShowMemberList] = useState(true);
+  const [rateLimitState, setRateLimitState] = useState<RateLimitSnapshot | null>(null);
   const [toast, setToast] = useState<{
     message: string;
     type: 'success' | 'error' | 'info';
@@ -1512,60 +8449,224 @@ export default function DiscordClient() {
 
   // New UI states
   const [showCreateServer, setShowCreateServer] = useState(false);
+  const [showTeamPanel, setShowTeamPanel] = useState(false);
+  const [showAuditLog, setShowAuditLog] = useState(false);
+  const [showCommands, setShowCommands] = useState(false);
+  const [showScheduler, setShowScheduler] = useState(false);
+  const [showConnectBot, setShowConnectBot] = useState(false);
   const [showUserSearch, setShowUserSearch] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
-  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  // Mentions and flags for the selected channel's messages
+  const [sendOptions, setSendOptions] = useState<SendOptions>(DEFAULT_SEND_OPTIONS);
+  const [showSendOptions, setShowSendOptions] = useState(false);
+  const [showScheduleDialog, setShowScheduleDialog] = useState(false);
+  // Nonce of the message being sent, kept after a failure so a retry reuses it
+  const sendNonceRef = useRef<string | null>(null);
+  // Replied-to messages that came neither with the reply nor with the channel's
+  // history, by id; null when Discord no longer has them
+  const [referencedMessages, setReferencedMessages] = useState<Record<string, Message | null>>({});
+  const referenceRequestsRef = useRef(new Set<string>());
+  const composerInputRef = useRef<HTMLTextAreaElement>(null);
+  const [showFormatting, setShowFormatting] = useState(false);
+  const [showComposerPreview, setShowComposerPreview] = useState(false);
+  const [composerCaret, setComposerCaret] = useState(0);
+  // Mentions picked in the composer, shown by name until the message is sent
+  const [composerTokens, setComposerTokens] = useState<ComposerToken[]>([]);
+  // Where the autocomplete popup was closed with Escape, to keep it closed there
+  const [dismissedAutocompleteAt, setDismissedAutocompleteAt] = useState<number | null>(null);
+  const autocompleteRef = useRef<ComposerAutocompleteHandle>(null);
   const [serverName, setServerName] = useState('');
   const [serverIcon, setServerIcon] = useState<File | null>(null);
   const [userSearchQuery, setUserSearchQuery] = useState('');
   const [searchedUsers, setSearchedUsers] = useState<User[]>([]);
 
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const lastMessageIdRef = useRef<string | null>(null);
+  const messageListRef = useRef<MessageListHandle>(null);
+  // For the Gateway stream, which outlives renders
+  const detachedChannelsRef = useRef(detachedChannels);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+  const workspacesRef = useRef<Record<string, BotWorkspace>>({});
+  // The active bot, for responses and Gateway events that arrive after it may have changed
+  const activeBotRef = useRef<string | null>(null);
+  // Where the page was opened, applied once the first bot is active
+  const initialRouteRef = useRef<ChannelRoute | null>(null);
+  // Message link waiting for its message to be loaded, then the one shown highlighted
+  const [targetMessageId, setTargetMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const aroundRequestRef = useRef<string | null>(null);
+
+  const activeBotId = session?.botId ?? null;
+  const botUser = (activeBotId && botProfiles[activeBotId]) || null;
+  const botUserId = botUser?.id;
+  const messagesByChannel = (activeBotId && messageCache[activeBotId]) || NO_CACHED_CHANNELS;
+  const messages = (selectedChannelId && messagesByChannel[selectedChannelId]) || NO_MESSAGES;
+  const isChannelDetached = (channelId: string) =>
+    !!activeBotId && !!detachedChannels[activeBotId]?.[channelId];
+  const reachedStartOf = (channelId: string) => {
+    const cached = messagesByChannel[channelId];
+    return (
+      !!cached?.length && !!activeBotId && channelStarts[activeBotId]?.[channelId] === cached[0].id
+    );
+  };
+  const channelDetached = !!selectedChannelId && isChannelDetached(selectedChannelId);
+  const reachedChannelStart = !!selectedChannelId && reachedStartOf(selectedChannelId);
+
+  // Worked out again only when the channel's messages change
+  const groupedMessages = useMemo(() => groupMessages(messages), [messages]);
+  const gatewayStatus: GatewayStatus =
+    (activeBotId && gatewayStatuses[activeBotId]) || 'disconnected';
+  const teamRole = session?.role ?? null;
+  const canOperate = hasTeamRole(teamRole, 'operator');
+  const canModerate = hasTeamRole(teamRole, 'moderator');
+
+  const setChannelMessages = useCallback(
+    (channelId: string, update: (prev: Message[]) => Message[]) => {
+      if (!activeBotId) return;
+      setMessageCache((prev) => {
+        const channels = prev[activeBotId] ?? NO_CACHED_CHANNELS;
+        const current = channels[channelId] ?? NO_MESSAGES;
+        const next = update(current);
+        return next === current
+          ? prev
+          : { ...prev, [activeBotId]: { ...channels, [channelId]: next } };
+      });
+    },
+    [activeBotId]
+  );
+
+  const setChannelStart = (channelId: string, firstMessageId: string) => {
+    if (!activeBotId) return;
+    setChannelStarts((prev) => ({
+      ...prev,
+      [activeBotId]: { ...prev[activeBotId], [channelId]: firstMessageId },
+    }));
+  };
 
-  // Auto-scroll to bottom when new messages arrive
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const setChannelDetached = (channelId: string, detached: boolean) => {
+    if (!activeBotId) return;
+    setDetachedChannels((prev) => ({
+      ...prev,
+      [activeBotId]: { ...prev[activeBotId], [channelId]: detached },
+    }));
   };
 
-  // Polling for new messages
   useEffect(() => {
-    if (!authToken || !selectedChannelId) return;
+    detachedChannelsRef.current = detachedChannels;
+  }, [detachedChannels]);
 
-    const pollInterval = setInterval(async () => {
-      try {
-        const url = `/channels/${selectedChannelId}/messages?limit=10${lastMessageIdRef.current ? `&after=${lastMessageIdRef.current}` : ''}`;
-        const newMessages = await authedFetch<Message[]>(authToken, url);
-        if (newMessages && newMessages.length > 0) {
-          setMessages((prev) => {
-            const existingIds = new Set(prev.map((m) => m.id));
-            const uniqueNew = newMessages.filter((m) => !existingIds.has(m.id));
-            if (uniqueNew.length === 0) return prev;
-            const updated = [...prev, ...uniqueNew].sort(
-              (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-            );
-            return updated;
-          });
-        }
-      } catch (error) {
-        console.error('Polling error:', error);
+  // Every bot opened since login stays connected so its cache keeps up
+  useEffect(() => {
+    if (!botUserId) return;
+    setOpenedBotIds((prev) => (prev.includes(botUserId) ? prev : [...prev, botUserId]));
+  }, [botUserId]);
+
+  // Real-time updates: the server holds the Gateway connections and relays their
+  // events for all open bots over one stream
+  const openedBotKey = openedBotIds.join(',');
+  useEffect(() => {
+    if (!openedBotKey) return;
+
+    const events = new EventSource(`/api/gateway?bots=${openedBotKey}`);
+    events.addEventListener('dispatch', (event) => {
+      const { botId, t, d }: { botId: string; t: string; d: unknown } = JSON.parse(
+        (event as MessageEvent).data
+      );
+      setMessageCache((prev) => {
+        const channels = prev[botId] ?? NO_CACHED_CHANNELS;
+        const next = applyGatewayEvent(channels, t, d, botId, detachedChannelsRef.current[botId]);
+        return next === channels ? prev : { ...prev, [botId]: next };
+      });
+      // Thread listings are kept for the active bot only
+      if ((t.startsWith('THREAD_') || t === 'MESSAGE_CREATE') && botId === activeBotRef.current) {
+        setThreads((prev) => applyThreadEvent(prev, t, d, botId));
+      }
+      if (t === 'CHANNEL_PINS_UPDATE' && botId === activeBotRef.current) {
+        bumpPinsVersion((d as { channel_id: string }).channel_id);
       }
-    }, 3000);
+    });
+    events.addEventListener('status', (event) => {
+      const { botId, status, detail } = JSON.parse((event as MessageEvent).data);
+      setGatewayStatuses((prev) => ({ ...prev, [botId]: status }));
+      if (detail) setToast({ message: detail, type: 'error' });
+    });
+    // EventSource reconnects by itself; reflect the gap in the status indicators
+    const disconnectAll = () =>
+      setGatewayStatuses(
+        Object.fromEntries(openedBotKey.split(',').map((id) => [id, 'disconnected']))
+      );
+    events.onerror = disconnectAll;
+
+    return () => {
+      events.close();
+      disconnectAll();
+    };
+  }, [openedBotKey]);
+
+  // Message links: fetch the message with its surroundings when it is not among
+  // the loaded ones, then scroll to it and highlight it for a moment
+  useEffect(() => {
+    if (!targetMessageId || !selectedChannelId || !messagesByChannel[selectedChannelId]) return;
+    if (!messages.some((m) => m.id === targetMessageId)) {
+      loadMessagesAround(selectedChannelId, targetMessageId);
+      return;
+    }
+    if (!messageListRef.current?.scrollToMessage(targetMessageId)) return;
+    setHighlightedMessageId(targetMessageId);
+    setTargetMessageId(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [targetMessageId, selectedChannelId, messagesByChannel, messages, isLoading]);
 
-    return () => clearInterval(pollInterval);
-  }, [authToken, selectedChannelId]);
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
 
+  // The URL follows the selection; filling one in (a server's first channel)
+  // replaces the history entry rather than adding one
   useEffect(() => {
-    if (messages.length > 0) {
-      lastMessageIdRef.current = messages[messages.length - 1].id;
+    if (!botUserId) return;
+    const path = channelRoutePath({
+      isDM: isDMView,
+      guildId: selectedGuildId,
+      channelId: selectedChannelId,
+      messageId: null,
+    });
+    const current = window.location.pathname;
+    if (path === '/' || current === path || current.startsWith(`${path}/`)) return;
+    if (current === '/' || path.startsWith(`${current}/`)) {
+      window.history.replaceState(null, '', path);
     } else {
-      lastMessageIdRef.current = null;
+      window.history.pushState(null, '', path);
     }
-  }, [messages]);
+  }, [botUserId, isDMView, selectedGuildId, selectedChannelId]);
 
+  // Back and forward navigate between selections
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    const handlePopState = () => {
+      const route = parseChannelRoute(window.location.pathname);
+      if (!route) return;
+      setIsDMView(route.isDM);
+      setSelectedGuildId(route.guildId);
+      setSelectedChannelId(route.channelId);
+      setTargetMessageId(route.messageId);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Rate limit buckets shown in the channel info panel
+  useEffect(() => {
+    if (!botUserId || !showChannelInfo) return;
+
+    const refresh = () =>
+      fetchRateLimits(activeBotId)
+        .then(setRateLimitState)
+        .catch((error) => console.error('Failed to load rate limits:', error));
+    refresh();
+    const interval = setInterval(refresh, 2000);
+    return () => clearInterval(interval);
+  }, [activeBotId, botUserId, showChannelInfo]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -1586,68 +8687,181 @@ export default function DiscordClient() {
 
   // Effects
   useEffect(() => {
-    const stored = localStorage.getItem('discord-bot-token');
-    if (stored) {
-      setAuthToken(stored);
-      setTokenInput(stored);
+    // Tokens saved in localStorage by older versions are wiped from the browser
+    // and offered in the connect-bot form instead
+    const legacyToken = localStorage.getItem('discord-bot-token');
+    if (legacyToken) {
+      localStorage.removeItem('discord-bot-token');
+      setTokenInput(legacyToken);
     }
-  }, []);
-
-  useEffect(() => {
-    if (!authToken) return;
+    initialRouteRef.current = parseChannelRoute(window.location.pathname);
     authenticate();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [authToken]);
+  }, []);
 
   useEffect(() => {
-    if (!authToken || !botUser) return;
+    // Bots switched back to keep the lists they had
+    if (!botUserId || workspacesRef.current[botUserId]) return;
     loadGuilds();
     loadDMChannels();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [authToken, botUser]);
+  }, [botUserId]);
+
+  // Thread panels and archived listings belong to the server they were opened in
+  useEffect(() => {
+    setOpenThreadId(null);
+    setThreadArchives({});
+  }, [selectedGuildId]);
 
   useEffect(() => {
-    if (!authToken || !selectedGuildId) return;
+    if (!botUserId || !selectedGuildId) return;
+    if (channels.some((c) => c.guild_id === selectedGuildId)) return;
     loadGuildData();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [authToken, selectedGuildId]);
+  }, [botUserId, selectedGuildId]);
 
+  // Server channels load once their type is known, as forums have no messages of their own
+  const selectedChannelType = isDMView ? 1 : channels.find((c) => c.id === selectedChannelId)?.type;
   useEffect(() => {
-    if (!authToken || !selectedChannelId) {
-      setMessages([]);
-      return;
-    }
+    if (!botUserId || !selectedChannelId || selectedChannelType === undefined) return;
+    if (selectedChannelType === 15 || selectedChannelType === 16) return;
     loadMessages();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [authToken, selectedChannelId]);
+  }, [botUserId, selectedChannelId, selectedChannelType]);
+
+  // A reply in progress belongs to the channel it was started in, and so do a
+  // webhook to send as and the pins popover
+  useEffect(() => {
+    setReplyingTo(null);
+    setSendAs(null);
+    setShowPins(false);
+    setShowSendOptions(false);
+  }, [selectedChannelId]);
+
+  // Picked mentions stand for the server and bot they were picked in
+  useEffect(() => {
+    setComposerTokens([]);
+  }, [activeBotId, selectedChannelId]);
+
+  // Names deleted from the composer no longer stand for their mentions
+  useEffect(() => {
+    setComposerTokens((prev) => {
+      const kept = prev.filter(({ text }) => messageInput.includes(text));
+      return kept.length === prev.length ? prev : kept;
+    });
+  }, [messageInput]);
+
+  useEffect(() => {
+    setSendOptions(
+      selectedChannelId ? readSendOptions(activeBotId, selectedChannelId) : DEFAULT_SEND_OPTIONS
+    );
+  }, [activeBotId, selectedChannelId]);
+
+  const handleChangeSendOptions = (options: SendOptions) => {
+    setSendOptions(options);
+    if (selectedChannelId) saveSendOptions(activeBotId, selectedChannelId, options);
+  };
+
+  // Webhook messages can only be edited with their webhook's token
+  useEffect(() => {
+    if (!botUserId || !selectedChannelId || isDMView || !canOperate) return;
+    loadWebhooks(selectedChannelId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [botUserId, selectedChannelId, isDMView, canOperate]);
 
   // API Calls
   const authenticate = async () => {
-    if (!authToken) return;
-
     setIsAuthenticating(true);
     try {
-      const user = await authedFetch<User>(authToken, '/users/@me');
-      if (!user.bot) throw new Error('Not a bot token');
-      setBotUser(user);
-      setAuthError(null);
+      const result = await fetchSession();
+      if ('setup' in result) {
+        setSession(null);
+        setSetupRequired(result.setup);
+        return;
+      }
+      await loadBotProfiles(result);
+      activateBot(result);
     } catch (error) {
-      setAuthError(error instanceof Error ? error.message : 'Authentication failed');
-      setAuthToken(null);
-      setBotUser(null);
-      localStorage.removeItem('discord-bot-token');
+      // Without a working bot the login / connect screen is shown
+      console.error('Failed to restore session:', error);
     } finally {
       setIsAuthenticating(false);
     }
   };
 
+  const loadBotProfiles = async (info: SessionInfo) => {
+    const profiles = await Promise.all(
+      info.bots.map((bot) =>
+        authedFetch<User>(bot.id, '/users/@me').catch((error) => {
+          console.error(`Failed to load bot ${bot.id}:`, error);
+          return null;
+        })
+      )
+    );
+    setBotProfiles(
+      Object.fromEntries(
+        profiles.filter((user): user is User => user !== null).map((user) => [user.id, user])
+      )
+    );
+  };
+
+  // Makes the session's bot the active one: the current bot's lists and selection
+  // are put aside and the new bot's are restored (or loaded on first use)
+  const activateBot = (info: SessionInfo) => {
+    const previousBotId = activeBotId;
+    activeBotRef.current = info.botId;
+    setSession(info);
+    if (info.botId === previousBotId) return;
+
+    if (previousBotId) {
+      workspacesRef.current[previousBotId] = {
+        guilds,
+        dmChannels,
+        channels,
+        threads,
+        roles,
+        members,
+        emojis,
+        selectedGuildId,
+        selectedChannelId,
+        isDMView,
+      };
+    }
+    const saved = info.botId ? workspacesRef.current[info.botId] : undefined;
+    // The page's own link decides what the first bot opens
+    const route = info.botId && !saved ? initialRouteRef.current : null;
+    if (route) initialRouteRef.current = null;
+    setGuilds(saved?.guilds ?? []);
+    setDmChannels(saved?.dmChannels ?? []);
+    setChannels(saved?.channels ?? []);
+    setThreads(saved?.threads ?? []);
+    setRoles(saved?.roles ?? []);
+    setMembers(saved?.members ?? []);
+    setEmojis(saved?.emojis ?? []);
+    setSelectedGuildId(saved?.selectedGuildId ?? route?.guildId ?? null);
+    setSelectedChannelId(saved?.selectedChannelId ?? route?.channelId ?? null);
+    setIsDMView(saved?.isDMView ?? route?.isDM ?? false);
+    setTargetMessageId(route?.messageId ?? null);
+    setReplyingTo(null);
+    setOpenThreadId(null);
+    setThreadArchives({});
+    setChannelWebhooks({});
+    webhookRequestsRef.current.clear();
+    setShowWebhooks(false);
+    setSendAs(null);
+    setRateLimitState(null);
+  };
+
   const loadGuilds = async () => {
-    if (!authToken) return;
+    if (!botUser) return;
+    const botId = activeBotId;
     setIsLoading(true);
     try {
-      const data = await authedFetch<Guild[]>(authToken, '/users/@me/guilds');
+      const data = await authedFetch<Guild[]>(activeBotId, '/users/@me/guilds');
+      // The user may have switched bots while this was loading
+      if (activeBotRef.current !== botId) return;
       setGuilds(data);
-      if (data.length > 0 && !selectedGuildId) setSelectedGuildId(data[0].id);
+      if (data.length > 0 && !selectedGuildId && !isDMView) setSelectedGuildId(data[0].id);
     } catch (error) {
       console.error('Failed to load guilds:', error);
     } finally {
@@ -1656,9 +8870,11 @@ export default function DiscordClient() {
   };
 
   const loadDMChannels = async () => {
-    if (!authToken) return;
+    if (!botUser) return;
     try {
-      const data = await authedFetch<Channel[]>(authToken, '/users/@me/channels');
+      const botId = activeBotId;
+      const data = await authedFetch<Channel[]>(activeBotId, '/users/@me/channels');
+      if (activeBotRef.current !== botId) return;
       setDmChannels(data.filter((ch) => ch.type === 1 || ch.type === 3));
     } catch (error) {
       console.error('Failed to load DM channels:', error);
@@ -1666,154 +8882,638 @@ export default function DiscordClient() {
   };
 
   const loadGuildData = async () => {
-    if (!authToken || !selectedGuildId) return;
+    if (!botUser || !selectedGuildId) return;
+    const botId = activeBotId;
     setIsLoading(true);
     try {
-      const [channelData, roleData, membersData] = await Promise.all([
-        authedFetch<Channel[]>(authToken, `/guilds/${selectedGuildId}/channels`),
-        authedFetch<Role[]>(authToken, `/guilds/${selectedGuildId}/roles`),
-        authedFetch<Member[]>(authToken, `/guilds/${selectedGuildId}/members?limit=100`),
+      const [channelData, roleData, membersData, threadData, emojiData] = await Promise.all([
+        authedFetch<Channel[]>(activeBotId, `/guilds/${selectedGuildId}/channels`),
+        authedFetch<Role[]>(activeBotId, `/guilds/${selectedGuildId}/roles`),
+        authedFetch<Member[]>(activeBotId, `/guilds/${selectedGuildId}/members?limit=100`),
+        // Threads are an extra; the server still loads without them
+        authedFetch<ThreadList>(activeBotId, `/guilds/${selectedGuildId}/threads/active`).catch(
+          (error) => {
+            console.error('Failed to load threads:', error);
+            return { threads: [], members: [] };
+          }
+        ),
+        authedFetch<GuildEmoji[]>(activeBotId, `/guilds/${selectedGuildId}/emojis`).catch(
+          (error) => {
+            console.error('Failed to load emojis:', error);
+            return [];
+          }
+        ),
       ]);
+      if (activeBotRef.current !== botId) return;
 
       const sortedChannels = [...channelData].sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+      const activeThreads = withThreadMembers(threadData);
       setChannels(sortedChannels);
+      setThreads(activeThreads);
       setRoles(roleData);
       setMembers(membersData);
-
+      setEmojis(emojiData);
+
+      // A link to a thread opens its parent channel with the thread beside it
+      const linkedThread = activeThreads.find((thread) => thread.id === selectedChannelId);
+      if (linkedThread) {
+        setOpenThreadId(linkedThread.id);
+        setTargetMessageId(null);
+        loadThreadMessages(linkedThread.id);
+      }
+      const channelId = linkedThread?.parent_id ?? selectedChannelId;
       const textChannels = sortedChannels.filter((c) => c.type === 0);
-      if (!selectedChannelId || !textChannels.some((c) => c.id === selectedChannelId)) {
+      const listedChannels = sortedChannels.filter((c) => c.type === 0 || isForumChannel(c));
+      if (!channelId || !listedChannels.some((c) => c.id === channelId)) {
         setSelectedChannelId(textChannels[0]?.id || null);
+      } else if (channelId !== selectedChannelId) {
+        setSelectedChannelId(channelId);
       }
     } catch (error) {
-      console.error('Failed to load guild data:', error);
-      setToast({ message: 'Failed to load server data', type: 'error' });
+      console.error('Failed to load guild data:', error);
+      setToast({ message: 'Failed to load server data', type: 'error' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // A channel's (or thread's) newest page, merged into its cache, which is then live again
+  const loadLatestMessages = async (channelId: string) => {
+    const botId = activeBotId;
+    const data = await authedFetch<Message[]>(
+      activeBotId,
+      `/channels/${channelId}/messages?limit=${MESSAGE_PAGE_SIZE}`
+    );
+    if (activeBotRef.current !== botId) return;
+    const page = data.reverse();
+    setChannelMessages(channelId, (prev) => mergeLatestPage(prev, page));
+    setChannelDetached(channelId, false);
+    // A short page is the whole channel
+    if (page.length > 0 && page.length < MESSAGE_PAGE_SIZE) {
+      setChannelStart(channelId, page[0].id);
+    }
+  };
+
+  const loadMessages = async () => {
+    if (!botUser || !selectedChannelId) return;
+    const channelId = selectedChannelId;
+    // Cached channels render immediately and refresh in the background
+    setIsLoading(!messagesByChannel[channelId]);
+    try {
+      await loadLatestMessages(channelId);
+    } catch (error) {
+      console.error('Failed to load messages:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadThreadMessages = async (threadId: string) => {
+    setIsLoadingThread(!messagesByChannel[threadId]);
+    try {
+      await loadLatestMessages(threadId);
+    } catch (error) {
+      console.error('Failed to load thread messages:', error);
+      setToast({ message: 'Failed to load thread', type: 'error' });
+    } finally {
+      setIsLoadingThread(false);
+    }
+  };
+
+  // Scroll-back: the page of history before the oldest loaded message. Past the
+  // cache limit the newest pages are dropped and the channel stops taking live
+  // messages until scrolled back down.
+  const loadOlderMessages = async (channelId: string) => {
+    const cached = messagesByChannel[channelId] ?? NO_MESSAGES;
+    const oldest = cached[0];
+    if (!botUser || !oldest || loadingHistory || reachedStartOf(channelId)) return;
+    const botId = activeBotId;
+    setLoadingHistory({ channelId, direction: 'older' });
+    try {
+      const data = await authedFetch<Message[]>(
+        activeBotId,
+        `/channels/${channelId}/messages?before=${oldest.id}&limit=${MESSAGE_PAGE_SIZE}`
+      );
+      if (activeBotRef.current !== botId) return;
+      const page = data.reverse();
+      setChannelMessages(channelId, (prev) =>
+        page.reduce(upsertMessage, prev).slice(0, MAX_CACHED_MESSAGES)
+      );
+      if (cached.length + page.length > MAX_CACHED_MESSAGES) setChannelDetached(channelId, true);
+      if (page.length < MESSAGE_PAGE_SIZE) setChannelStart(channelId, page[0]?.id ?? oldest.id);
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+      setToast({ message: 'Failed to load older messages', type: 'error' });
     } finally {
-      setIsLoading(false);
+      setLoadingHistory(null);
     }
   };
 
-  const loadMessages = async () => {
-    if (!authToken || !selectedChannelId) {
-      setMessages([]);
-      return;
+  // Scrolling back down a detached channel: the page after the newest loaded
+  // message, dropping the oldest pages past the cache limit
+  const loadNewerMessages = async (channelId: string) => {
+    const cached = messagesByChannel[channelId] ?? NO_MESSAGES;
+    const newest = cached[cached.length - 1];
+    if (!botUser || !newest || loadingHistory || !isChannelDetached(channelId)) return;
+    const botId = activeBotId;
+    setLoadingHistory({ channelId, direction: 'newer' });
+    try {
+      const data = await authedFetch<Message[]>(
+        activeBotId,
+        `/channels/${channelId}/messages?after=${newest.id}&limit=${MESSAGE_PAGE_SIZE}`
+      );
+      if (activeBotRef.current !== botId) return;
+      setChannelMessages(channelId, (prev) =>
+        data.reduce(upsertMessage, prev).slice(-MAX_CACHED_MESSAGES)
+      );
+      // A short page reaches the newest message, so live messages apply again
+      if (data.length < MESSAGE_PAGE_SIZE) setChannelDetached(channelId, false);
+    } catch (error) {
+      console.error('Failed to load newer messages:', error);
+      setToast({ message: 'Failed to load newer messages', type: 'error' });
+    } finally {
+      setLoadingHistory(null);
     }
-    setIsLoading(true);
+  };
+
+  const handleJumpToPresent = async () => {
+    await loadMessages();
+    messageListRef.current?.scrollToBottom();
+  };
+
+  // Loads the history around a linked message. It joins the cache when the two
+  // overlap; otherwise it replaces it and the channel is detached from the newest messages.
+  const loadMessagesAround = async (channelId: string, messageId: string) => {
+    if (aroundRequestRef.current === messageId) return;
+    aroundRequestRef.current = messageId;
     try {
       const data = await authedFetch<Message[]>(
-        authToken,
-        `/channels/${selectedChannelId}/messages?limit=50`
+        activeBotId,
+        `/channels/${channelId}/messages?around=${messageId}&limit=${MESSAGE_PAGE_SIZE}`
       );
-      setMessages(data.reverse());
+      if (!data.some((m) => m.id === messageId)) throw new Error('Message not found');
+      const page = data.reduce(upsertMessage, NO_MESSAGES);
+      const cached = messagesByChannel[channelId] ?? NO_MESSAGES;
+      const overlaps =
+        cached.length > 0 &&
+        compareSnowflakes(cached[cached.length - 1].id, page[0].id) >= 0 &&
+        compareSnowflakes(cached[0].id, page[page.length - 1].id) <= 0;
+      setChannelMessages(channelId, (prev) => (overlaps ? page.reduce(upsertMessage, prev) : page));
+      if (!overlaps) setChannelDetached(channelId, true);
     } catch (error) {
-      console.error('Failed to load messages:', error);
+      console.error('Failed to load linked message:', error);
+      setTargetMessageId(null);
+      setToast({ message: 'That message could not be found', type: 'error' });
     } finally {
-      setIsLoading(false);
+      aroundRequestRef.current = null;
     }
   };
 
   // Handlers
   const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!usernameInput.trim() || !passwordInput) return;
+
+    try {
+      setIsAuthenticating(true);
+      const result = await logIn(usernameInput.trim(), passwordInput, setupRequired);
+
+      setSetupRequired(false);
+      setPasswordInput('');
+      setAuthError(null);
+      await loadBotProfiles(result);
+      activateBot(result);
+    } catch (error) {
+      setAuthError(error instanceof Error ? error.message : 'Authentication failed');
+    } finally {
+      setIsAuthenticating(false);
+    }
+  };
+
+  const handleConnectBot = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!tokenInput.trim()) return;
 
-    const token = tokenInput.trim();
     try {
       setIsAuthenticating(true);
-      const user = await authedFetch<User>(token, '/users/@me');
-      if (!user.bot) throw new Error('Not a bot token');
+      const { user, ...info } = await connectBot(tokenInput.trim());
 
-      setBotUser(user);
-      setAuthToken(token);
-      localStorage.setItem('discord-bot-token', token);
+      setBotProfiles((prev) => ({ ...prev, [user.id]: user }));
+      activateBot(info);
+      setTokenInput('');
       setAuthError(null);
+      setShowConnectBot(false);
     } catch (error) {
       setAuthError(error instanceof Error ? error.message : 'Authentication failed');
-      setBotUser(null);
-      setAuthToken(null);
-      localStorage.removeItem('discord-bot-token');
     } finally {
       setIsAuthenticating(false);
     }
   };
 
+  const handleSwitchBot = (botId: string) => {
+    const bot = session?.bots.find((b) => b.id === botId);
+    if (!session || !bot || botId === activeBotId || !botProfiles[botId]) return;
+
+    activateBot({ ...session, botId, role: bot.role });
+    selectBot(botId)
+      .then((info) => {
+        // Picks up role changes, unless the user has switched on again meanwhile
+        if (activeBotRef.current === info.botId) setSession(info);
+      })
+      .catch((error) => console.error('Failed to remember bot:', error));
+  };
+
   const handleLogout = () => {
-    setAuthToken(null);
-    setBotUser(null);
+    endSession().catch((error) => console.error('Failed to end session:', error));
+    activeBotRef.current = null;
+    workspacesRef.current = {};
+    setSession(null);
+    setShowTeamPanel(false);
+    setShowAuditLog(false);
+    setBotProfiles({});
+    setOpenedBotIds([]);
+    setGatewayStatuses({});
     setGuilds([]);
+    setDmChannels([]);
     setChannels([]);
-    setMessages([]);
+    setMessageCache({});
     setSelectedGuildId(null);
     setSelectedChannelId(null);
-    localStorage.removeItem('discord-bot-token');
+  };
+
+  const handleAddAttachments = (files: FileList | File[]) => {
+    const picked = Array.from(files);
+    const room = Math.max(0, MAX_ATTACHMENTS - pendingAttachments.length);
+    if (picked.length > room) {
+      setToast({ message: `You can attach up to ${MAX_ATTACHMENTS} files`, type: 'error' });
+    }
+    const added = picked.slice(0, room).map(toPendingAttachment);
+    setPendingAttachments((prev) => [...prev, ...added]);
+  };
+
+  const handleRemoveAttachment = (key: string) => {
+    const removed = pendingAttachments.find((a) => a.key === key);
+    if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+    setPendingAttachments((prev) => prev.filter((a) => a.key !== key));
+  };
+
+  const handleUpdateAttachment = (key: string, changes: Partial<PendingAttachment>) => {
+    setPendingAttachments((prev) => prev.map((a) => (a.key === key ? { ...a, ...changes } : a)));
+  };
+
+  // Whether the composed message can be sent as it is; says why not when it has
+  // something to send
+  const checkComposedMessage = () => {
+    const components = composedComponents?.length ? composedComponents : undefined;
+    const embeds = composedEmbeds?.length ? composedEmbeds : undefined;
+    if (!messageInput.trim() && pendingAttachments.length === 0 && !components && !embeds) {
+      return false;
+    }
+    if (contentOverLimit) {
+      setToast({
+        message: `Messages can be at most ${MESSAGE_CONTENT_LIMIT} characters`,
+        type: 'error',
+      });
+      return false;
+    }
+    const problem =
+      (components && componentRowsProblem(components)) || (embeds && embedsProblem(embeds));
+    if (problem) {
+      setToast({ message: problem, type: 'error' });
+      return false;
+    }
+    return true;
+  };
+
+  const confirmEveryonePing = () =>
+    !sendOptions.mentionEveryone ||
+    !mentionsEveryone(composedContent) ||
+    confirm('This message will ping @everyone or @here. Send it anyway?');
+
+  // The composed message as the bot posts it, without the attachments metadata
+  const composedPayload = async () => {
+    const components = composedComponents?.length ? composedComponents : undefined;
+    const embeds = composedEmbeds?.length ? composedEmbeds : undefined;
+    return {
+      content: await expandEmojiShortcodes(composedContent),
+      ...(replyingTo && {
+        message_reference: { message_id: replyingTo.id, fail_if_not_exists: false },
+      }),
+      ...sendOptionsPayload(sendOptions, !!replyingTo),
+      components,
+      embeds: embeds?.map(cleanEmbed),
+    };
+  };
+
+  const clearComposer = () => {
+    sendNonceRef.current = null;
+    setMessageInput('');
+    setComposerTokens([]);
+    setDismissedAutocompleteAt(null);
+    setReplyingTo(null);
+    setComposedComponents(null);
+    setComposedEmbeds(null);
+    pendingAttachments.forEach((a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+    setPendingAttachments([]);
   };
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!authToken || !selectedChannelId || !messageInput.trim()) return;
-
+    if (!botUser || !selectedChannelId || isSending || !checkComposedMessage()) return;
+    const webhook = sendAs?.webhookId ? findWebhook(sendAs.webhookId) : undefined;
+    if (sendAs && !webhook?.token) {
+      setToast({ message: 'Choose a webhook to send as', type: 'error' });
+      return;
+    }
+    if (!confirmEveryonePing()) return;
+
+    const channelId = selectedChannelId;
+    const attachments = pendingAttachments;
+    // Webhooks take no nonce
+    const withNonce = !webhook && sendOptions.enforceNonce;
+    if (withNonce && !sendNonceRef.current) sendNonceRef.current = createNonce();
+    const nonce = withNonce ? sendNonceRef.current : null;
+    setIsSending(true);
     try {
-      await authedFetch(authToken, `/channels/${selectedChannelId}/messages`, {
-        method: 'POST',
-        body: JSON.stringify({ content: messageInput }),
-      });
-      setMessageInput('');
-      setTimeout(loadMessages, 300);
+      const payload = {
+        ...(await composedPayload()),
+        ...(nonce && { nonce, enforce_nonce: true }),
+        ...(sendAs && {
+          username: sendAs.username.trim() || undefined,
+          avatar_url: sendAs.avatarUrl.trim() || undefined,
+        }),
+      };
+      const body =
+        attachments.length > 0
+          ? multipartBody({ ...payload, attachments: attachmentMetadata(attachments) }, attachments)
+          : JSON.stringify(payload);
+
+      const threadId = webhook ? sendAs?.threadId : null;
+      const sent = await authedFetch<Message>(
+        activeBotId,
+        webhook
+          ? webhookPath(webhook, { threadId, withComponents: !!payload.components })
+          : `/channels/${channelId}/messages`,
+        { method: 'POST', body }
+      );
+      clearComposer();
+      // Messages sent into a thread reach it through the Gateway
+      if (!threadId) {
+        if (channelDetached) {
+          // The sent message is among the newest ones, which are not loaded
+          handleJumpToPresent();
+        } else {
+          setChannelMessages(channelId, (prev) => upsertMessage(prev, sent));
+          messageListRef.current?.scrollToBottom();
+        }
+      }
       setToast({ message: 'Message sent!', type: 'success' });
     } catch (error) {
       console.error('Failed to send message:', error);
       setToast({ message: 'Failed to send message', type: 'error' });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleOpenScheduleDialog = () => {
+    if (checkComposedMessage() && confirmEveryonePing()) setShowScheduleDialog(true);
+  };
+
+  // Hands the composed message to the server to post later, as the bot
+  const handleScheduleMessage = async (timing: ScheduleRequest) => {
+    if (!selectedChannelId) return;
+    const attachments = pendingAttachments;
+    try {
+      const payload = await composedPayload();
+      const form = multipartBody(
+        attachments.length > 0
+          ? { ...payload, attachments: attachmentMetadata(attachments) }
+          : payload,
+        attachments
+      );
+      form.append('schedule', JSON.stringify({ ...timing, channelId: selectedChannelId }));
+      const job = await scheduleMessage(activeBotId, form);
+      clearComposer();
+      setShowScheduleDialog(false);
+      setToast({
+        message: `Scheduled for ${formatFullDate(job.nextRunAt ?? job.createdAt)}`,
+        type: 'success',
+      });
+    } catch (error) {
+      setToast({
+        message: error instanceof Error ? error.message : 'Failed to schedule message',
+        type: 'error',
+      });
+    }
+  };
+
+  // Puts text at the composer's cursor, in place of any selection or the given
+  // range. With a token, the text is sent as that token.
+  const insertIntoComposer = (
+    text: string,
+    token?: string,
+    range?: { start: number; end: number }
+  ) => {
+    const input = composerInputRef.current;
+    const start = range?.start ?? input?.selectionStart ?? messageInput.length;
+    const end = range?.end ?? input?.selectionEnd ?? start;
+    const caret = start + text.length;
+    setMessageInput((prev) => prev.slice(0, start) + text + prev.slice(end));
+    setComposerCaret(caret);
+    if (token) {
+      setComposerTokens((prev) => [...prev.filter((t) => t.text !== text), { text, token }]);
+    }
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const applyComposerEdit = ({ value, start, end }: ComposerEdit) => {
+    setMessageInput(value);
+    setComposerCaret(end);
+    requestAnimationFrame(() => {
+      composerInputRef.current?.focus();
+      composerInputRef.current?.setSelectionRange(start, end);
+    });
+  };
+
+  // The composer grows with its text, up to a point
+  useLayoutEffect(() => {
+    const input = composerInputRef.current;
+    if (!input) return;
+    input.style.height = 'auto';
+    input.style.height = `${Math.min(input.scrollHeight, COMPOSER_MAX_HEIGHT_PX)}px`;
+  }, [messageInput]);
+
+  // What will be sent, mentions and all, for the counter and the preview
+  const composedContent = applyComposerTokens(messageInput, composerTokens);
+  const contentOverLimit = composedContent.length > MESSAGE_CONTENT_LIMIT;
+
+  const autocompleteQuery = findAutocompleteQuery(messageInput, composerCaret);
+  const showAutocomplete =
+    !!autocompleteQuery &&
+    autocompleteQuery.start !== dismissedAutocompleteAt &&
+    !!selectedChannelId &&
+    canOperate;
+
+  const handlePickAutocomplete = (option: AutocompleteOption) => {
+    if (!autocompleteQuery) return;
+    const { token, distinct } = option;
+    // A name already picked for another mention is told apart from it
+    const taken = composerTokens.some((t) => t.text === option.text && t.token !== token);
+    const text = taken && distinct ? `${option.text} (${distinct})` : option.text;
+    // The trailing space ends the name, so the popup closes
+    insertIntoComposer(`${text} `, undefined, {
+      start: autocompleteQuery.start,
+      end: composerCaret,
+    });
+    if (token) {
+      setComposerTokens((prev) => [...prev.filter((t) => t.text !== text), { text, token }]);
     }
   };
 
-  const handleEditMessage = async (message: Message) => {
-    if (!authToken || !selectedChannelId) return;
+  // The message handlers act on the selected channel unless given another (a thread)
+  const handleEditMessage = (message: Message, channelId = selectedChannelId) => {
+    if (!channelId) return;
+    setEditingMessage({ message, channelId });
+  };
+
+  const handleSaveMessageEdit = async (edit: MessageEdit) => {
+    if (!botUser || !editingMessage) return false;
+    const { message, channelId } = editingMessage;
+    // Without allowed_mentions an edit parses mentions afresh, which would add the
+    // author of a reply that was sent without pinging them
+    const repliedAuthorId = message.referenced_message?.author.id;
+    // Webhook messages are edited through the webhook, naming the thread they are in
+    const webhook = message.webhook_id ? findWebhook(message.webhook_id) : undefined;
+    const path = webhook?.token
+      ? webhookPath(webhook, {
+          messageId: message.id,
+          threadId: channelId !== webhook.channel_id ? channelId : null,
+          withComponents: edit.components !== undefined,
+        })
+      : `/channels/${channelId}/messages/${message.id}`;
     try {
-      await authedFetch(authToken, `/channels/${selectedChannelId}/messages/${message.id}`, {
+      const edited = await authedFetch<Message>(activeBotId, path, {
         method: 'PATCH',
-        body: JSON.stringify({ content: message.content }),
+        body: JSON.stringify({
+          content: edit.content,
+          embeds: edit.embeds.map(cleanEmbed),
+          components: edit.components,
+          // Attachments missing from the list are removed
+          attachments: edit.keptAttachmentIds.map((id) => ({ id })),
+          allowed_mentions: {
+            parse: ['users', 'roles', 'everyone'],
+            replied_user:
+              !!repliedAuthorId && !!message.mentions?.some((user) => user.id === repliedAuthorId),
+          },
+        }),
       });
-      loadMessages();
+      setChannelMessages(channelId, (prev) => upsertMessage(prev, edited));
       setToast({ message: 'Message edited!', type: 'success' });
+      return true;
     } catch (error) {
       console.error('Failed to edit message:', error);
       setToast({ message: 'Failed to edit message', type: 'error' });
+      return false;
+    }
+  };
+
+  const handleReact = async (
+    messageId: string,
+    emoji: Reaction['emoji'],
+    { burst = false, remove = false }: ReactOptions = {},
+    channelId = selectedChannelId
+  ) => {
+    if (!botUser || !channelId) return;
+    // Super reactions are marked the way Discord's own client marks them
+    const query = burst ? (remove ? '?burst=true' : '?type=1') : '';
+    try {
+      await authedFetch(
+        activeBotId,
+        `/channels/${channelId}/messages/${messageId}/reactions/${reactionEmojiParam(emoji)}/@me${query}`,
+        { method: remove ? 'DELETE' : 'PUT' }
+      );
+      // The Gateway delivers MESSAGE_REACTION_ADD; refetch only when it is down
+      if (gatewayStatus !== 'ready') loadMessages();
+    } catch (error) {
+      console.error('Failed to update reaction:', error);
+      setToast({
+        message: remove ? 'Failed to remove reaction' : 'Failed to add reaction',
+        type: 'error',
+      });
     }
   };
 
-  const handleAddReaction = async (messageId: string, emoji: string) => {
-    if (!authToken || !selectedChannelId) return;
+  const handleRemoveReactions = async (
+    messageId: string,
+    emoji: Reaction['emoji'] | null,
+    userId: string | null,
+    channelId = selectedChannelId
+  ) => {
+    if (!botUser || !channelId) return false;
+    const target = emoji ? `/${reactionEmojiParam(emoji)}${userId ? `/${userId}` : ''}` : '';
     try {
       await authedFetch(
-        authToken,
-        `/channels/${selectedChannelId}/messages/${messageId}/reactions/${encodeURIComponent(emoji)}/@me`,
+        activeBotId,
+        `/channels/${channelId}/messages/${messageId}/reactions${target}`,
         {
-          method: 'PUT',
+          method: 'DELETE',
         }
       );
-      loadMessages();
+      if (gatewayStatus !== 'ready') loadMessages();
+      setToast({ message: userId ? 'Reaction removed' : 'Reactions removed', type: 'success' });
+      return true;
     } catch (error) {
-      console.error('Failed to add reaction:', error);
+      console.error('Failed to remove reactions:', error);
+      setToast({ message: 'Failed to remove reactions', type: 'error' });
+      return false;
     }
   };
 
-  const handleDeleteMessage = (messageId: string) => {
-    if (!authToken || !selectedChannelId) return;
-    authedFetch(authToken, `/channels/${selectedChannelId}/messages/${messageId}`, {
+  const handleDeleteMessage = (messageId: string, channelId = selectedChannelId) => {
+    if (!botUser || !channelId) return;
+    authedFetch(activeBotId, `/channels/${channelId}/messages/${messageId}`, {
       method: 'DELETE',
     })
       .then(() => {
-        loadMessages();
+        setChannelMessages(channelId, (prev) => prev.filter((m) => m.id !== messageId));
         setToast({ message: 'Message deleted!', type: 'success' });
       })
       .catch(console.error);
   };
 
+  const bumpPinsVersion = (channelId: string) =>
+    setPinsVersions((prev) => ({ ...prev, [channelId]: (prev[channelId] ?? 0) + 1 }));
+
+  const handleTogglePin = async (message: Message, channelId = selectedChannelId) => {
+    if (!botUser || !channelId) return false;
+    const pinned = !message.pinned;
+    try {
+      await authedFetch(activeBotId, `/channels/${channelId}/messages/pins/${message.id}`, {
+        method: pinned ? 'PUT' : 'DELETE',
+      });
+      setChannelMessages(channelId, (prev) =>
+        mapMessage(prev, message.id, (m) => ({ ...m, pinned }))
+      );
+      // The Gateway delivers CHANNEL_PINS_UPDATE; reload open pins only when it is down
+      if (gatewayStatus !== 'ready') bumpPinsVersion(channelId);
+      setToast({ message: pinned ? 'Message pinned' : 'Message unpinned', type: 'success' });
+      return true;
+    } catch (error) {
+      console.error('Failed to update pin:', error);
+      setToast({ message: `Failed to ${pinned ? 'pin' : 'unpin'} message`, type: 'error' });
+      return false;
+    }
+  };
+
   const handleQuickSwitcherSelect = (type: 'channel' | 'guild', id: string) => {
     if (type === 'guild') {
       setIsDMView(false);
       setSelectedGuildId(id);
       setSelectedChannelId(null);
-      setMessages([]);
     } else {
       setIsDMView(false);
       setSelectedChannelId(id);
@@ -1822,11 +9522,11 @@ export default function DiscordClient() {
   };
 
   const handleSearchUsers = async (query: string) => {
-    if (!authToken || !query.trim()) return;
+    if (!botUser || !query.trim()) return;
 
     try {
       const data = await authedFetch<{ members: { user: User }[] }>(
-        authToken,
+        activeBotId,
         `/guilds/${selectedGuildId}/members/search?query=${encodeURIComponent(query)}&limit=5`
       );
       const users = data.members?.map((m) => m.user) || [];
@@ -1837,10 +9537,10 @@ export default function DiscordClient() {
   };
 
   const handleStartDM = async (user: User) => {
-    if (!authToken) return;
+    if (!botUser) return;
 
     try {
-      const data = await authedFetch<Channel>(authToken, '/users/@me/channels', {
+      const data = await authedFetch<Channel>(activeBotId, '/users/@me/channels', {
         method: 'POST',
         body: JSON.stringify({ recipient_id: user.id }),
       });
@@ -1850,7 +9550,6 @@ export default function DiscordClient() {
       setIsDMView(true);
       setSelectedGuildId(null);
       setSelectedChannelId(newChannel.id);
-      setMessages([]);
       setShowUserSearch(false);
       setUserSearchQuery('');
       setToast({ message: `Started DM with ${user.username}`, type: 'success' });
@@ -1862,10 +9561,10 @@ export default function DiscordClient() {
 
   const handleCreateServer = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!authToken || !serverName.trim()) return;
+    if (!botUser || !serverName.trim()) return;
 
     try {
-      const data = await authedFetch<Guild>(authToken, '/guilds', {
+      const data = await authedFetch<Guild>(activeBotId, '/guilds', {
         method: 'POST',
         body: JSON.stringify({ name: serverName }),
       });
@@ -1881,20 +9580,230 @@ export default function DiscordClient() {
     }
   };
 
-  const handleReply = (messageId: string) => {
-    const message = messages.find((m) => m.id === messageId);
-    if (message) {
-      setReplyingTo(messageId);
-      setMessageInput(`> <@${message.author.username}> ${message.content.substring(0, 50)}...`);
-      // Scroll to message composer
-      const input = document.querySelector('input[type="text"]') as HTMLInputElement;
-      input?.focus();
-    }
+  const handleReply = (message: Message) => {
+    // Webhooks cannot reply
+    setSendAs(null);
+    setReplyingTo(message);
+    composerInputRef.current?.focus();
   };
 
   const handleCancelReply = () => {
     setReplyingTo(null);
-    setMessageInput('');
+  };
+
+  // Lists a channel's webhooks once; bots without Manage Webhooks there get none
+  const loadWebhooks = async (channelId: string) => {
+    if (webhookRequestsRef.current.has(channelId)) return;
+    webhookRequestsRef.current.add(channelId);
+    const botId = activeBotId;
+    let list: Webhook[] = [];
+    try {
+      list = await authedFetch<Webhook[]>(activeBotId, `/channels/${channelId}/webhooks`);
+    } catch (error) {
+      console.error('Failed to load webhooks:', error);
+    }
+    if (activeBotRef.current !== botId) return;
+    setChannelWebhooks((prev) => ({ ...prev, [channelId]: list }));
+  };
+
+  const findWebhook = (id: string) =>
+    Object.values(channelWebhooks)
+      .flat()
+      .find((webhook) => webhook.id === id);
+
+  const handleToggleSendAs = () => {
+    if (sendAs || !selectedChannelId) {
+      setSendAs(null);
+      return;
+    }
+    loadWebhooks(selectedChannelId);
+    setReplyingTo(null);
+    const usable = (channelWebhooks[selectedChannelId] ?? []).filter((w) => w.token);
+    setSendAs({
+      webhookId: usable.length === 1 ? usable[0].id : null,
+      username: '',
+      avatarUrl: '',
+      threadId: null,
+    });
+  };
+
+  const handleJumpToMessage = (messageId: string) => {
+    setTargetMessageId(messageId);
+  };
+
+  // Fetches a replied-to message that is not at hand, once
+  const loadReferencedMessage = useCallback(
+    async (channelId: string, messageId: string) => {
+      if (referenceRequestsRef.current.has(messageId)) return;
+      referenceRequestsRef.current.add(messageId);
+      try {
+        const message = await authedFetch<Message>(
+          activeBotId,
+          `/channels/${channelId}/messages/${messageId}`
+        );
+        setReferencedMessages((prev) => ({ ...prev, [messageId]: message }));
+      } catch (error) {
+        console.error('Failed to load replied-to message:', error);
+        setReferencedMessages((prev) => ({ ...prev, [messageId]: null }));
+      }
+    },
+    [activeBotId]
+  );
+
+  // The message a reply points at: the loaded copy is the freshest, then the one
+  // that came with the reply, then one fetched separately
+  const referencedMessageOf = (message: Message): Message | null | undefined => {
+    const id = message.message_reference?.message_id;
+    if (message.type !== MESSAGE_TYPE_REPLY || !id) return undefined;
+    const loaded = messages.find((m) => m.id === id);
+    if (loaded) return loaded;
+    if (message.referenced_message !== undefined) return message.referenced_message;
+    return referencedMessages[id];
+  };
+
+  const handleOpenThread = (thread: Channel) => {
+    setThreads((prev) => upsertThreads(prev, [thread]));
+    setOpenThreadId(thread.id);
+    loadThreadMessages(thread.id);
+  };
+
+  const handleCreateThread = async (message: Message) => {
+    if (!botUser || !selectedChannelId) return;
+    const name = window.prompt('Thread name', message.content.slice(0, 100) || 'New thread');
+    if (!name?.trim()) return;
+    try {
+      const thread = await authedFetch<Channel>(
+        activeBotId,
+        `/channels/${selectedChannelId}/messages/${message.id}/threads`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ name: name.trim(), auto_archive_duration: 1440 }),
+        }
+      );
+      setChannelMessages(selectedChannelId, (prev) =>
+        prev.map((m) => (m.id === message.id ? { ...m, thread } : m))
+      );
+      handleOpenThread(thread);
+      setToast({ message: 'Thread created!', type: 'success' });
+    } catch (error) {
+      console.error('Failed to create thread:', error);
+      setToast({ message: 'Failed to create thread', type: 'error' });
+    }
+  };
+
+  const handleCreateForumPost = async (post: NewForumPost) => {
+    if (!botUser || !selectedChannelId) return false;
+    const payload = {
+      name: post.name,
+      applied_tags: post.appliedTags,
+      message: { content: post.content, attachments: attachmentMetadata(post.attachments) },
+    };
+    try {
+      const thread = await authedFetch<Channel>(
+        activeBotId,
+        `/channels/${selectedChannelId}/threads`,
+        {
+          method: 'POST',
+          body:
+            post.attachments.length > 0
+              ? multipartBody(payload, post.attachments)
+              : JSON.stringify(payload),
+        }
+      );
+      handleOpenThread(thread);
+      setToast({ message: 'Post created!', type: 'success' });
+      return true;
+    } catch (error) {
+      console.error('Failed to create post:', error);
+      setToast({ message: 'Failed to create post', type: 'error' });
+      return false;
+    }
+  };
+
+  const handleSendThreadMessage = async (content: string) => {
+    if (!botUser || !openThreadId) return false;
+    const threadId = openThreadId;
+    try {
+      const sent = await authedFetch<Message>(activeBotId, `/channels/${threadId}/messages`, {
+        method: 'POST',
+        body: JSON.stringify({ content }),
+      });
+      if (!isChannelDetached(threadId)) {
+        setChannelMessages(threadId, (prev) => upsertMessage(prev, sent));
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to send thread message:', error);
+      setToast({ message: 'Failed to send message', type: 'error' });
+      return false;
+    }
+  };
+
+  const handleToggleThreadJoined = async () => {
+    if (!botUser || !openThread) return;
+    const thread = openThread;
+    try {
+      await authedFetch(activeBotId, `/channels/${thread.id}/thread-members/@me`, {
+        method: thread.member ? 'DELETE' : 'PUT',
+      });
+      // THREAD_MEMBERS_UPDATE only reaches bots with the GUILD_MEMBERS intent
+      const member: ThreadMember | undefined = thread.member
+        ? undefined
+        : {
+            id: thread.id,
+            user_id: botUser.id,
+            join_timestamp: new Date().toISOString(),
+            flags: 0,
+          };
+      setThreads((prev) => prev.map((t) => (t.id === thread.id ? { ...t, member } : t)));
+      setToast({
+        message: thread.member ? 'Left thread' : 'Joined thread',
+        type: 'success',
+      });
+    } catch (error) {
+      console.error('Failed to update thread membership:', error);
+      setToast({ message: 'Failed to update thread membership', type: 'error' });
+    }
+  };
+
+  const handleUpdateThread = async (changes: Partial<ThreadMetadata>) => {
+    if (!botUser || !openThreadId) return;
+    try {
+      const thread = await authedFetch<Channel>(activeBotId, `/channels/${openThreadId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      });
+      setThreads((prev) => upsertThreads(prev, [thread]));
+    } catch (error) {
+      console.error('Failed to update thread:', error);
+      setToast({ message: 'Failed to update thread', type: 'error' });
+    }
+  };
+
+  const handleToggleArchivedThreads = async (channelId: string) => {
+    const hideArchived = () =>
+      setThreadArchives((prev) => {
+        const next = { ...prev };
+        delete next[channelId];
+        return next;
+      });
+    if (threadArchives[channelId]) {
+      hideArchived();
+      return;
+    }
+    setThreadArchives((prev) => ({ ...prev, [channelId]: 'loading' }));
+    try {
+      const list = await authedFetch<ThreadList>(
+        activeBotId,
+        `/channels/${channelId}/threads/archived/public`
+      );
+      setThreads((prev) => upsertThreads(prev, withThreadMembers(list)));
+      setThreadArchives((prev) => ({ ...prev, [channelId]: 'loaded' }));
+    } catch (error) {
+      console.error('Failed to load archived threads:', error);
+      setToast({ message: 'Failed to load archived threads', type: 'error' });
+      hideArchived();
+    }
   };
 
   const handleUserClick = (user: User) => {
@@ -1903,7 +9812,7 @@ export default function DiscordClient() {
   };
 
   // Login Screen
-  if (!authToken || !botUser) {
+  if (!botUser) {
     return (
       <div className="fixed inset-0 flex items-center justify-center p-6">
         <div className="w-full max-w-md glass-strong rounded-lg p-8">
@@ -1917,20 +9826,63 @@ export default function DiscordClient() {
             Discord Bot Web Client with DM Support
           </p>
 
-          <form onSubmit={handleLogin} className="space-y-5">
-            <div>
-              <label className="block text-xs font-bold mb-2 text-white/80 uppercase">
-                Bot Token <span className="text-red-400">*</span>
-              </label>
-              <input
-                type="password"
-                placeholder="Enter your Discord bot token"
-                value={tokenInput}
-                onChange={(e) => setTokenInput(e.target.value)}
-                autoFocus
-                className="w-full glass rounded-[3px] px-3 py-2.5 text-[15px] text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/30 transition-colors"
-              />
-            </div>
+          <form onSubmit={session ? handleConnectBot : handleLogin} className="space-y-5">
+            {session ? (
+              <div>
+                <p className="text-sm text-white/80 mb-4">
+                  Signed in as <span className="font-semibold">{session.account.username}</span>.
+                  Connect a bot to become its admin, or ask an admin to add you to theirs.{' '}
+                  <button type="button" onClick={handleLogout} className="underline">
+                    Log out
+                  </button>
+                </p>
+                <label className="block text-xs font-bold mb-2 text-white/80 uppercase">
+                  Bot Token <span className="text-red-400">*</span>
+                </label>
+                <input
+                  type="password"
+                  placeholder="Enter your Discord bot token"
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
+                  autoFocus
+                  className="w-full glass rounded-[3px] px-3 py-2.5 text-[15px] text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/30 transition-colors"
+                />
+              </div>
+            ) : (
+              <>
+                {setupRequired && (
+                  <p className="text-sm text-white/80">
+                    Create the first BotClienty account. Bots you connect are shared with the
+                    accounts you add to their team.
+                  </p>
+                )}
+                <div>
+                  <label className="block text-xs font-bold mb-2 text-white/80 uppercase">
+                    Username <span className="text-red-400">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    autoComplete="username"
+                    value={usernameInput}
+                    onChange={(e) => setUsernameInput(e.target.value)}
+                    autoFocus
+                    className="w-full glass rounded-[3px] px-3 py-2.5 text-[15px] text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/30 transition-colors"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-bold mb-2 text-white/80 uppercase">
+                    Password <span className="text-red-400">*</span>
+                  </label>
+                  <input
+                    type="password"
+                    autoComplete={setupRequired ? 'new-password' : 'current-password'}
+                    value={passwordInput}
+                    onChange={(e) => setPasswordInput(e.target.value)}
+                    className="w-full glass rounded-[3px] px-3 py-2.5 text-[15px] text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-white/30 transition-colors"
+                  />
+                </div>
+              </>
+            )}
 
             {authError && (
               <div className="glass-light border border-red-400/50 p-3 rounded-[3px]">
@@ -1953,6 +9905,10 @@ export default function DiscordClient() {
                   <span className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
                   Authenticating...
                 </span>
+              ) : session ? (
+                'Connect Bot'
+              ) : setupRequired ? (
+                'Create Account'
               ) : (
                 'Log In'
               )}
@@ -2053,28 +10009,37 @@ export default function DiscordClient() {
   const selectedChannel = isDMView
     ? dmChannels.find((c) => c.id === selectedChannelId)
     : channels.find((c) => c.id === selectedChannelId);
-  const textChannels = channels.filter((c) => c.type === 0);
+  const selectedChannelPath = channelRoutePath({
+    isDM: isDMView,
+    guildId: selectedGuildId,
+    channelId: selectedChannelId,
+    messageId: null,
+  });
+  const renderChannelThreads = (channel: Channel) =>
+    !isForumChannel(channel) && (
+      <ChannelThreads
+        threads={threads.filter((thread) => thread.parent_id === channel.id)}
+        isChannelSelected={selectedChannelId === channel.id}
+        archiveState={threadArchives[channel.id]}
+        openThreadId={openThreadId}
+        onToggleArchived={() => handleToggleArchivedThreads(channel.id)}
+        onOpen={handleOpenThread}
+      />
+    );
+  // Threads start from messages in text and announcement channels
+  const canStartThreads =
+    canOperate && !isDMView && (selectedChannel?.type === 0 || selectedChannel?.type === 5);
+  const selectedForum =
+    !isDMView && selectedChannel && isForumChannel(selectedChannel) ? selectedChannel : null;
+  const isWebhookEditable = (message: Message) =>
+    !!message.webhook_id && !!findWebhook(message.webhook_id)?.token;
+  // Forum and media channels are listed among the text channels
+  const textChannels = channels.filter((c) => c.type === 0 || isForumChannel(c));
   const voiceChannels = channels.filter((c) => c.type === 2);
   const categories = channels.filter((c) => c.type === 4);
 
-  // Group messages by same author
-  const groupedMessages: Array<Message & { showHeader: boolean }> = messages.reduce(
-    (acc, message, index) => {
-      const prevMessage = messages[index - 1];
-      const showHeader =
-        !prevMessage ||
-        prevMessage.author.id !== message.author.id ||
-        new Date(message.timestamp).getTime() - new Date(prevMessage.timestamp).getTime() >
-          5 * 60 * 1000;
-
-      acc.push({ ...message, showHeader });
-      return acc;
-    },
-    [] as Array<Message & { showHeader: boolean }>
-  );
-
-  // Main app return
-  return (
+  // Main app
+  const app = (
     <div className="flex h-screen text-white relative">
       {/* Mobile Sidebar Overlay */}
       <div 
@@ -2083,12 +10048,66 @@ export default function DiscordClient() {
       />
       {/* Server Sidebar */}
       <nav className={`sidebar-container w-[72px] glass-dark flex flex-col items-center py-3 gap-2 overflow-y-auto ${isSidebarOpen ? 'open' : ''}`}>
+        {/* Bot Switcher */}
+        {session?.bots.map((bot) => {
+          const profile = botProfiles[bot.id];
+          if (!profile) return null;
+          const isActive = bot.id === activeBotId;
+          const status = gatewayStatuses[bot.id];
+          return (
+            <button
+              key={bot.id}
+              onClick={() => handleSwitchBot(bot.id)}
+              className="group relative w-12 h-12 flex-shrink-0 flex items-center justify-center"
+              title={`${profile.global_name || profile.username} (${bot.role})`}
+            >
+              <img
+                src={userAvatarUrl(profile)}
+                alt={profile.username}
+                className={`w-12 h-12 transition-all duration-200 ${
+                  isActive
+                    ? 'rounded-[16px]'
+                    : 'rounded-[24px] opacity-60 group-hover:opacity-100 group-hover:rounded-[16px]'
+                }`}
+              />
+              {status && (
+                <div
+                  className={`absolute -bottom-0.5 -right-0.5 w-3.5 h-3.5 border-[3px] border-[#1e1f22] rounded-full ${
+                    status === 'ready'
+                      ? 'bg-[#23a559]'
+                      : status === 'disconnected'
+                        ? 'bg-[#f23f43]'
+                        : 'bg-[#f0b232]'
+                  }`}
+                />
+              )}
+              {isActive ? (
+                <div className="absolute left-0 w-1 h-10 bg-white rounded-r-full -ml-[3px]" />
+              ) : (
+                <div className="absolute left-0 w-1 h-0 group-hover:h-5 bg-white rounded-r-full -ml-[3px] transition-all duration-200" />
+              )}
+            </button>
+          );
+        })}
+        <button
+          onClick={() => {
+            setAuthError(null);
+            setShowConnectBot(true);
+          }}
+          className="group relative w-12 h-12 rounded-[24px] bg-[#313338] flex items-center justify-center transition-all duration-200 hover:rounded-[16px] hover:bg-[#5865f2] text-[#b5bac1] hover:text-white"
+          title="Connect Another Bot"
+        >
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z" />
+          </svg>
+        </button>
+        <div className="w-8 h-[2px] bg-[#35363c] rounded-full my-1" />
+
         <button
           onClick={() => {
             setIsDMView(true);
             setSelectedGuildId(null);
             setSelectedChannelId(null);
-            setMessages([]);
           }}
           className={`group relative w-12 h-12 rounded-[24px] bg-[#313338] flex items-center justify-center transition-all duration-200 hover:rounded-[16px] hover:bg-[#5865f2] ${
             isDMView ? 'rounded-[16px] bg-[#5865f2]' : ''
@@ -2111,7 +10130,7 @@ export default function DiscordClient() {
         {/* User Search Button */}
         <button
           onClick={() => {
-            if (authToken && selectedGuildId) {
+            if (selectedGuildId) {
               setShowUserSearch(true);
               handleSearchUsers('');
             } else {
@@ -2141,7 +10160,6 @@ export default function DiscordClient() {
               setIsDMView(false);
               setSelectedGuildId(guild.id);
               setSelectedChannelId(null);
-              setMessages([]);
             }}
             className={`group relative w-12 h-12 rounded-[24px] overflow-hidden flex items-center justify-center transition-all duration-200 hover:rounded-[16px] ${
               selectedGuildId === guild.id && !isDMView ? 'rounded-[16px]' : ''
@@ -2188,7 +10206,7 @@ export default function DiscordClient() {
           <h2 className="font-semibold text-base truncate text-white">
             {isDMView ? 'Direct Messages' : selectedGuild?.name || 'BotClienty'}
           </h2>
-          <button 
+          <button
             onClick={() => setIsSidebarOpen(false)}
             className="md:hidden p-1 text-[#b5bac1] hover:text-[#dbdee1]"
           >
@@ -2255,7 +10273,9 @@ export default function DiscordClient() {
                 );
                 if (categoryChannels.length === 0) return null;
 
-                const textChannelsInCategory = categoryChannels.filter((c) => c.type === 0);
+                const textChannelsInCategory = categoryChannels.filter(
+                  (c) => c.type === 0 || isForumChannel(c)
+                );
                 const voiceChannelsInCategory = categoryChannels.filter((c) => c.type === 2);
 
                 return (
@@ -2275,25 +10295,29 @@ export default function DiscordClient() {
                     </div>
                     <div className="p-1 space-y-[1px]">
                       {textChannelsInCategory.map((channel) => (
-                        <button
-                          key={channel.id}
-                          onClick={() => setSelectedChannelId(channel.id)}
-                          className={`w-full text-left px-2 py-1 rounded-[4px] hover:bg-[#35363c] transition-colors flex items-center gap-2 group ${
-                            selectedChannelId === channel.id
-                              ? 'bg-[#404249] text-white'
-                              : 'text-[#949ba4] hover:text-[#dbdee1]'
-                          }`}
-                        >
-                          <span className="text-[#80848e] font-light text-lg">#</span>
-                          <span className="text-[14px] font-medium truncate flex-1">
-                            {channel.name}
-                          </span>
-                          {channel.nsfw && (
-                            <span className="text-[9px] bg-[#f23f43] text-white px-1 py-0.5 rounded font-bold">
-                              NSFW
+                        <React.Fragment key={channel.id}>
+                          <button
+                            onClick={() => setSelectedChannelId(channel.id)}
+                            className={`w-full text-left px-2 py-1 rounded-[4px] hover:bg-[#35363c] transition-colors flex items-center gap-2 group ${
+                              selectedChannelId === channel.id
+                                ? 'bg-[#404249] text-white'
+                                : 'text-[#949ba4] hover:text-[#dbdee1]'
+                            }`}
+                          >
+                            <span className="text-[#80848e] font-light text-lg">
+                              {getChannelTypeIcon(channel.type)}
                             </span>
-                          )}
-                        </button>
+                            <span className="text-[14px] font-medium truncate flex-1">
+                              {channel.name}
+                            </span>
+                            {channel.nsfw && (
+                              <span className="text-[9px] bg-[#f23f43] text-white px-1 py-0.5 rounded font-bold">
+                                NSFW
+                              </span>
+                            )}
+                          </button>
+                          {renderChannelThreads(channel)}
+                        </React.Fragment>
                       ))}
                       {voiceChannelsInCategory.map((channel) => (
                         <button
@@ -2324,25 +10348,29 @@ export default function DiscordClient() {
                   <div className="mb-4 bg-[#2e3035]/20 rounded-lg overflow-hidden border border-[#1e1f22]/30 shadow-sm mx-1">
                     <div className="p-1 space-y-[1px]">
                       {uncategorizedTextChannels.map((channel) => (
-                        <button
-                          key={channel.id}
-                          onClick={() => setSelectedChannelId(channel.id)}
-                          className={`w-full text-left px-2 py-1 rounded-[4px] hover:bg-[#35363c] transition-colors flex items-center gap-2 group ${
-                            selectedChannelId === channel.id
-                              ? 'bg-[#404249] text-white'
-                              : 'text-[#949ba4] hover:text-[#dbdee1]'
-                          }`}
-                        >
-                          <span className="text-[#80848e] font-light text-lg">#</span>
-                          <span className="text-[14px] font-medium truncate flex-1">
-                            {channel.name}
-                          </span>
-                          {channel.nsfw && (
-                            <span className="text-[9px] bg-[#f23f43] text-white px-1 py-0.5 rounded font-bold">
-                              NSFW
+                        <React.Fragment key={channel.id}>
+                          <button
+                            onClick={() => setSelectedChannelId(channel.id)}
+                            className={`w-full text-left px-2 py-1 rounded-[4px] hover:bg-[#35363c] transition-colors flex items-center gap-2 group ${
+                              selectedChannelId === channel.id
+                                ? 'bg-[#404249] text-white'
+                                : 'text-[#949ba4] hover:text-[#dbdee1]'
+                            }`}
+                          >
+                            <span className="text-[#80848e] font-light text-lg">
+                              {getChannelTypeIcon(channel.type)}
                             </span>
-                          )}
-                        </button>
+                            <span className="text-[14px] font-medium truncate flex-1">
+                              {channel.name}
+                            </span>
+                            {channel.nsfw && (
+                              <span className="text-[9px] bg-[#f23f43] text-white px-1 py-0.5 rounded font-bold">
+                                NSFW
+                              </span>
+                            )}
+                          </button>
+                          {renderChannelThreads(channel)}
+                        </React.Fragment>
                       ))}
                       {uncategorizedVoiceChannels.map((channel) => (
                         <button
@@ -2372,7 +10400,16 @@ export default function DiscordClient() {
                 alt={botUser.username}
                 className="w-8 h-8 rounded-full"
               />
-              <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-[#23a559] border-[3px] border-[#232428] rounded-full" />
+              <div
+                className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 border-[3px] border-[#232428] rounded-full ${
+                  gatewayStatus === 'ready'
+                    ? 'bg-[#23a559]'
+                    : gatewayStatus === 'disconnected'
+                      ? 'bg-[#f23f43]'
+                      : 'bg-[#f0b232]'
+                }`}
+                title={`Gateway: ${gatewayStatus}`}
+              />
             </div>
             <div className="flex-1 min-w-0">
               <p className="font-semibold text-sm text-white truncate leading-[18px]">
@@ -2380,8 +10417,49 @@ export default function DiscordClient() {
               </p>
               <p className="text-xs text-[#b5bac1] truncate leading-[13px]">
                 #{botUser.discriminator}
+                {session && ` · ${session.account.username} (${teamRole})`}
               </p>
             </div>
+            {teamRole === 'admin' && (
+              <>
+                <button
+                  onClick={() => setShowAuditLog(true)}
+                  className="flex-shrink-0 p-1 hover:bg-[#4e505899] rounded transition-colors"
+                  title="Audit Log"
+                >
+                  <svg className="w-5 h-5 text-[#b5bac1]" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M14 2H6c-1.1 0-2 .9-2 2v16c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2V8l-6-6zm2 16H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => setShowTeamPanel(true)}
+                  className="flex-shrink-0 p-1 hover:bg-[#4e505899] rounded transition-colors"
+                  title="Team"
+                >
+                  <svg className="w-5 h-5 text-[#b5bac1]" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M16 11c1.66 0 2.99-1.34 2.99-3S17.66 5 16 5c-1.66 0-3 1.34-3 3s1.34 3 3 3zm-8 0c1.66 0 2.99-1.34 2.99-3S9.66 5 8 5C6.34 5 5 6.34 5 8s1.34 3 3 3zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5c0-2.33-4.67-3.5-7-3.5zm8 0c-.29 0-.62.02-.97.05 1.16.84 1.97 1.97 1.97 3.45V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z" />
+                  </svg>
+                </button>
+              </>
+            )}
+            <button
+              onClick={() => setShowCommands(true)}
+              className="flex-shrink-0 p-1 hover:bg-[#4e505899] rounded transition-colors"
+              title="Commands"
+            >
+              <svg className="w-5 h-5 text-[#b5bac1]" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M5 3h14a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2zm0 2v14h14V5H5zm9.2 2.6 1.6.8-4 9-1.6-.8 4-9z" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowScheduler(true)}
+              className="flex-shrink-0 p-1 hover:bg-[#4e505899] rounded transition-colors"
+              title="Scheduled Messages"
+            >
+              <svg className="w-5 h-5 text-[#b5bac1]" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M17 12h-5v5h5v-5zM16 1v2H8V1H6v2H5c-1.11 0-1.99.9-1.99 2L3 19c0 1.1.89 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2h-1V1h-2zm3 18H5V8h14v11z" />
+              </svg>
+            </button>
             <button
               onClick={handleLogout}
               className="flex-shrink-0 p-1 hover:bg-[#4e505899] rounded transition-colors"
@@ -2476,6 +10554,34 @@ export default function DiscordClient() {
           </div>
           {selectedChannel && !isDMView && (
             <div className="flex items-center gap-1">
+              {!selectedForum && (
+                <div className="relative">
+                  <button
+                    onClick={() => setShowPins(!showPins)}
+                    className={`p-1 transition-colors ${
+                      showPins ? 'text-[#dbdee1]' : 'text-[#b5bac1] hover:text-[#dbdee1]'
+                    }`}
+                    title="Pinned Messages"
+                  >
+                    <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M16 9V4h1c.55 0 1-.45 1-1s-.45-1-1-1H7c-.55 0-1 .45-1 1s.45 1 1 1h1v5c0 1.66-1.34 3-3 3v2h5.97v7l1 1 1-1v-7H19v-2c-1.66 0-3-1.34-3-3z" />
+                    </svg>
+                  </button>
+                  {showPins && (
+                    <PinsPanel
+                      channel={selectedChannel}
+                      refreshKey={pinsVersions[selectedChannel.id] ?? 0}
+                      canUnpin={canModerate}
+                      onJump={(messageId) => {
+                        setShowPins(false);
+                        handleJumpToMessage(messageId);
+                      }}
+                      onUnpin={(message) => handleTogglePin({ ...message, pinned: true })}
+                      onClose={() => setShowPins(false)}
+                    />
+                  )}
+                </div>
+              )}
               <button
                 onClick={() => setShowMemberList(!showMemberList)}
                 className="p-1 text-[#b5bac1] hover:text-[#dbdee1] transition-colors"
@@ -2485,6 +10591,20 @@ export default function DiscordClient() {
                   <path d="M16 11c1.66 0 2.99-1.34 2.99-3S17.66 5 16 5c-1.66 0-3 1.34-3 3s1.34 3 3 3zm-8 0c1.66 0 2.99-1.34 2.99-3S9.66 5 8 5C6.34 5 5 6.34 5 8s1.34 3 3 3zm0 2c-2.33 0-7 1.17-7 3.5V19h14v-2.5c0-2.33-4.67-3.5-7-3.5zm8 0c-.29 0-.62.02-.97.05-1.3.15.33.58.7.95 1.24.95V19h6v-2.5c0-2.33-4.67-3.5-7-3.5z" />
                 </svg>
               </button>
+              {canOperate && (
+                <button
+                  onClick={() => {
+                    loadWebhooks(selectedChannel.id);
+                    setShowWebhooks(true);
+                  }}
+                  className="p-1 text-[#b5bac1] hover:text-[#dbdee1] transition-colors"
+                  title="Webhooks"
+                >
+                  <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 24 24">
+                    <path d="M10 4a4 4 0 0 0-2 7.46V14a1 1 0 1 0 2 0v-3.1a1 1 0 0 0-.56-.9A2 2 0 1 1 12 8a1 1 0 1 0 2 0 4 4 0 0 0-4-4zm6.5 8a1 1 0 0 0-.87 1.5l1.73 3a2 2 0 1 1-3.36 2.1 1 1 0 1 0-1.72 1.02A4 4 0 1 0 19 16.5l-1.63-2.82A1 1 0 0 0 16.5 12zM6 15a4 4 0 1 0 4 5h3.5a1 1 0 1 0 0-2H9.2a1 1 0 0 0-.98.8A2 2 0 1 1 6 17a1 1 0 1 0 0-2z" />
+                  </svg>
+                </button>
+              )}
               <button
                 onClick={() => setShowChannelInfo(!showChannelInfo)}
                 className="p-1 text-[#b5bac1] hover:text-[#dbdee1] transition-colors"
@@ -2499,156 +10619,550 @@ export default function DiscordClient() {
         </header>
 
         {/* Messages Container */}
-        <div className="flex-1 overflow-y-auto">
-          {isLoading ? (
-            <div className="flex justify-center items-center h-full">
-              <div className="text-center">
-                <div className="w-12 h-12 border-4 border-[#1e1f22] border-t-[#5865f2] rounded-full animate-spin mx-auto mb-4" />
-                <p className="text-[#b5bac1]">Loading messages...</p>
+        {selectedForum ? (
+          <ForumView
+            key={`${activeBotId}:${selectedForum.id}`}
+            channel={selectedForum}
+            posts={threads.filter((thread) => thread.parent_id === selectedForum.id)}
+            archiveState={threadArchives[selectedForum.id]}
+            openThreadId={openThreadId}
+            canOperate={canOperate}
+            onOpen={handleOpenThread}
+            onToggleArchived={() => handleToggleArchivedThreads(selectedForum.id)}
+            onCreatePost={handleCreateForumPost}
+          />
+        ) : isLoading || messages.length === 0 ? (
+          <div className="flex-1 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex justify-center items-center h-full">
+                <div className="text-center">
+                  <div className="w-12 h-12 border-4 border-[#1e1f22] border-t-[#5865f2] rounded-full animate-spin mx-auto mb-4" />
+                  <p className="text-[#b5bac1]">Loading messages...</p>
+                </div>
               </div>
-            </div>
-          ) : messages.length === 0 ? (
-            <div className="flex items-center justify-center h-full px-4">
-              <div className="text-center max-w-md">
-                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-[#2b2d31] flex items-center justify-center text-3xl">
-                  💬
+            ) : (
+              <div className="flex items-center justify-center h-full px-4">
+                <div className="text-center max-w-md">
+                  <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-[#2b2d31] flex items-center justify-center text-3xl">
+                    💬
+                  </div>
+                  <h3 className="text-base font-semibold mb-1 text-[#f2f3f5]">
+                    {selectedChannel
+                      ? isDMView
+                        ? `This is the beginning of your direct message history with @${selectedChannel.recipients?.[0]?.username || 'user'}.`
+                        : `Welcome to #${selectedChannel.name}!`
+                      : 'No channel selected'}
+                  </h3>
+                  <p className="text-sm text-[#b5bac1]">
+                    {selectedChannel && 'Be the first to send a message!'}
+                  </p>
                 </div>
-                <h3 className="text-base font-semibold mb-1 text-[#f2f3f5]">
-                  {selectedChannel
-                    ? isDMView
-                      ? `This is the beginning of your direct message history with @${selectedChannel.recipients?.[0]?.username || 'user'}.`
-                      : `Welcome to #${selectedChannel.name}!`
-                    : 'No channel selected'}
-                </h3>
-                <p className="text-sm text-[#b5bac1]">
-                  {selectedChannel && 'Be the first to send a message!'}
-                </p>
               </div>
-            </div>
-          ) : (
-            <div className="py-4">
-              {groupedMessages.map((message) => (
+            )}
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col relative">
+            <MessageList
+              key={`${activeBotId}:${selectedChannelId}`}
+              ref={messageListRef}
+              messages={groupedMessages}
+              header={
+                reachedChannelStart ? (
+                  <div className="px-4 pt-8 pb-4 mb-2 border-b border-[#3f4147]">
+                    <div className="w-16 h-16 mb-2 rounded-full bg-[#41434a] flex items-center justify-center text-3xl">
+                      {isDMView ? '💬' : '#'}
+                    </div>
+                    <h3 className="text-2xl font-bold text-white mb-1">
+                      {isDMView
+                        ? `@${selectedChannel?.recipients?.[0]?.username || 'user'}`
+                        : `Welcome to #${selectedChannel?.name || 'channel'}!`}
+                    </h3>
+                    <p className="text-sm text-[#b5bac1]">
+                      {isDMView
+                        ? 'This is the beginning of your direct message history.'
+                        : 'This is the beginning of the channel.'}
+                    </p>
+                  </div>
+                ) : (
+                  loadingHistory?.channelId === selectedChannelId &&
+                  loadingHistory.direction === 'older' && (
+                    <div className="flex justify-center py-2">
+                      <div className="w-6 h-6 border-2 border-[#1e1f22] border-t-[#5865f2] rounded-full animate-spin" />
+                    </div>
+                  )
+                )
+              }
+              footer={
+                loadingHistory?.channelId === selectedChannelId &&
+                loadingHistory.direction === 'newer' && (
+                  <div className="flex justify-center py-2">
+                    <div className="w-6 h-6 border-2 border-[#1e1f22] border-t-[#5865f2] rounded-full animate-spin" />
+                  </div>
+                )
+              }
+              renderMessage={(message) => (
                 <MessageComponent
-                  key={message.id}
                   message={message}
                   currentUser={botUser}
-                  onEdit={handleEditMessage}
-                  onDelete={handleDeleteMessage}
+                  onEdit={canOperate ? handleEditMessage : undefined}
+                  onDelete={canModerate ? handleDeleteMessage : undefined}
                   onUserClick={handleUserClick}
-                  onAddReaction={handleAddReaction}
+                  onReact={canOperate ? handleReact : undefined}
+                  onRemoveReactions={canModerate ? handleRemoveReactions : undefined}
+                  customEmojis={emojis}
                   showHeader={message.showHeader}
+                  channelPath={selectedChannelPath}
+                  highlighted={message.id === highlightedMessageId}
+                  onReply={canOperate ? handleReply : undefined}
+                  referencedMessage={referencedMessageOf(message)}
+                  onLoadReference={loadReferencedMessage}
+                  onJumpToMessage={handleJumpToMessage}
+                  onCreateThread={canStartThreads ? handleCreateThread : undefined}
+                  onOpenThread={handleOpenThread}
+                  webhookEditable={isWebhookEditable(message)}
+                  onTogglePin={canModerate ? handleTogglePin : undefined}
+                  onShowPins={() => setShowPins(true)}
                 />
-              ))}
-              <div ref={messagesEndRef} />
-            </div>
-          )}
-        </div>
+              )}
+              onReachTop={() => selectedChannelId && loadOlderMessages(selectedChannelId)}
+              onReachBottom={() => selectedChannelId && loadNewerMessages(selectedChannelId)}
+            />
+            {channelDetached && (
+              <button
+                onClick={handleJumpToPresent}
+                className="absolute bottom-2 left-1/2 -translate-x-1/2 px-4 py-1.5 rounded-full bg-[#5865f2] hover:bg-[#4752c4] text-white text-sm font-medium shadow-lg transition-colors"
+              >
+                You are viewing older messages · Jump to present
+              </button>
+            )}
+          </div>
+        )}
 
         {/* Message Composer */}
-        <div className="px-4 pb-6">
-          {/* Typing indicator */}
-          {isTyping && typingUsers.length > 0 && (
-            <div className="mb-2 px-4 py-1">
-              <span className="text-xs text-[#b5bac1] flex items-center gap-1">
-                <span className="flex items-center gap-0.5">
-                  <span
-                    className="w-1.5 h-1.5 bg-[#b5bac1] rounded-full animate-bounce"
-                    style={{ animationDelay: '0ms' }}
+        {!selectedForum && (
+          <div className="px-4 pb-6">
+            {/* Typing indicator */}
+            {isTyping && typingUsers.length > 0 && (
+              <div className="mb-2 px-4 py-1">
+                <span className="text-xs text-[#b5bac1] flex items-center gap-1">
+                  <span className="flex items-center gap-0.5">
+                    <span
+                      className="w-1.5 h-1.5 bg-[#b5bac1] rounded-full animate-bounce"
+                      style={{ animationDelay: '0ms' }}
+                    />
+                    <span
+                      className="w-1.5 h-1.5 bg-[#b5bac1] rounded-full animate-bounce"
+                      style={{ animationDelay: '150ms' }}
+                    />
+                    <span
+                      className="w-1.5 h-1.5 bg-[#b5bac1] rounded-full animate-bounce"
+                      style={{ animationDelay: '300ms' }}
+                    />
+                  </span>
+                  <span>
+                    {typingUsers.length === 1
+                      ? 'Someone is typing...'
+                      : `${typingUsers.length} people are typing...`}
+                  </span>
+                </span>
+              </div>
+            )}
+
+            <form onSubmit={handleSendMessage} className="relative">
+              {showAutocomplete && autocompleteQuery && (
+                <ComposerAutocomplete
+                  ref={autocompleteRef}
+                  query={autocompleteQuery}
+                  guildId={isDMView ? null : selectedGuildId}
+                  members={isDMView ? [] : members}
+                  roles={isDMView ? [] : roles}
+                  channels={isDMView ? [] : [...channels, ...threads]}
+                  guildEmojis={isDMView ? [] : emojis}
+                  onPick={handlePickAutocomplete}
+                  onDismiss={() => setDismissedAutocompleteAt(autocompleteQuery.start)}
+                />
+              )}
+              <div className="bg-[#383a40] rounded-lg px-4 py-3">
+                {pendingAttachments.length > 0 && (
+                  <PendingAttachmentList
+                    attachments={pendingAttachments}
+                    onRemove={handleRemoveAttachment}
+                    onUpdate={handleUpdateAttachment}
                   />
-                  <span
-                    className="w-1.5 h-1.5 bg-[#b5bac1] rounded-full animate-bounce"
-                    style={{ animationDelay: '150ms' }}
+                )}
+                {composedEmbeds && (
+                  <EmbedBuilder
+                    embeds={composedEmbeds}
+                    content={messageInput}
+                    onChange={setComposedEmbeds}
+                    onImport={({ content, embeds }) => {
+                      setMessageInput(content);
+                      setComposedEmbeds(embeds);
+                    }}
                   />
-                  <span
-                    className="w-1.5 h-1.5 bg-[#b5bac1] rounded-full animate-bounce"
-                    style={{ animationDelay: '300ms' }}
+                )}
+                {composedComponents && (
+                  <ComponentsComposer rows={composedComponents} onChange={setComposedComponents} />
+                )}
+                {sendAs && selectedChannelId && (
+                  <SendAsBar
+                    webhooks={channelWebhooks[selectedChannelId]}
+                    threads={threads.filter((thread) => thread.parent_id === selectedChannelId)}
+                    sendAs={sendAs}
+                    onChange={setSendAs}
+                    onClose={() => setSendAs(null)}
                   />
-                </span>
-                <span>
-                  {typingUsers.length === 1
-                    ? 'Someone is typing...'
-                    : `${typingUsers.length} people are typing...`}
-                </span>
-              </span>
-            </div>
-          )}
-
-          <form onSubmit={handleSendMessage}>
-            <div className="bg-[#383a40] rounded-lg px-4 py-3 flex items-center gap-2">
-              <button
-                type="button"
-                className="text-[#b5bac1] hover:text-[#dbdee1] transition-colors flex-shrink-0"
-                title="Add attachment"
-              >
-                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm5 11h-4v4h-2v-4H7v-2h4V7h2v4h4v2z" />
-                </svg>
-              </button>
-              <input
-                type="text"
-                value={messageInput}
-                onChange={(e) => {
-                  setMessageInput(e.target.value);
-                  // Simulate typing indicator when typing
-                  if (e.target.value.length > 0 && !isTyping) {
-                    setIsTyping(true);
-                    setTypingUsers(['Someone']);
-                    setTimeout(() => {
-                      setIsTyping(false);
-                      setTypingUsers([]);
-                    }, 3000);
-                  }
-                }}
-                onKeyDown={(e) => {
-                  if (e.key === 'Enter' && !e.shiftKey) {
-                    e.preventDefault();
-                    handleSendMessage(e);
-                  }
-                }}
-                placeholder={
-                  selectedChannelId
-                    ? isDMView
-                      ? `Message @${selectedChannel?.recipients?.[0]?.username || 'user'}`
-                      : `Message #${selectedChannel?.name || 'channel'}`
-                    : 'Select a channel first'
-                }
-                disabled={!selectedChannelId}
-                className="flex-1 bg-transparent text-[#dbdee1] text-[15px] placeholder-[#87898c] focus:outline-none"
-              />
-              <button
-                type="button"
-                className="text-[#b5bac1] hover:text-[#dbdee1] transition-colors flex-shrink-0"
-                title="GIFs"
-              >
-                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-                  <path d="M11.5 9H13v6h-1.5zM9 9H6c-.6 0-1 .5-1 1v4c0 .5.4 1 1 1h3v2H6c-1.1 0-2-.9-2-2V10c0-1.1.9-2 2-2h3v-1zm5 5H13V9h1c.6 0 1 .5 1 1v4c0 .5-.4 1-1 1h1v2h-1c-1.1 0-2-.9-2-2V10c0-1.1.9-2 2-2z" />
-                </svg>
-              </button>
-            <button
-              onClick={() => setShowEmojiPicker(!showEmojiPicker)}
-              className="p-1 text-[#b5bac1] hover:text-[#dbdee1] transition-colors flex-shrink-0"
-              title="Emojis"
-            >
-              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
-                <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8zm3.5-9c.83 0 1.5-.67 1.5-1.5S16.33 8 15.5 8 14 8.67 14 9.5s.67 1.5 1.5 1.5zm-7 0c.83 0 1.5-.67 1.5-1.5S9.33 8 8.5 8 7 8.67 7 9.5 7.67 11 8.5 11zm3.5 6.5c2.33 0 4.31-1.46 5.11-3.5H6.89c.8 2.04 2.78 3.5 5.11 3.5z" />
-              </svg>
-            </button>
-            {showEmojiPicker && (
-              <EmojiPicker
-                onSelect={(emoji) => {
-                  setMessageInput((prev) => prev + emoji);
-                  setShowEmojiPicker(false);
-                }}
-                onClose={() => setShowEmojiPicker(false)}
-              />
-            )}
+                )}
+                {replyingTo && (
+                  <div className="flex items-center justify-between gap-2 -mx-4 -mt-3 mb-3 px-4 py-2 bg-[#2b2d31] rounded-t-lg text-sm text-[#b5bac1]">
+                    <span className="truncate">
+                      Replying to{' '}
+                      <span className="font-semibold text-[#f2f3f5]">
+                        {formatUser(replyingTo.author)}
+                      </span>
+                    </span>
+                    <div className="flex items-center gap-3 flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          handleChangeSendOptions({
+                            ...sendOptions,
+                            mentionRepliedUser: !sendOptions.mentionRepliedUser,
+                          })
+                        }
+                        className={`text-xs font-bold transition-colors ${
+                          sendOptions.mentionRepliedUser
+                            ? 'text-[#00a8fc]'
+                            : 'text-[#949ba4] hover:text-[#dbdee1]'
+                        }`}
+                        title={
+                          sendOptions.mentionRepliedUser
+                            ? 'The author will be pinged'
+                            : 'The author will not be pinged'
+                        }
+                      >
+                        @ {sendOptions.mentionRepliedUser ? 'ON' : 'OFF'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={handleCancelReply}
+                        className="text-[#b5bac1] hover:text-[#dbdee1] transition-colors"
+                        title="Cancel reply"
+                      >
+                        <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                          <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {showFormatting && (
+                  <FormattingToolbar
+                    inputRef={composerInputRef}
+                    value={messageInput}
+                    showPreview={showComposerPreview}
+                    onEdit={applyComposerEdit}
+                    onTogglePreview={() => setShowComposerPreview(!showComposerPreview)}
+                  />
+                )}
+                {showFormatting && showComposerPreview && (
+                  <div className="mb-2 pb-2 border-b border-[#4e5058] max-h-64 overflow-y-auto whitespace-pre-wrap break-words text-[15px] text-[#dbdee1]">
+                    {composedContent.trim() ? (
+                      parseDiscordMarkdown(composedContent)
+                    ) : (
+                      <span className="text-sm text-[#949ba4] italic">Nothing to preview</span>
+                    )}
+                  </div>
+                )}
+                {sendOptionsSummary(sendOptions).length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-2">
+                    {sendOptionsSummary(sendOptions).map((label) => (
+                      <span
+                        key={label}
+                        className="px-1.5 py-0.5 rounded bg-[#2b2d31] text-xs text-[#b5bac1]"
+                      >
+                        {label}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="flex items-end gap-2">
+                  <button
+                    type="button"
+                    onClick={() => attachmentInputRef.current?.click()}
+                    disabled={!selectedChannelId || !canOperate}
+                    className="text-[#b5bac1] hover:text-[#dbdee1] transition-colors flex-shrink-0"
+                    title="Add attachment"
+                  >
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm5 11h-4v4h-2v-4H7v-2h4V7h2v4h4v2z" />
+                    </svg>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setComposedEmbeds(composedEmbeds ? null : [{}])}
+                    disabled={!selectedChannelId || !canOperate}
+                    className={`transition-colors flex-shrink-0 ${
+                      composedEmbeds ? 'text-[#dbdee1]' : 'text-[#b5bac1] hover:text-[#dbdee1]'
+                    }`}
+                    title={composedEmbeds ? 'Discard embeds' : 'Add embeds'}
+                  >
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M4 3h16a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2zm0 2v14h16V5H4zm2 0v14H4V5h2zm3 3h8v2H9V8zm0 4h8v2H9v-2z" />
+                    </svg>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setComposedComponents(
+                        composedComponents
+                          ? null
+                          : [{ type: COMPONENT_TYPES.ACTION_ROW, components: [] }]
+                      )
+                    }
+                    disabled={!selectedChannelId || !canOperate}
+                    className={`transition-colors flex-shrink-0 ${
+                      composedComponents ? 'text-[#dbdee1]' : 'text-[#b5bac1] hover:text-[#dbdee1]'
+                    }`}
+                    title={composedComponents ? 'Discard components' : 'Add buttons and menus'}
+                  >
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M4 5h16a2 2 0 0 1 2 2v3a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V7a2 2 0 0 1 2-2zm0 2v3h16V7H4zm0 7h7a2 2 0 0 1 2 2v1a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2v-1a2 2 0 0 1 2-2zm11 0h5a2 2 0 0 1 2 2v1a2 2 0 0 1-2 2h-5a2 2 0 0 1-2-2v-1a2 2 0 0 1 2-2z" />
+                    </svg>
+                  </button>
+                  {!isDMView && (
+                    <button
+                      type="button"
+                      onClick={handleToggleSendAs}
+                      disabled={!selectedChannelId || !canOperate}
+                      className={`transition-colors flex-shrink-0 ${
+                        sendAs ? 'text-[#dbdee1]' : 'text-[#b5bac1] hover:text-[#dbdee1]'
+                      }`}
+                      title={sendAs ? 'Send as the bot' : 'Send as a webhook'}
+                    >
+                      <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M12 2a5 5 0 1 1 0 10 5 5 0 0 1 0-10zm0 2a3 3 0 1 0 0 6 3 3 0 0 0 0-6zm0 10c4.42 0 8 1.79 8 4v2H4v-2c0-2.21 3.58-4 8-4zm0 2c-3.1 0-5.4 1.1-5.94 2h11.88c-.54-.9-2.84-2-5.94-2z" />
+                      </svg>
+                    </button>
+                  )}
+                  <input
+                    ref={attachmentInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      if (e.target.files) handleAddAttachments(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                  <textarea
+                    ref={composerInputRef}
+                    rows={1}
+                    value={messageInput}
+                    onPaste={(e) => {
+                      if (e.clipboardData.files.length > 0) {
+                        e.preventDefault();
+                        handleAddAttachments(e.clipboardData.files);
+                      }
+                    }}
+                    onChange={(e) => {
+                      setMessageInput(e.target.value);
+                      setComposerCaret(e.target.selectionStart ?? e.target.value.length);
+                      // An edited message is a new one, not a retry
+                      sendNonceRef.current = null;
+                      // Simulate typing indicator when typing
+                      if (e.target.value.length > 0 && !isTyping) {
+                        setIsTyping(true);
+                        setTypingUsers(['Someone']);
+                        setTimeout(() => {
+                          setIsTyping(false);
+                          setTypingUsers([]);
+                        }, 3000);
+                      }
+                    }}
+                    onSelect={(e) => setComposerCaret(e.currentTarget.selectionStart ?? 0)}
+                    onKeyDown={(e) => {
+                      if (showAutocomplete && autocompleteRef.current?.handleKeyDown(e)) {
+                        e.preventDefault();
+                        return;
+                      }
+                      const formatted = formattingShortcut(e);
+                      if (formatted) {
+                        e.preventDefault();
+                        applyComposerEdit(formatted);
+                        return;
+                      }
+                      // Shift+Enter, and Enter while composing with an IME, add a line
+                      if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                        e.preventDefault();
+                        handleSendMessage(e);
+                      }
+                    }}
+                    placeholder={
+                      !canOperate
+                        ? 'You have read-only access to this bot'
+                        : selectedChannelId
+                          ? isDMView
+                            ? `Message @${selectedChannel?.recipients?.[0]?.username || 'user'}`
+                            : `Message #${selectedChannel?.name || 'channel'}`
+                          : 'Select a channel first'
+                    }
+                    disabled={!selectedChannelId || !canOperate}
+                    className="flex-1 min-w-0 bg-transparent text-[#dbdee1] text-[15px] leading-[1.375rem] placeholder-[#87898c] focus:outline-none resize-none"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowFormatting(!showFormatting)}
+                    disabled={!selectedChannelId || !canOperate}
+                    className={`text-sm font-semibold transition-colors flex-shrink-0 ${
+                      showFormatting ? 'text-[#dbdee1]' : 'text-[#b5bac1] hover:text-[#dbdee1]'
+                    }`}
+                    title={showFormatting ? 'Hide formatting' : 'Formatting and preview'}
+                  >
+                    Aa
+                  </button>
+                  <div className="relative flex-shrink-0 flex">
+                    <button
+                      type="button"
+                      onClick={() => setShowSendOptions(!showSendOptions)}
+                      disabled={!selectedChannelId || !canOperate}
+                      className={`transition-colors ${
+                        showSendOptions || sendOptionsSummary(sendOptions).length > 0
+                          ? 'text-[#dbdee1]'
+                          : 'text-[#b5bac1] hover:text-[#dbdee1]'
+                      }`}
+                      title="Send options"
+                    >
+                      <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M12 22a2 2 0 0 0 2-2h-4a2 2 0 0 0 2 2zm6-6v-5c0-3.07-1.64-5.64-4.5-6.32V4a1.5 1.5 0 0 0-3 0v.68C7.63 5.36 6 7.92 6 11v5l-2 2v1h16v-1l-2-2z" />
+                      </svg>
+                    </button>
+                    {showSendOptions && (
+                      <SendOptionsMenu
+                        options={sendOptions}
+                        isWebhook={!!sendAs}
+                        onChange={handleChangeSendOptions}
+                        onClose={() => setShowSendOptions(false)}
+                      />
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleOpenScheduleDialog}
+                    disabled={!selectedChannelId || !canOperate || !!sendAs}
+                    className="text-[#b5bac1] hover:text-[#dbdee1] disabled:opacity-50 disabled:hover:text-[#b5bac1] transition-colors flex-shrink-0"
+                    title={sendAs ? 'Scheduled messages are sent as the bot' : 'Schedule message'}
+                  >
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M11.99 2C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67z" />
+                    </svg>
+                  </button>
+                  <button
+                    type="button"
+                    className="text-[#b5bac1] hover:text-[#dbdee1] transition-colors flex-shrink-0"
+                    title="GIFs"
+                  >
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M11.5 9H13v6h-1.5zM9 9H6c-.6 0-1 .5-1 1v4c0 .5.4 1 1 1h3v2H6c-1.1 0-2-.9-2-2V10c0-1.1.9-2 2-2h3v-1zm5 5H13V9h1c.6 0 1 .5 1 1v4c0 .5-.4 1-1 1h1v2h-1c-1.1 0-2-.9-2-2V10c0-1.1.9-2 2-2z" />
+                    </svg>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowEmojiPicker(!showEmojiPicker)}
+                    className="p-1 text-[#b5bac1] hover:text-[#dbdee1] transition-colors flex-shrink-0"
+                    title="Emojis"
+                  >
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24">
+                      <path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm0 18c-4.41 0-8-3.59-8-8s3.59-8 8-8 8 3.59 8 8-3.59 8-8 8zm3.5-9c.83 0 1.5-.67 1.5-1.5S16.33 8 15.5 8 14 8.67 14 9.5s.67 1.5 1.5 1.5zm-7 0c.83 0 1.5-.67 1.5-1.5S9.33 8 8.5 8 7 8.67 7 9.5 7.67 11 8.5 11zm3.5 6.5c2.33 0 4.31-1.46 5.11-3.5H6.89c.8 2.04 2.78 3.5 5.11 3.5z" />
+                    </svg>
+                  </button>
+                  {showEmojiPicker && (
+                    <>
+                      <div
+                        className="fixed inset-0 z-40"
+                        onClick={() => setShowEmojiPicker(false)}
+                      />
+                      <EmojiPicker
+                        guildEmojis={emojis}
+                        className="fixed bottom-24 right-4"
+                        onSelect={(emoji) => {
+                          // Custom emoji show by name, like mentions
+                          if (emoji.id) insertIntoComposer(emoji.label, emoji.text);
+                          else insertIntoComposer(emoji.text);
+                          setShowEmojiPicker(false);
+                        }}
+                        onClose={() => setShowEmojiPicker(false)}
+                      />
+                    </>
+                  )}
+                </div>
+                {(showFormatting ||
+                  composedContent.length > MESSAGE_CONTENT_LIMIT - CONTENT_COUNTER_THRESHOLD) && (
+                  <div
+                    className={`text-right text-xs mt-1 ${
+                      contentOverLimit ? 'text-[#f23f43] font-semibold' : 'text-[#949ba4]'
+                    }`}
+                  >
+                    {contentOverLimit
+                      ? `${MESSAGE_CONTENT_LIMIT - composedContent.length}`
+                      : `${composedContent.length} / ${MESSAGE_CONTENT_LIMIT}`}
+                  </div>
+                )}
+              </div>
+            </form>
           </div>
-        </form>
-      </div>
-    </main>
+        )}
+      </main>
+
+      {/* Right Sidebar - Thread */}
+      {openThread && (
+        <ThreadPanel
+          thread={openThread}
+          messages={messagesByChannel[openThread.id] || NO_MESSAGES}
+          isLoading={isLoadingThread}
+          canOperate={canOperate}
+          canModerate={canModerate}
+          renderMessage={(message) => (
+            <MessageComponent
+              message={message}
+              currentUser={botUser}
+              onEdit={canOperate ? (m) => handleEditMessage(m, openThread.id) : undefined}
+              onDelete={canModerate ? (id) => handleDeleteMessage(id, openThread.id) : undefined}
+              onUserClick={handleUserClick}
+              onReact={
+                canOperate
+                  ? (id, emoji, options) => handleReact(id, emoji, options, openThread.id)
+                  : undefined
+              }
+              onRemoveReactions={
+                canModerate
+                  ? (id, emoji, userId) => handleRemoveReactions(id, emoji, userId, openThread.id)
+                  : undefined
+              }
+              customEmojis={emojis}
+              showHeader={message.showHeader}
+              channelPath={channelRoutePath({
+                isDM: false,
+                guildId: selectedGuildId,
+                channelId: openThread.id,
+                messageId: null,
+              })}
+              referencedMessage={message.referenced_message}
+              webhookEditable={isWebhookEditable(message)}
+              onTogglePin={canModerate ? (m) => handleTogglePin(m, openThread.id) : undefined}
+            />
+          )}
+          onReachTop={() => loadOlderMessages(openThread.id)}
+          onReachBottom={() => loadNewerMessages(openThread.id)}
+          onSend={handleSendThreadMessage}
+          onToggleJoined={handleToggleThreadJoined}
+          onUpdate={handleUpdateThread}
+          onClose={() => setOpenThreadId(null)}
+        />
+      )}
 
       {/* Right Sidebar - Member List */}
-      {!isDMView && showMemberList && selectedGuild && (
+      {!isDMView && showMemberList && selectedGuild && !openThread && (
         <MemberList
           members={members}
           roles={roles}
@@ -2715,6 +11229,44 @@ export default function DiscordClient() {
               <div className="text-sm font-medium text-gray-200">{messages.length}</div>
             </div>
 
+            {rateLimitState && (
+              <div>
+                <div className="text-xs text-gray-400 mb-2">Rate Limits</div>
+                <div className="bg-gray-700/40 rounded px-2 py-1.5 text-xs text-gray-300 mb-1 flex justify-between">
+                  <span>Global</span>
+                  <span>
+                    {rateLimitState.global.resetAfter > 0
+                      ? `blocked ${rateLimitState.global.resetAfter.toFixed(1)}s`
+                      : `${rateLimitState.global.requestsThisSecond}/${rateLimitState.global.limit} per s`}
+                  </span>
+                </div>
+                <div className="space-y-1 max-h-60 overflow-y-auto">
+                  {rateLimitState.buckets.map((bucket) => (
+                    <div
+                      key={`${bucket.bucket}-${bucket.routes[0]}`}
+                      className="bg-gray-700/40 rounded px-2 py-1.5 text-xs"
+                      title={bucket.routes.join('\n')}
+                    >
+                      <div className="text-gray-300 truncate font-mono">{bucket.routes[0]}</div>
+                      <div className="flex justify-between text-gray-400">
+                        <span
+                          className={bucket.remaining === 0 ? 'text-[#f23f43]' : 'text-gray-400'}
+                        >
+                          {bucket.remaining}/{bucket.limit} left
+                        </span>
+                        <span>
+                          {bucket.queued > 0 && `${bucket.queued} queued · `}
+                          {bucket.resetAfter > 0
+                            ? `resets ${bucket.resetAfter.toFixed(1)}s`
+                            : 'ready'}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {roles.length > 0 && (
               <div>
                 <div className="text-xs text-gray-400 mb-2">Server Roles ({roles.length})</div>
@@ -2760,15 +11312,38 @@ export default function DiscordClient() {
         />
       )}
 
+      {/* Message Editor */}
+      {editingMessage && (
+        <MessageEditor
+          key={editingMessage.message.id}
+          message={editingMessage.message}
+          onSave={handleSaveMessageEdit}
+          onClose={() => setEditingMessage(null)}
+        />
+      )}
+
+      {/* Webhooks */}
+      {showWebhooks && selectedChannel && (
+        <WebhooksPanel
+          channel={selectedChannel}
+          webhooks={channelWebhooks[selectedChannel.id]}
+          canManage={hasTeamRole(teamRole, 'admin')}
+          onChange={(list) =>
+            setChannelWebhooks((prev) => ({ ...prev, [selectedChannel.id]: list }))
+          }
+          onClose={() => setShowWebhooks(false)}
+        />
+      )}
+
       {/* Create Server Modal */}
       {showCreateServer && (
         <CreateServerModal
           onClose={() => setShowCreateServer(false)}
           onCreate={async (name, icon) => {
-            if (!authToken || !name.trim()) return;
+            if (!botUser || !name.trim()) return;
 
             try {
-              const data = await authedFetch<Guild>(authToken, '/guilds', {
+              const data = await authedFetch<Guild>(activeBotId, '/guilds', {
                 method: 'POST',
                 body: JSON.stringify({ name: name.trim() }),
               });
@@ -2784,6 +11359,88 @@ export default function DiscordClient() {
         />
       )}
 
+      {/* Team Panel */}
+      {showTeamPanel && session && (
+        <TeamPanel currentAccountId={session.account.id} onClose={() => setShowTeamPanel(false)} />
+      )}
+
+      {/* Connect Bot Modal */}
+      {showConnectBot && (
+        <div
+          className="fixed inset-0 bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+          onClick={() => setShowConnectBot(false)}
+        >
+          <div
+            className="bg-[#2b2d31] border border-[#1e1f22] rounded-lg shadow-2xl max-w-md w-full animate-scale-in"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <form onSubmit={handleConnectBot} className="p-4 space-y-4">
+              <h2 className="text-xl font-bold text-white">Connect Another Bot</h2>
+              <p className="text-sm text-[#b5bac1]">
+                The token is stored encrypted on the server and you become the bot&apos;s admin.
+              </p>
+              <input
+                type="password"
+                placeholder="Enter your Discord bot token"
+                value={tokenInput}
+                onChange={(e) => setTokenInput(e.target.value)}
+                autoFocus
+                className="w-full bg-[#1e1f22] text-[#dbdee1] placeholder-[#87898c] px-4 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#5865f2]"
+              />
+              {authError && <p className="text-sm text-[#f23f43]">{authError}</p>}
+              <div className="flex gap-2">
+                <Button type="button" onClick={() => setShowConnectBot(false)} variant="secondary">
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  variant="primary"
+                  disabled={!tokenInput.trim() || isAuthenticating}
+                >
+                  Connect Bot
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Commands */}
+      {showCommands && (
+        <CommandsPanel
+          key={activeBotId ?? undefined}
+          guilds={guilds}
+          canManage={hasTeamRole(teamRole, 'admin')}
+          onClose={() => setShowCommands(false)}
+        />
+      )}
+
+      {/* Scheduled Messages */}
+      {showScheduler && session && (
+        <SchedulerPanel
+          key={activeBotId ?? undefined}
+          accountId={session.account.id}
+          role={teamRole}
+          onClose={() => setShowScheduler(false)}
+        />
+      )}
+      {showScheduleDialog && selectedChannelId && (
+        <ScheduleMessageDialog
+          channelName={
+            isDMView
+              ? `@${selectedChannel?.recipients?.[0]?.username || 'user'}`
+              : `#${selectedChannel?.name || 'channel'}`
+          }
+          onSchedule={handleScheduleMessage}
+          onClose={() => setShowScheduleDialog(false)}
+        />
+      )}
+
+      {/* Audit Log */}
+      {showAuditLog && session?.botId && (
+        <AuditLogPanel botId={session.botId} onClose={() => setShowAuditLog(false)} />
+      )}
+
       {/* User Profile Modal */}
       {showUserProfile && selectedUser && (
         <div
@@ -2872,4 +11529,6 @@ export default function DiscordClient() {
       {toast && <Toast message={toast.message} type={toast.type} onClose={() => setToast(null)} />}
     </div>
   );
+
+  return <ActiveBotContext.Provider value={activeBotId}>{app}</ActiveBotContext.Provider>;
 }
@@ -641,12 +641,16 @@ export default function EnhancedBotClient() {
       setIsUploading(true);
       const formData = new FormData();
 
-      if (content.trim()) {
-        formData.append('content', content);
-      }
+      formData.append(
+        'payload_json',
+        JSON.stringify({
+          content: content.trim() ? content : undefined,
+          attachments: files.map((file, index) => ({ id: index, filename: file.name })),
+        })
+      );
 
-      files.forEach((file) => {
-        formData.append('files', file);
+      files.forEach((file, index) => {
+        formData.append(`files[${index}]`, file, file.name);
       });
 
       await authedFetch(
@@ -0,0 +1,7 @@
+// Runs once when the server starts: begins posting scheduled messages
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { scheduler } = await import('./lib/scheduler');
+    scheduler.start();
+  }
+}
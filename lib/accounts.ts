@@ -0,0 +1,188 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { readStore, updateStore } from './store';
+import { deleteBotToken } from './vault';
+
+// BotClienty user accounts. Each account is bound to zero or more vaulted bots
+// with a role per bot, so a team can share a bot without sharing its token.
+
+const ACCOUNT_STORE = 'accounts';
+const MIN_PASSWORD_LENGTH = 8;
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+export const ROLES = ['viewer', 'operator', 'moderator', 'admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+type AccountRecord = {
+  id: string;
+  username: string;
+  passwordHash: string;
+  salt: string;
+  createdAt: string;
+  bots: Record<string, Role>;
+};
+
+type AccountData = {
+  accounts: Record<string, AccountRecord>;
+};
+
+export type Account = {
+  id: string;
+  username: string;
+  bots: Record<string, Role>;
+};
+
+export type BotMember = {
+  accountId: string;
+  username: string;
+  role: Role;
+};
+
+export class AccountError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'AccountError';
+  }
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function hasRole(role: Role, required: Role) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+function toAccount({ id, username, bots }: AccountRecord): Account {
+  return { id, username, bots: { ...bots } };
+}
+
+function normalizeUsername(username: string) {
+  return username.trim().toLowerCase();
+}
+
+function findByUsername(data: AccountData, username: string) {
+  const normalized = normalizeUsername(username);
+  return Object.values(data.accounts).find((account) => account.username === normalized);
+}
+
+async function hashPassword(password: string, salt: Buffer) {
+  return (await scryptAsync(password, salt, 64)).toString('base64');
+}
+
+function countAdmins(data: AccountData, botId: string) {
+  return Object.values(data.accounts).filter((account) => account.bots[botId] === 'admin').length;
+}
+
+export async function hasAccounts() {
+  const data = await readStore<AccountData>(ACCOUNT_STORE, { accounts: {} });
+  return Object.keys(data.accounts).length > 0;
+}
+
+export async function createAccount(
+  username: string,
+  password: string,
+  options: { onlyIfFirst?: boolean } = {}
+): Promise<Account> {
+  const normalized = normalizeUsername(username);
+  if (!/^[a-z0-9_.-]{2,32}$/.test(normalized)) {
+    throw new AccountError('Usernames are 2-32 letters, digits, dots, dashes or underscores');
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new AccountError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const salt = randomBytes(16);
+  const passwordHash = await hashPassword(password, salt);
+
+  return updateStore<AccountData, Account>(ACCOUNT_STORE, { accounts: {} }, (data) => {
+    if (options.onlyIfFirst && Object.keys(data.accounts).length > 0) {
+      throw new AccountError('Accounts are created by a bot admin', 403);
+    }
+    if (findByUsername(data, normalized)) {
+      throw new AccountError('That username is taken', 409);
+    }
+    const account: AccountRecord = {
+      id: randomUUID(),
+      username: normalized,
+      passwordHash,
+      salt: salt.toString('base64'),
+      createdAt: new Date().toISOString(),
+      bots: {},
+    };
+    data.accounts[account.id] = account;
+    return toAccount(account);
+  });
+}
+
+export async function verifyLogin(username: string, password: string): Promise<Account | null> {
+  const data = await readStore<AccountData>(ACCOUNT_STORE, { accounts: {} });
+  const account = findByUsername(data, username);
+  if (!account) return null;
+
+  const expected = Buffer.from(account.passwordHash, 'base64');
+  const actual = Buffer.from(
+    await hashPassword(password, Buffer.from(account.salt, 'base64')),
+    'base64'
+  );
+  return timingSafeEqual(expected, actual) ? toAccount(account) : null;
+}
+
+export async function getAccount(accountId: string): Promise<Account | null> {
+  const data = await readStore<AccountData>(ACCOUNT_STORE, { accounts: {} });
+  const account = data.accounts[accountId];
+  return account ? toAccount(account) : null;
+}
+
+export async function listBotMembers(botId: string): Promise<BotMember[]> {
+  const data = await readStore<AccountData>(ACCOUNT_STORE, { accounts: {} });
+  return Object.values(data.accounts)
+    .filter((account) => account.bots[botId])
+    .map((account) => ({
+      accountId: account.id,
+      username: account.username,
+      role: account.bots[botId],
+    }))
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+// Binds an account (looked up by username) to a bot, or changes its role there
+export async function setBotRole(botId: string, username: string, role: Role): Promise<BotMember> {
+  return updateStore<AccountData, BotMember>(ACCOUNT_STORE, { accounts: {} }, (data) => {
+    const account = findByUsername(data, username);
+    if (!account) throw new AccountError('No account with that username', 404);
+    if (account.bots[botId] === 'admin' && role !== 'admin' && countAdmins(data, botId) === 1) {
+      throw new AccountError('A bot needs at least one admin');
+    }
+    account.bots[botId] = role;
+    return { accountId: account.id, username: account.username, role };
+  });
+}
+
+// Unbinds an account from a bot. The bot's token leaves the vault with its last member.
+export async function removeBotMember(botId: string, accountId: string) {
+  const orphaned = await updateStore<AccountData, boolean>(
+    ACCOUNT_STORE,
+    { accounts: {} },
+    (data) => {
+      const account = data.accounts[accountId];
+      if (!account?.bots[botId]) throw new AccountError('Not a member of this bot', 404);
+      const remaining = Object.values(data.accounts).filter((a) => a.bots[botId]).length - 1;
+      if (account.bots[botId] === 'admin' && remaining > 0 && countAdmins(data, botId) === 1) {
+        throw new AccountError('A bot needs at least one admin');
+      }
+      delete account.bots[botId];
+      return remaining === 0;
+    }
+  );
+
+  if (orphaned) await deleteBotToken(botId);
+}
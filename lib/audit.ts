@@ -0,0 +1,143 @@
+import { randomUUID } from 'crypto';
+import { appendLog, readLog } from './store';
+
+// Append-only audit trail of every mutating request made through the proxy:
+// which account did it, as which bot, on what route, a summary of the body and
+// the status Discord answered with.
+
+const AUDIT_LOG = 'audit';
+const MAX_VALUE_LENGTH = 200;
+
+export type AuditEntry = {
+  id: string;
+  timestamp: string;
+  accountId: string;
+  username: string;
+  botId: string;
+  method: string;
+  // Rate limit route, e.g. "POST /channels/123/messages"
+  route: string;
+  path: string;
+  summary: string;
+  status: number;
+  // Set when the proxy refused the request for lack of a team role
+  denied?: boolean;
+};
+
+export type AuditFilter = {
+  botId: string;
+  username?: string;
+  method?: string;
+  search?: string;
+  outcome?: 'success' | 'error';
+  from?: string;
+  to?: string;
+};
+
+function truncate(value: string) {
+  return value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}…` : value;
+}
+
+function formatSize(bytes: number) {
+  return bytes < 1024 ? `${bytes} B` : `${Math.round(bytes / 1024)} KB`;
+}
+
+function summarizePayload(payload: unknown): string[] {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return Array.isArray(payload) ? [`${payload.length} item(s)`] : [];
+  }
+  return Object.entries(payload).map(([key, value]) => {
+    if (typeof value === 'string') return `${key}: ${JSON.stringify(truncate(value))}`;
+    if (Array.isArray(value)) return `${key}: ${value.length} item(s)`;
+    if (value && typeof value === 'object') return `${key}: {…}`;
+    return `${key}: ${JSON.stringify(value)}`;
+  });
+}
+
+// A short, human-readable description of a request body; file contents and long
+// strings are never stored.
+export async function summarizeBody(
+  body: string | ArrayBuffer | undefined,
+  contentType: string
+): Promise<string> {
+  if (!body) return '';
+
+  try {
+    if (body instanceof ArrayBuffer) {
+      const form = await new Response(body, {
+        headers: { 'Content-Type': contentType },
+      }).formData();
+      const parts: string[] = [];
+      const files: string[] = [];
+      form.forEach((value, key) => {
+        if (typeof value === 'string') {
+          parts.push(...(key === 'payload_json' ? summarizePayload(JSON.parse(value)) : [key]));
+        } else {
+          files.push(`${value.name} (${formatSize(value.size)})`);
+        }
+      });
+      if (files.length > 0) parts.push(`files: ${files.join(', ')}`);
+      return parts.join('; ');
+    }
+    return summarizePayload(JSON.parse(body)).join('; ');
+  } catch {
+    return typeof body === 'string' ? truncate(body) : `${formatSize(body.byteLength)} body`;
+  }
+}
+
+export async function recordAudit(entry: Omit<AuditEntry, 'id' | 'timestamp'>) {
+  await appendLog<AuditEntry>(AUDIT_LOG, {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  });
+}
+
+// Matching entries for one bot, newest first
+export async function queryAudit(filter: AuditFilter): Promise<AuditEntry[]> {
+  const entries = await readLog<AuditEntry>(AUDIT_LOG);
+  const search = filter.search?.toLowerCase();
+  const from = filter.from ? Date.parse(filter.from) : null;
+  const to = filter.to ? Date.parse(filter.to) : null;
+
+  return entries
+    .filter((entry) => {
+      if (entry.botId !== filter.botId) return false;
+      if (filter.username && entry.username !== filter.username) return false;
+      if (filter.method && entry.method !== filter.method) return false;
+      if (filter.outcome === 'success' && (entry.status >= 400 || entry.denied)) return false;
+      if (filter.outcome === 'error' && entry.status < 400 && !entry.denied) return false;
+      const time = Date.parse(entry.timestamp);
+      if (from !== null && time < from) return false;
+      if (to !== null && time > to) return false;
+      if (
+        search &&
+        !`${entry.route} ${entry.path} ${entry.summary}`.toLowerCase().includes(search)
+      ) {
+        return false;
+      }
+      return true;
+    })
+    .reverse();
+}
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'timestamp',
+  'username',
+  'botId',
+  'method',
+  'route',
+  'path',
+  'status',
+  'denied',
+  'summary',
+];
+
+export function auditToCsv(entries: AuditEntry[]) {
+  const escape = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const rows = entries.map((entry) => CSV_COLUMNS.map((column) => escape(entry[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
@@ -0,0 +1,167 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week) for
+// recurring scheduled messages, read in the time zone of whoever scheduled them.
+// Fields take *, numbers, ranges (1-5), lists (1,15) and steps (*/10, 9-17/2);
+// day-of-week counts Sunday as 0 or 7. As in cron, when both day fields are
+// restricted a day matching either one counts.
+
+const MINUTE = 60 * 1000;
+// Far enough to find any valid expression's next time, including 29 February
+const SEARCH_LIMIT_MS = 8 * 366 * 24 * 60 * MINUTE;
+
+type CronField = { min: number; max: number };
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 7 },
+];
+
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+};
+
+export class CronError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronError';
+  }
+}
+
+function parseField(text: string, { min, max }: CronField): Set<number> {
+  const values = new Set<number>();
+  text.split(',').forEach((part) => {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) throw new CronError(`"${part}" is not a cron value`);
+    const from = match[1] === '*' ? min : Number(match[2]);
+    const to = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : from;
+    // A bare value with a step runs from it to the end, as in 5/15
+    const end = match[4] !== undefined && match[3] === undefined ? max : to;
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    if (from < min || end > max || from > end || step < 1) {
+      throw new CronError(`"${part}" is out of range ${min}-${max}`);
+    }
+    for (let value = from; value <= end; value += step) values.add(value);
+  });
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronError('A cron expression has five fields: minute hour day month weekday');
+  }
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) =>
+    parseField(part, FIELDS[i])
+  );
+  if (weekdays.has(7)) weekdays.add(0);
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: parts[2] !== '*',
+    weekdaysRestricted: parts[4] !== '*',
+  };
+}
+
+// Offset of the time zone from UTC at an instant, in milliseconds
+function zoneOffset(timeZone: string, instant: number) {
+  const parts: Record<string, number> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  })
+    .formatToParts(new Date(instant))
+    .forEach(({ type, value }) => {
+      if (type !== 'literal') parts[type] = Number(value);
+    });
+  const wall = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant a wall-clock time (given as if it were UTC) happens in the zone.
+// Times skipped by a daylight saving change come as much later as the clocks
+// jumped.
+function wallToInstant(timeZone: string, wall: number) {
+  const guess = wall - zoneOffset(timeZone, wall);
+  const instant = wall - zoneOffset(timeZone, guess);
+  if (instant + zoneOffset(timeZone, instant) === wall) return instant;
+  return Math.max(instant, guess);
+}
+
+export function isTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The first time after `after` the schedule fires, or null if it never does
+export function nextCronTime(schedule: CronSchedule, after: Date, timeZone: string): Date | null {
+  const start = after.getTime();
+  // Searched in wall-clock time, held in a Date read through its UTC fields
+  let wall = Math.floor((start + zoneOffset(timeZone, start)) / MINUTE) * MINUTE + MINUTE;
+  const limit = wall + SEARCH_LIMIT_MS;
+
+  while (wall < limit) {
+    const date = new Date(wall);
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+    const hour = date.getUTCHours();
+
+    if (!schedule.months.has(month + 1)) {
+      wall = Date.UTC(year, month + 1, 1);
+      continue;
+    }
+    const dayMatches = schedule.days.has(day);
+    const weekdayMatches = schedule.weekdays.has(date.getUTCDay());
+    const dayAllowed =
+      schedule.daysRestricted && schedule.weekdaysRestricted
+        ? dayMatches || weekdayMatches
+        : dayMatches && weekdayMatches;
+    if (!dayAllowed) {
+      wall = Date.UTC(year, month, day + 1);
+      continue;
+    }
+    if (!schedule.hours.has(hour)) {
+      wall = Date.UTC(year, month, day, hour + 1);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      wall += MINUTE;
+      continue;
+    }
+
+    const instant = wallToInstant(timeZone, wall);
+    // A wall time repeated or skipped around a daylight saving change can map
+    // back before the start; look further
+    if (instant > start) return new Date(instant);
+    wall += MINUTE;
+  }
+  return null;
+}
@@ -0,0 +1,127 @@
+import { hasRole } from './accounts';
+import { recordAudit, summarizeBody } from './audit';
+import { requiredRole } from './permissions';
+import { rateLimitHeaders, rateLimits, routeKey } from './rate-limit';
+import type { BotSession } from './session';
+
+// The one way requests reach Discord on a member's behalf, whether the browser
+// sent them through /api/discord or the scheduler is posting a queued message:
+// checked against the member's team role, queued behind the bot's rate limits,
+// and written to the audit log.
+
+const DISCORD_API_BASE = 'https://discord.com/api/v10';
+
+export type DiscordRequest = {
+  method: string;
+  path: string[];
+  query?: URLSearchParams;
+  body?: string | ArrayBuffer;
+  // Multipart bodies keep theirs so the boundary still matches; others are JSON
+  contentType?: string;
+};
+
+export type DiscordResult = {
+  status: number;
+  // Parsed JSON body; null for 204 responses
+  data: unknown;
+  // Discord's rate limit headers, for the browser to show
+  headers: Headers;
+};
+
+// The upstream URL resolves dot segments (encoded or not) and splits on slashes,
+// so a path holding any would reach another endpoint than the one its role was
+// checked against
+function isPlainPath(path: string[]) {
+  return path.every((segment) => {
+    const dots = segment.replace(/%2e/gi, '.');
+    return segment !== '' && dots !== '.' && dots !== '..' && !/[/\\?#]|%2f|%5c/i.test(segment);
+  });
+}
+
+// Webhook tokens are credentials and stay out of the audit log
+function loggedPath(path: string[]) {
+  return `/${path.map((segment, i) => (path[0] === 'webhooks' && i === 2 ? ':token' : segment)).join('/')}`;
+}
+
+// Every mutating request lands in the audit log; a failed write must not fail the request
+function audit(session: BotSession, request: DiscordRequest, status: number, denied = false) {
+  const { method, path, body, contentType = '' } = request;
+  if (method === 'GET' || method === 'HEAD') return;
+  summarizeBody(body, contentType)
+    .then((summary) =>
+      recordAudit({
+        accountId: session.account.id,
+        username: session.account.username,
+        botId: session.botId,
+        method,
+        route: routeKey(method, path),
+        path: loggedPath(path),
+        summary,
+        status,
+        ...(denied ? { denied: true } : {}),
+      })
+    )
+    .catch((error) => console.error('Audit log error:', error));
+}
+
+// Outages answer with HTML error pages instead of JSON
+async function readBody(response: Response) {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return { error: `Discord returned ${response.status} ${response.statusText}`.trim() };
+  }
+}
+
+export async function sendDiscordRequest(
+  session: BotSession,
+  request: DiscordRequest
+): Promise<DiscordResult> {
+  const { method, path, query, body, contentType = '' } = request;
+
+  if (!isPlainPath(path)) {
+    return { status: 400, data: { error: 'Invalid path' }, headers: new Headers() };
+  }
+
+  const required = requiredRole(method, path, body);
+  if (!hasRole(session.role, required)) {
+    audit(session, request, 403, true);
+    return {
+      status: 403,
+      data: { error: `This action needs the ${required} role (you are ${session.role})` },
+      headers: new Headers(),
+    };
+  }
+
+  const url = new URL(`${DISCORD_API_BASE}/${path.join('/')}`);
+  query?.forEach((value, key) => url.searchParams.append(key, value));
+  const isMultipart = contentType.startsWith('multipart/form-data');
+  const options: RequestInit = {
+    method,
+    headers: {
+      Authorization: session.authorization,
+      'Content-Type': isMultipart ? contentType : 'application/json',
+    },
+    body,
+  };
+
+  let response: Response;
+  try {
+    response = await rateLimits.schedule(session.authorization, method, path, () =>
+      fetch(url.toString(), options)
+    );
+  } catch (error) {
+    // Discord was never reached (network error); the attempt is still logged
+    audit(session, request, 0);
+    throw error;
+  }
+  audit(session, request, response.status);
+
+  return {
+    status: response.status,
+    data: await readBody(response),
+    headers: rateLimitHeaders(response),
+  };
+}
@@ -0,0 +1,102 @@
+import { DiscordGateway, GatewayStatus } from './gateway';
+
+// Shares one Gateway connection per bot between all open browser streams.
+// The connection is closed shortly after its last subscriber goes away.
+
+const IDLE_TIMEOUT = 30000;
+
+// Only events the client consumes are relayed; READY and GUILD_CREATE payloads
+// are large and stay on the server.
+const RELAYED_EVENT_PREFIXES = ['MESSAGE_', 'THREAD_', 'CHANNEL_PINS_UPDATE'];
+
+export type GatewayStreamEvent =
+  | { event: 'dispatch'; data: { t: string; d: unknown } }
+  | { event: 'status'; data: { status: GatewayStatus; detail?: string } };
+
+type Subscriber = (message: GatewayStreamEvent) => void;
+
+type Connection = {
+  token: string;
+  gateway: DiscordGateway;
+  subscribers: Set<Subscriber>;
+  status: GatewayStatus;
+  detail?: string;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+};
+
+class GatewayHub {
+  private connections = new Map<string, Connection>();
+
+  subscribe(botId: string, token: string, subscriber: Subscriber): () => void {
+    let connection = this.connections.get(botId);
+    if (connection && connection.token !== token) {
+      // The bot's token was replaced; reconnect with the new one, taking the
+      // streams already listening along
+      const previous = connection;
+      connection = this.open(botId, token, previous.subscribers);
+      previous.subscribers = new Set();
+      if (previous.idleTimer) clearTimeout(previous.idleTimer);
+      previous.gateway.close();
+    }
+    if (!connection) {
+      connection = this.open(botId, token);
+    }
+    if (connection.idleTimer) {
+      clearTimeout(connection.idleTimer);
+      connection.idleTimer = null;
+    }
+
+    connection.subscribers.add(subscriber);
+    subscriber({
+      event: 'status',
+      data: { status: connection.status, detail: connection.detail },
+    });
+
+    return () => {
+      // The subscriber may have moved to a newer connection since
+      const current = this.connections.get(botId);
+      if (!current?.subscribers.delete(subscriber)) return;
+      if (current.subscribers.size === 0 && !current.idleTimer) {
+        current.idleTimer = setTimeout(() => {
+          current.gateway.close();
+          if (this.connections.get(botId) === current) this.connections.delete(botId);
+        }, IDLE_TIMEOUT);
+      }
+    };
+  }
+
+  private open(botId: string, token: string, subscribers = new Set<Subscriber>()): Connection {
+    const gateway = new DiscordGateway(token);
+    const connection: Connection = {
+      token,
+      gateway,
+      subscribers,
+      status: 'connecting',
+      idleTimer: null,
+    };
+
+    gateway.onDispatch((t, d) => {
+      if (!RELAYED_EVENT_PREFIXES.some((prefix) => t.startsWith(prefix))) return;
+      connection.subscribers.forEach((subscriber) =>
+        subscriber({ event: 'dispatch', data: { t, d } })
+      );
+    });
+    gateway.onStatus((status, detail) => {
+      connection.status = status;
+      connection.detail = detail;
+      connection.subscribers.forEach((subscriber) =>
+        subscriber({ event: 'status', data: { status, detail } })
+      );
+    });
+
+    this.connections.set(botId, connection);
+    gateway.connect();
+    return connection;
+  }
+}
+
+// Keep one hub per server process, surviving dev-mode module reloads
+const globalForGateway = globalThis as unknown as { discordGatewayHub?: GatewayHub };
+
+export const gatewayHub =
+  globalForGateway.discordGatewayHub ?? (globalForGateway.discordGatewayHub = new GatewayHub());
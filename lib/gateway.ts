@@ -0,0 +1,327 @@
+import WebSocket from 'ws';
+
+// Minimal Discord Gateway (v10, JSON encoding) client, run on the server so the
+// bot token never reaches the browser (see gateway-hub.ts).
+// Handles identify, heartbeating, resume and reconnection, and hands every
+// DISPATCH event to the registered listeners.
+
+const GATEWAY_URL = 'wss://gateway.discord.gg';
+const GATEWAY_QUERY = '?v=10&encoding=json';
+
+export const GatewayIntents = {
+  GUILDS: 1 << 0,
+  GUILD_MESSAGES: 1 << 9,
+  GUILD_MESSAGE_REACTIONS: 1 << 10,
+  DIRECT_MESSAGES: 1 << 12,
+  DIRECT_MESSAGE_REACTIONS: 1 << 13,
+  MESSAGE_CONTENT: 1 << 15,
+};
+
+export const DEFAULT_INTENTS =
+  GatewayIntents.GUILDS |
+  GatewayIntents.GUILD_MESSAGES |
+  GatewayIntents.GUILD_MESSAGE_REACTIONS |
+  GatewayIntents.DIRECT_MESSAGES |
+  GatewayIntents.DIRECT_MESSAGE_REACTIONS |
+  GatewayIntents.MESSAGE_CONTENT;
+
+const Op = {
+  DISPATCH: 0,
+  HEARTBEAT: 1,
+  IDENTIFY: 2,
+  RESUME: 6,
+  RECONNECT: 7,
+  INVALID_SESSION: 9,
+  HELLO: 10,
+  HEARTBEAT_ACK: 11,
+};
+
+// Close codes after which reconnecting with the same settings cannot succeed.
+const FATAL_CLOSE_CODES = [4004, 4010, 4011, 4012, 4013];
+const DISALLOWED_INTENTS = 4014;
+// Close codes that invalidate the session, so the next connection must identify.
+const SESSION_CLOSE_CODES = [4007, 4009];
+
+const MAX_RECONNECT_DELAY = 30000;
+
+type GatewayPayload = {
+  op: number;
+  d: unknown;
+  s: number | null;
+  t: string | null;
+};
+
+// The parts of the HELLO and READY payloads the connection itself needs
+type HelloData = { heartbeat_interval: number };
+type ReadyData = { session_id: string; resume_gateway_url: string };
+
+export type GatewayStatus = 'connecting' | 'resuming' | 'ready' | 'disconnected';
+
+export type DispatchListener = (type: string, data: unknown) => void;
+export type StatusListener = (status: GatewayStatus, detail?: string) => void;
+
+export class DiscordGateway {
+  private socket: WebSocket | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatAcked = true;
+  private sequence: number | null = null;
+  private sessionId: string | null = null;
+  private resumeUrl: string | null = null;
+  private reconnectAttempts = 0;
+  private closedByUser = false;
+  private dispatchListeners = new Set<DispatchListener>();
+  private statusListeners = new Set<StatusListener>();
+
+  constructor(
+    private readonly token: string,
+    private intents: number = DEFAULT_INTENTS
+  ) {}
+
+  onDispatch(listener: DispatchListener) {
+    this.dispatchListeners.add(listener);
+    return () => {
+      this.dispatchListeners.delete(listener);
+    };
+  }
+
+  onStatus(listener: StatusListener) {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  connect() {
+    this.closedByUser = false;
+    this.open();
+  }
+
+  close() {
+    this.closedByUser = true;
+    this.clearTimers();
+    if (this.socket) {
+      this.socket.close(1000);
+      this.socket = null;
+    }
+    this.sessionId = null;
+    this.sequence = null;
+    this.resumeUrl = null;
+    this.emitStatus('disconnected');
+  }
+
+  private open() {
+    const canResume = Boolean(this.sessionId && this.resumeUrl);
+    const baseUrl = canResume ? this.resumeUrl! : GATEWAY_URL;
+    const socket = new WebSocket(`${baseUrl.replace(/\/$/, '')}/${GATEWAY_QUERY}`);
+    this.socket = socket;
+    this.emitStatus(canResume ? 'resuming' : 'connecting');
+
+    socket.onmessage = (event) => {
+      if (this.socket !== socket) return;
+      try {
+        this.handlePayload(JSON.parse(event.data.toString()) as GatewayPayload);
+      } catch (error) {
+        console.error('Gateway payload error:', error);
+      }
+    };
+
+    // Without a listener, ws rethrows socket errors and takes the process down.
+    // A close event always follows, and reconnecting is left to it.
+    socket.onerror = (event) => {
+      if (this.socket !== socket) return;
+      console.error('Gateway socket error:', event.message);
+    };
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.handleClose(event.code, event.reason);
+    };
+  }
+
+  private handlePayload(payload: GatewayPayload) {
+    if (payload.s !== null && payload.s !== undefined) {
+      this.sequence = payload.s;
+    }
+
+    switch (payload.op) {
+      case Op.HELLO:
+        this.startHeartbeat((payload.d as HelloData).heartbeat_interval);
+        if (this.sessionId && this.resumeUrl) {
+          this.send(Op.RESUME, {
+            token: this.token,
+            session_id: this.sessionId,
+            seq: this.sequence,
+          });
+        } else {
+          this.identify();
+        }
+        break;
+
+      case Op.HEARTBEAT:
+        this.sendHeartbeat();
+        break;
+
+      case Op.HEARTBEAT_ACK:
+        this.heartbeatAcked = true;
+        break;
+
+      case Op.RECONNECT:
+        this.reconnect(true);
+        break;
+
+      case Op.INVALID_SESSION:
+        // d tells us whether the session may be resumed
+        if (!payload.d) {
+          this.sessionId = null;
+          this.resumeUrl = null;
+          this.sequence = null;
+        }
+        // Discord asks clients to wait 1-5 seconds before identifying again
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = setTimeout(
+          () => {
+            if (payload.d) {
+              this.reconnect(true);
+            } else {
+              this.identify();
+            }
+          },
+          1000 + Math.random() * 4000
+        );
+        break;
+
+      case Op.DISPATCH:
+        this.handleDispatch(payload.t as string, payload.d);
+        break;
+    }
+  }
+
+  private handleDispatch(type: string, data: unknown) {
+    if (type === 'READY') {
+      const ready = data as ReadyData;
+      this.sessionId = ready.session_id;
+      this.resumeUrl = ready.resume_gateway_url;
+      this.reconnectAttempts = 0;
+      this.emitStatus('ready');
+    } else if (type === 'RESUMED') {
+      this.reconnectAttempts = 0;
+      this.emitStatus('ready');
+    }
+
+    this.dispatchListeners.forEach((listener) => {
+      try {
+        listener(type, data);
+      } catch (error) {
+        console.error(`Gateway listener error (${type}):`, error);
+      }
+    });
+  }
+
+  private handleClose(code: number, reason: string) {
+    this.clearTimers();
+    if (this.closedByUser) return;
+
+    if (code === DISALLOWED_INTENTS && this.intents & GatewayIntents.MESSAGE_CONTENT) {
+      // The privileged Message Content intent is not enabled for this bot; keep
+      // going without it so events still arrive (with empty content).
+      console.warn('Message Content intent is not enabled, reconnecting without it');
+      this.intents &= ~GatewayIntents.MESSAGE_CONTENT;
+      this.sessionId = null;
+      this.resumeUrl = null;
+      this.sequence = null;
+      this.open();
+      return;
+    }
+
+    if (FATAL_CLOSE_CODES.includes(code) || code === DISALLOWED_INTENTS) {
+      this.emitStatus('disconnected', reason || `Gateway closed (${code})`);
+      return;
+    }
+
+    if (SESSION_CLOSE_CODES.includes(code)) {
+      this.sessionId = null;
+      this.resumeUrl = null;
+      this.sequence = null;
+    }
+
+    this.scheduleReconnect();
+  }
+
+  private identify() {
+    this.send(Op.IDENTIFY, {
+      token: this.token,
+      intents: this.intents,
+      properties: {
+        os: process.platform,
+        browser: 'BotClienty',
+        device: 'BotClienty',
+      },
+    });
+  }
+
+  private startHeartbeat(interval: number) {
+    if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer);
+    this.heartbeatAcked = true;
+
+    const beat = () => {
+      if (!this.heartbeatAcked) {
+        // Zombied connection: no ACK since the last heartbeat
+        this.reconnect(true);
+        return;
+      }
+      this.heartbeatAcked = false;
+      this.sendHeartbeat();
+      this.heartbeatTimer = setTimeout(beat, interval);
+    };
+
+    this.heartbeatTimer = setTimeout(beat, interval * Math.random());
+  }
+
+  private sendHeartbeat() {
+    this.send(Op.HEARTBEAT, this.sequence);
+  }
+
+  private reconnect(resume: boolean) {
+    if (!resume) {
+      this.sessionId = null;
+      this.resumeUrl = null;
+      this.sequence = null;
+    }
+    this.clearTimers();
+    const socket = this.socket;
+    this.socket = null;
+    // A non-1000 close code keeps the session resumable on Discord's side
+    socket?.close(4000);
+    this.open();
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY);
+    this.reconnectAttempts++;
+    this.emitStatus('disconnected');
+    this.reconnectTimer = setTimeout(() => this.open(), delay);
+  }
+
+  private send(op: number, d: unknown) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ op, d }));
+    }
+  }
+
+  private clearTimers() {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private emitStatus(status: GatewayStatus, detail?: string) {
+    this.statusListeners.forEach((listener) => listener(status, detail));
+  }
+}
@@ -0,0 +1,86 @@
+import type { Role } from './accounts';
+
+// Minimum team role for a proxied Discord request, by HTTP method and path.
+// Reads not listed here are open to every member; writes not listed here are
+// admin-only.
+
+type PermissionRule = {
+  method: string;
+  pattern: RegExp;
+  role: Role;
+  // When set, the rule only covers JSON bodies that change nothing but these fields
+  fields?: string[];
+};
+
+const ID = '\\d+';
+const EMOJI = '[^/]+';
+const WEBHOOK_TOKEN = '[\\w-]+';
+
+function rule(method: string, path: string, role: Role, fields?: string[]): PermissionRule {
+  return { method, pattern: new RegExp(`^${path}$`), role, fields };
+}
+
+function onlySets(body: unknown, fields: string[]) {
+  if (typeof body !== 'string') return false;
+  try {
+    const parsed = JSON.parse(body);
+    return (
+      !!parsed &&
+      typeof parsed === 'object' &&
+      !Array.isArray(parsed) &&
+      Object.keys(parsed).every((key) => fields.includes(key))
+    );
+  } catch {
+    return false;
+  }
+}
+
+const RULES: PermissionRule[] = [
+  // Operators talk as the bot
+  rule('POST', `channels/${ID}/messages`, 'operator'),
+  rule('PATCH', `channels/${ID}/messages/${ID}`, 'operator'),
+  rule('POST', `channels/${ID}/typing`, 'operator'),
+  rule('PUT', `channels/${ID}/messages/${ID}/reactions/${EMOJI}/@me`, 'operator'),
+  rule('DELETE', `channels/${ID}/messages/${ID}/reactions/${EMOJI}/@me`, 'operator'),
+  rule('POST', 'users/@me/channels', 'operator'),
+  rule('POST', `channels/${ID}/messages/${ID}/threads`, 'operator'),
+  rule('POST', `channels/${ID}/threads`, 'operator'),
+  rule('PUT', `channels/${ID}/thread-members/@me`, 'operator'),
+  rule('DELETE', `channels/${ID}/thread-members/@me`, 'operator'),
+  // Webhook listings carry their tokens, which are enough to post as the webhook
+  rule('GET', `channels/${ID}/webhooks`, 'operator'),
+  rule('GET', `guilds/${ID}/webhooks`, 'operator'),
+  rule('GET', `webhooks/${ID}`, 'operator'),
+  rule('POST', `webhooks/${ID}/${WEBHOOK_TOKEN}`, 'operator'),
+  rule('PATCH', `webhooks/${ID}/${WEBHOOK_TOKEN}/messages/${ID}`, 'operator'),
+
+  // Moderators clean up after other people
+  rule('DELETE', `channels/${ID}/messages/${ID}`, 'moderator'),
+  rule('DELETE', `webhooks/${ID}/${WEBHOOK_TOKEN}/messages/${ID}`, 'moderator'),
+  rule('PUT', `channels/${ID}/messages/pins/${ID}`, 'moderator'),
+  rule('DELETE', `channels/${ID}/messages/pins/${ID}`, 'moderator'),
+  rule('POST', `channels/${ID}/messages/bulk-delete`, 'moderator'),
+  rule('DELETE', `channels/${ID}/messages/${ID}/reactions(/${EMOJI}(/${ID})?)?`, 'moderator'),
+  rule('PATCH', `guilds/${ID}/members/${ID}`, 'moderator'),
+  rule('DELETE', `guilds/${ID}/members/${ID}`, 'moderator'),
+  rule('PUT', `guilds/${ID}/bans/${ID}`, 'moderator'),
+  rule('DELETE', `guilds/${ID}/bans/${ID}`, 'moderator'),
+  // Archiving and locking threads; any other channel change stays with admins
+  rule('PATCH', `channels/${ID}`, 'moderator', [
+    'archived',
+    'locked',
+    'auto_archive_duration',
+    'invitable',
+  ]),
+];
+
+export function requiredRole(method: string, path: string[], body?: unknown): Role {
+  const ruleMethod = method === 'HEAD' ? 'GET' : method;
+  const joined = path.join('/');
+  const match = RULES.find(
+    (r) =>
+      r.method === ruleMethod && r.pattern.test(joined) && (!r.fields || onlySets(body, r.fields))
+  );
+  if (match) return match.role;
+  return ruleMethod === 'GET' ? 'viewer' : 'admin';
+}
@@ -0,0 +1,289 @@
+import { createHash } from 'crypto';
+
+// Per-token rate limit tracking for the Discord proxy.
+// Requests are serialized per route, held back while their bucket (or the
+// token's global limit) is exhausted, and retried after a 429 once Discord's
+// retry_after has elapsed.
+
+const GLOBAL_REQUESTS_PER_SECOND = 50;
+const MAX_RETRIES = 3;
+// Requests that would have to wait longer than this are answered with a 429
+// straight away instead of holding the HTTP request open.
+const MAX_QUEUE_WAIT = 30000;
+const MAJOR_PARAMETERS = ['channels', 'guilds', 'webhooks'];
+
+type BucketState = {
+  bucket: string;
+  routes: Set<string>;
+  limit: number;
+  remaining: number;
+  resetAt: number;
+};
+
+type TokenState = {
+  globalResetAt: number;
+  windowStart: number;
+  windowCount: number;
+  buckets: Map<string, BucketState>;
+  routeBuckets: Map<string, string>;
+  queues: Map<string, Promise<void>>;
+  queued: Map<string, number>;
+};
+
+export type BucketSnapshot = {
+  bucket: string;
+  routes: string[];
+  limit: number;
+  remaining: number;
+  resetAfter: number;
+  queued: number;
+};
+
+export type RateLimitSnapshot = {
+  global: { resetAfter: number; requestsThisSecond: number; limit: number };
+  buckets: BucketSnapshot[];
+};
+
+const RATE_LIMIT_HEADERS = [
+  'x-ratelimit-bucket',
+  'x-ratelimit-limit',
+  'x-ratelimit-remaining',
+  'x-ratelimit-reset',
+  'x-ratelimit-reset-after',
+  'x-ratelimit-global',
+  'x-ratelimit-scope',
+  'retry-after',
+];
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Collapses a Discord path to the route Discord rate limits it by: snowflakes are
+// replaced except for major parameters, and reaction paths share one route.
+// Webhook tokens are credentials and never appear in routes; the webhook id
+// already tells webhooks apart.
+export function routeKey(method: string, path: string[]): string {
+  const parts: string[] = [];
+  for (let i = 0; i < path.length; i++) {
+    const segment = path[i];
+    if (segment === 'reactions') {
+      parts.push('reactions');
+      break;
+    }
+    if (path[0] === 'webhooks' && i === 2) {
+      parts.push(':token');
+      continue;
+    }
+    const isMajor = MAJOR_PARAMETERS.includes(path[i - 1]);
+    parts.push(/^\d{15,21}$/.test(segment) && !isMajor ? ':id' : segment);
+  }
+  return `${method} /${parts.join('/')}`;
+}
+
+function majorParameter(path: string[]): string {
+  const index = path.findIndex((segment) => MAJOR_PARAMETERS.includes(segment));
+  return index === -1 ? 'global' : path.slice(index, index + 2).join('/');
+}
+
+function tokenKey(authorization: string): string {
+  return createHash('sha256').update(authorization).digest('hex').slice(0, 16);
+}
+
+export function rateLimitHeaders(response: Response): Headers {
+  const headers = new Headers();
+  RATE_LIMIT_HEADERS.forEach((name) => {
+    const value = response.headers.get(name);
+    if (value !== null) headers.set(name, value);
+  });
+  return headers;
+}
+
+class RateLimitScheduler {
+  private tokens = new Map<string, TokenState>();
+
+  async schedule(
+    authorization: string,
+    method: string,
+    path: string[],
+    send: () => Promise<Response>
+  ): Promise<Response> {
+    const state = this.tokenState(authorization);
+    const route = routeKey(method, path);
+
+    // Chain onto the route's queue so requests to one route go out in order
+    const previous = state.queues.get(route) ?? Promise.resolve();
+    let release!: () => void;
+    const tail = previous.then(() => new Promise<void>((resolve) => (release = resolve)));
+    state.queues.set(route, tail);
+    state.queued.set(route, (state.queued.get(route) ?? 0) + 1);
+
+    await previous;
+    try {
+      return await this.execute(state, route, path, send);
+    } finally {
+      state.queued.set(route, (state.queued.get(route) ?? 1) - 1);
+      if (state.queues.get(route) === tail) {
+        state.queues.delete(route);
+        state.queued.delete(route);
+      }
+      release();
+    }
+  }
+
+  snapshot(authorization: string): RateLimitSnapshot {
+    const state = this.tokenState(authorization);
+    const now = Date.now();
+
+    const buckets: BucketSnapshot[] = [];
+    state.buckets.forEach((bucket) => {
+      const routes = Array.from(bucket.routes);
+      buckets.push({
+        bucket: bucket.bucket,
+        routes,
+        limit: bucket.limit,
+        remaining: bucket.resetAt > now ? bucket.remaining : bucket.limit,
+        resetAfter: Math.max(0, (bucket.resetAt - now) / 1000),
+        queued: routes.reduce((sum, route) => sum + (state.queued.get(route) ?? 0), 0),
+      });
+    });
+
+    return {
+      global: {
+        resetAfter: Math.max(0, (state.globalResetAt - now) / 1000),
+        requestsThisSecond: now - state.windowStart < 1000 ? state.windowCount : 0,
+        limit: GLOBAL_REQUESTS_PER_SECOND,
+      },
+      buckets,
+    };
+  }
+
+  private tokenState(authorization: string): TokenState {
+    const key = tokenKey(authorization);
+    let state = this.tokens.get(key);
+    if (!state) {
+      state = {
+        globalResetAt: 0,
+        windowStart: 0,
+        windowCount: 0,
+        buckets: new Map(),
+        routeBuckets: new Map(),
+        queues: new Map(),
+        queued: new Map(),
+      };
+      this.tokens.set(key, state);
+    }
+    return state;
+  }
+
+  private bucketFor(state: TokenState, route: string, path: string[]) {
+    const hash = state.routeBuckets.get(route);
+    return hash ? state.buckets.get(`${hash}:${majorParameter(path)}`) : undefined;
+  }
+
+  private async execute(
+    state: TokenState,
+    route: string,
+    path: string[],
+    send: () => Promise<Response>
+  ): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const wait = this.delayFor(state, route, path);
+      if (wait > MAX_QUEUE_WAIT) {
+        return new Response(
+          JSON.stringify({
+            message: 'You are being rate limited.',
+            retry_after: wait / 1000,
+            global: false,
+          }),
+          {
+            status: 429,
+            headers: {
+              'Content-Type': 'application/json',
+              'Retry-After': String(Math.ceil(wait / 1000)),
+            },
+          }
+        );
+      }
+      if (wait > 0) await sleep(wait);
+
+      this.countGlobal(state);
+      const response = await send();
+      this.update(state, route, path, response.headers);
+
+      if (response.status !== 429 || attempt >= MAX_RETRIES) {
+        return response;
+      }
+
+      const body = await response
+        .clone()
+        .json()
+        .catch(() => ({}));
+      const retryAfter =
+        Number(body.retry_after ?? response.headers.get('retry-after') ?? 1) * 1000;
+      if (body.global || response.headers.get('x-ratelimit-global')) {
+        state.globalResetAt = Date.now() + retryAfter;
+      } else {
+        const bucket = this.bucketFor(state, route, path);
+        if (bucket) {
+          bucket.remaining = 0;
+          bucket.resetAt = Math.max(bucket.resetAt, Date.now() + retryAfter);
+        } else {
+          await sleep(retryAfter);
+        }
+      }
+    }
+  }
+
+  private delayFor(state: TokenState, route: string, path: string[]): number {
+    const now = Date.now();
+    let wait = Math.max(0, state.globalResetAt - now);
+
+    if (now - state.windowStart < 1000 && state.windowCount >= GLOBAL_REQUESTS_PER_SECOND) {
+      wait = Math.max(wait, state.windowStart + 1000 - now);
+    }
+
+    const bucket = this.bucketFor(state, route, path);
+    if (bucket && bucket.remaining <= 0 && bucket.resetAt > now) {
+      wait = Math.max(wait, bucket.resetAt - now);
+    }
+    return wait;
+  }
+
+  private countGlobal(state: TokenState) {
+    const now = Date.now();
+    if (now - state.windowStart >= 1000) {
+      state.windowStart = now;
+      state.windowCount = 0;
+    }
+    state.windowCount++;
+  }
+
+  private update(state: TokenState, route: string, path: string[], headers: Headers) {
+    const hash = headers.get('x-ratelimit-bucket');
+    if (!hash) return;
+
+    state.routeBuckets.set(route, hash);
+    const key = `${hash}:${majorParameter(path)}`;
+    let bucket = state.buckets.get(key);
+    if (!bucket) {
+      bucket = { bucket: hash, routes: new Set(), limit: 1, remaining: 1, resetAt: 0 };
+      state.buckets.set(key, bucket);
+    }
+    bucket.routes.add(route);
+
+    const limit = headers.get('x-ratelimit-limit');
+    const remaining = headers.get('x-ratelimit-remaining');
+    const resetAfter = headers.get('x-ratelimit-reset-after');
+    if (limit !== null) bucket.limit = Number(limit);
+    if (remaining !== null) bucket.remaining = Number(remaining);
+    if (resetAfter !== null) bucket.resetAt = Date.now() + Number(resetAfter) * 1000;
+  }
+}
+
+// Keep one scheduler per server process, surviving dev-mode module reloads
+const globalForRateLimits = globalThis as unknown as { discordRateLimits?: RateLimitScheduler };
+
+export const rateLimits =
+  globalForRateLimits.discordRateLimits ??
+  (globalForRateLimits.discordRateLimits = new RateLimitScheduler());
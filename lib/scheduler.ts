@@ -0,0 +1,499 @@
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { Account, getAccount, hasRole, Role } from './accounts';
+import { CronError, isTimeZone, nextCronTime, parseCron } from './cron';
+import { sendDiscordRequest } from './discord-proxy';
+import { requiredRole } from './permissions';
+import { resolveBotSession } from './session';
+import {
+  appendLog,
+  deleteBlob,
+  readBlob,
+  readLog,
+  readStore,
+  updateStore,
+  writeBlob,
+} from './store';
+
+// Messages queued to be posted later, once or on a cron schedule. A timer in the
+// server process posts them when due, through the same proxy path as the browser:
+// as the member who scheduled them, with their team role checked again at every
+// run, behind the bot's rate limits and into the audit log. Each run, sent or
+// not, is kept in a log.
+//
+// Run one server process per data directory; two would both post every message.
+
+const JOB_STORE = 'schedules';
+const RUN_LOG = 'schedule-runs';
+const TICK_INTERVAL = 15000;
+// Runs missed by more than this while the server was down are skipped
+const MISSED_AFTER = 60 * 60 * 1000;
+const RUN_LIST_LIMIT = 100;
+const MAX_NAME_LENGTH = 100;
+// Discord's own limits for a message
+const MAX_FILES = 10;
+const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+export type ScheduledFile = {
+  // Name of the stored upload
+  blob: string;
+  filename: string;
+  contentType: string;
+  size: number;
+};
+
+export type ScheduledRunResult = {
+  at: string;
+  ok: boolean;
+  status: number;
+  error?: string;
+  messageId?: string;
+};
+
+export type ScheduledJob = {
+  id: string;
+  botId: string;
+  // Whoever scheduled it; their role decides whether it may still be sent
+  accountId: string;
+  username: string;
+  channelId: string;
+  name: string;
+  // The message body, with the metadata of its files in attachments
+  payload: Record<string, unknown>;
+  files: ScheduledFile[];
+  // A one-off message has runAt, a recurring one a cron expression
+  runAt: string | null;
+  cron: string | null;
+  timeZone: string;
+  // Null once a one-off message has run, or when a schedule has no time left
+  nextRunAt: string | null;
+  paused: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastRun?: ScheduledRunResult;
+};
+
+export type ScheduledRun = ScheduledRunResult & {
+  id: string;
+  jobId: string;
+  jobName: string;
+  botId: string;
+  channelId: string;
+  username: string;
+  scheduledFor: string;
+};
+
+// When a message is to be sent: exactly one of runAt and cron
+export type ScheduleTiming = {
+  runAt?: string | null;
+  cron?: string | null;
+  // IANA name the cron expression is read in; UTC if not given
+  timeZone?: string;
+};
+
+export type ScheduleInput = ScheduleTiming & {
+  channelId: string;
+  name?: string;
+};
+
+export type ScheduleChanges = ScheduleTiming & {
+  name?: string;
+  paused?: boolean;
+};
+
+// The member asking, as resolved from their session
+type Member = {
+  account: Account;
+  botId: string;
+  role: Role;
+};
+
+type JobData = {
+  jobs: Record<string, ScheduledJob>;
+};
+
+export class SchedulerError extends Error {
+  constructor(
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'SchedulerError';
+  }
+}
+
+// Route handlers answer a SchedulerError with its own message and status
+export function errorResponse(error: unknown) {
+  if (error instanceof SchedulerError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error('Scheduler error:', error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+function isOptional(value: unknown, type: 'string' | 'boolean', nullable = false) {
+  return value === undefined || typeof value === type || (nullable && value === null);
+}
+
+function isTiming({ runAt, cron, timeZone }: Record<string, unknown>) {
+  return (
+    isOptional(runAt, 'string', true) &&
+    isOptional(cron, 'string', true) &&
+    isOptional(timeZone, 'string')
+  );
+}
+
+// Shape checks for request bodies; createSchedule and updateSchedule check the values
+export function isScheduleInput(body: unknown): body is ScheduleInput {
+  if (!body || typeof body !== 'object') return false;
+  const fields = body as Record<string, unknown>;
+  return (
+    typeof fields.channelId === 'string' &&
+    fields.channelId !== '' &&
+    isOptional(fields.name, 'string') &&
+    isTiming(fields)
+  );
+}
+
+export function isScheduleChanges(body: unknown): body is ScheduleChanges {
+  if (!body || typeof body !== 'object') return false;
+  const fields = body as Record<string, unknown>;
+  return (
+    isOptional(fields.name, 'string') && isOptional(fields.paused, 'boolean') && isTiming(fields)
+  );
+}
+
+function messagePath(channelId: string) {
+  return ['channels', channelId, 'messages'];
+}
+
+function defaultName(payload: Record<string, unknown>) {
+  const content = typeof payload.content === 'string' ? payload.content.trim() : '';
+  return content.split('\n')[0].slice(0, MAX_NAME_LENGTH) || 'Scheduled message';
+}
+
+// The stored timing fields for a schedule and its first run after `now`
+function planTiming({ runAt, cron, timeZone = 'UTC' }: ScheduleTiming, now: Date) {
+  if (!isTimeZone(timeZone)) throw new SchedulerError(`Unknown time zone ${timeZone}`);
+
+  if (cron) {
+    if (runAt) throw new SchedulerError('Give either a time or a cron expression, not both');
+    let next: Date | null;
+    try {
+      next = nextCronTime(parseCron(cron), now, timeZone);
+    } catch (error) {
+      if (error instanceof CronError) throw new SchedulerError(error.message);
+      throw error;
+    }
+    if (!next) throw new SchedulerError('This cron expression never runs');
+    return { runAt: null, cron: cron.trim(), timeZone, nextRunAt: next.toISOString() };
+  }
+
+  const time = runAt ? Date.parse(runAt) : NaN;
+  if (Number.isNaN(time)) throw new SchedulerError('Give a time or a cron expression');
+  if (time <= now.getTime()) throw new SchedulerError('The time to send at has passed');
+  const at = new Date(time).toISOString();
+  return { runAt: at, cron: null, timeZone, nextRunAt: at };
+}
+
+function checkCanSend(member: Member, channelId: string) {
+  const required = requiredRole('POST', messagePath(channelId));
+  if (!hasRole(member.role, required)) {
+    throw new SchedulerError(`Scheduling needs the ${required} role (you are ${member.role})`, 403);
+  }
+}
+
+// Members change their own schedules; admins change anyone's
+function checkCanChange(member: Member, job: ScheduledJob) {
+  if (member.role === 'admin') return;
+  checkCanSend(member, job.channelId);
+  if (job.accountId !== member.account.id) {
+    throw new SchedulerError(`Only ${job.username} or an admin can change this`, 403);
+  }
+}
+
+function findJob(data: JobData, member: Member, id: string) {
+  const job = data.jobs[id];
+  if (!job || job.botId !== member.botId) {
+    throw new SchedulerError('Scheduled message not found', 404);
+  }
+  return job;
+}
+
+function deleteFiles(files: ScheduledFile[]) {
+  return Promise.all(files.map((file) => deleteBlob(file.blob)));
+}
+
+// The bot's schedules, soonest first; ones with no next run last
+export async function listSchedules(botId: string): Promise<ScheduledJob[]> {
+  const data = await readStore<JobData>(JOB_STORE, { jobs: {} });
+  return Object.values(data.jobs)
+    .filter((job) => job.botId === botId)
+    .sort(
+      (a, b) =>
+        (a.nextRunAt ? Date.parse(a.nextRunAt) : Infinity) -
+          (b.nextRunAt ? Date.parse(b.nextRunAt) : Infinity) ||
+        a.createdAt.localeCompare(b.createdAt)
+    );
+}
+
+// The bot's most recent runs, newest first
+export async function listScheduleRuns(botId: string): Promise<ScheduledRun[]> {
+  const runs = await readLog<ScheduledRun>(RUN_LOG);
+  return runs
+    .filter((run) => run.botId === botId)
+    .reverse()
+    .slice(0, RUN_LIST_LIMIT);
+}
+
+export async function createSchedule(
+  member: Member,
+  input: ScheduleInput,
+  payload: Record<string, unknown>,
+  files: File[]
+): Promise<ScheduledJob> {
+  if (!/^\d+$/.test(input.channelId)) throw new SchedulerError('Unknown channel');
+  checkCanSend(member, input.channelId);
+  if (files.length > MAX_FILES) {
+    throw new SchedulerError(`A message can carry at most ${MAX_FILES} files`);
+  }
+  if (files.reduce((total, file) => total + file.size, 0) > MAX_UPLOAD_BYTES) {
+    throw new SchedulerError('The files are too large to send');
+  }
+
+  const now = new Date();
+  const id = randomUUID();
+  const timing = planTiming(input, now);
+  const stored = await Promise.all(
+    files.map(async (file, index) => {
+      const blob = `${id}-${index}`;
+      await writeBlob(blob, new Uint8Array(await file.arrayBuffer()));
+      return {
+        blob,
+        filename: file.name,
+        contentType: file.type || 'application/octet-stream',
+        size: file.size,
+      };
+    })
+  );
+
+  const job: ScheduledJob = {
+    id,
+    botId: member.botId,
+    accountId: member.account.id,
+    username: member.account.username,
+    channelId: input.channelId,
+    name: input.name?.trim().slice(0, MAX_NAME_LENGTH) || defaultName(payload),
+    payload,
+    files: stored,
+    ...timing,
+    paused: false,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  await updateStore<JobData, void>(JOB_STORE, { jobs: {} }, (data) => {
+    data.jobs[id] = job;
+  });
+  return job;
+}
+
+// Renames, pauses or resumes a schedule, or gives it a new time or time zone.
+// Resuming a recurring schedule, or moving it to another zone, picks its next time
+// from now, skipping the runs it missed.
+export async function updateSchedule(
+  member: Member,
+  id: string,
+  changes: ScheduleChanges
+): Promise<ScheduledJob> {
+  const now = new Date();
+  return updateStore<JobData, ScheduledJob>(JOB_STORE, { jobs: {} }, (data) => {
+    const job = findJob(data, member, id);
+    checkCanChange(member, job);
+
+    if (changes.name !== undefined) {
+      job.name = changes.name.trim().slice(0, MAX_NAME_LENGTH) || defaultName(job.payload);
+    }
+    const newTimeZone =
+      changes.timeZone !== undefined && changes.timeZone !== job.timeZone ? changes.timeZone : null;
+    if (changes.runAt || changes.cron) {
+      Object.assign(
+        job,
+        planTiming({ ...changes, timeZone: changes.timeZone ?? job.timeZone }, now)
+      );
+    } else if (newTimeZone && job.cron) {
+      // The same expression falls at other times in another zone
+      Object.assign(job, planTiming({ cron: job.cron, timeZone: newTimeZone }, now));
+    } else if (newTimeZone) {
+      // A one-off time is absolute; its zone only matters for showing it
+      if (!isTimeZone(newTimeZone)) throw new SchedulerError(`Unknown time zone ${newTimeZone}`);
+      job.timeZone = newTimeZone;
+    } else if (changes.paused === false && job.paused && job.cron) {
+      job.nextRunAt = planTiming(job, now).nextRunAt;
+    }
+    if (changes.paused !== undefined) job.paused = changes.paused;
+    job.updatedAt = now.toISOString();
+    return job;
+  });
+}
+
+export async function deleteSchedule(member: Member, id: string) {
+  const job = await updateStore<JobData, ScheduledJob>(JOB_STORE, { jobs: {} }, (data) => {
+    const found = findJob(data, member, id);
+    checkCanChange(member, found);
+    delete data.jobs[id];
+    return found;
+  });
+  await deleteFiles(job.files);
+}
+
+// The message body to post, multipart when the message carries files
+async function buildBody(job: ScheduledJob) {
+  if (job.files.length === 0) {
+    return { body: JSON.stringify(job.payload), contentType: 'application/json' };
+  }
+  const form = new FormData();
+  form.append('payload_json', JSON.stringify(job.payload));
+  await Promise.all(
+    job.files.map(async (file, index) => {
+      const data = await readBlob(file.blob);
+      form.append(`files[${index}]`, new Blob([data], { type: file.contentType }), file.filename);
+    })
+  );
+  // Encoding through a Request gives the body and its boundary
+  const encoded = new Request('http://localhost', { method: 'POST', body: form });
+  return {
+    body: await encoded.arrayBuffer(),
+    contentType: encoded.headers.get('content-type') ?? '',
+  };
+}
+
+function discordError(data: unknown) {
+  if (!data || typeof data !== 'object') return 'Discord refused the message';
+  const { message, error } = data as { message?: unknown; error?: unknown };
+  return String(message ?? error ?? 'Discord refused the message');
+}
+
+async function sendJob(job: ScheduledJob): Promise<Omit<ScheduledRunResult, 'at'>> {
+  const account = await getAccount(job.accountId);
+  const role = account?.bots[job.botId] ?? null;
+  const session = account && (await resolveBotSession({ account, botId: job.botId, role }));
+  if (!session) {
+    return {
+      ok: false,
+      status: 403,
+      error: `${job.username} is no longer on this bot's team, or the bot was removed`,
+    };
+  }
+
+  const result = await sendDiscordRequest(session, {
+    method: 'POST',
+    path: messagePath(job.channelId),
+    ...(await buildBody(job)),
+  });
+  const ok = result.status < 400;
+  return {
+    ok,
+    status: result.status,
+    ...(ok
+      ? { messageId: (result.data as { id?: string } | null)?.id }
+      : { error: discordError(result.data) }),
+  };
+}
+
+function isDue(job: ScheduledJob, now: Date) {
+  return !job.paused && !!job.nextRunAt && Date.parse(job.nextRunAt) <= now.getTime();
+}
+
+class Scheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL);
+    this.tick();
+  }
+
+  private async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const now = new Date();
+      // Most ticks find nothing due and leave the store unwritten
+      const data = await readStore<JobData>(JOB_STORE, { jobs: {} });
+      if (!Object.values(data.jobs).some((job) => isDue(job, now))) return;
+      const due = await this.claimDueJobs(now);
+      await Promise.all(due.map(({ job, scheduledFor }) => this.run(job, scheduledFor)));
+    } catch (error) {
+      console.error('Scheduler error:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Moves every due schedule on to its next time before sending, so a slow or
+  // failing send can never post the same run twice
+  private claimDueJobs(now: Date) {
+    return updateStore<JobData, { job: ScheduledJob; scheduledFor: string }[]>(
+      JOB_STORE,
+      { jobs: {} },
+      (data) =>
+        Object.values(data.jobs)
+          .filter((job) => isDue(job, now))
+          .map((job) => {
+            const scheduledFor = job.nextRunAt as string;
+            job.nextRunAt = job.cron
+              ? (nextCronTime(parseCron(job.cron), now, job.timeZone)?.toISOString() ?? null)
+              : null;
+            return { job: { ...job }, scheduledFor };
+          })
+    );
+  }
+
+  private async run(job: ScheduledJob, scheduledFor: string) {
+    const startedAt = new Date();
+    let result: Omit<ScheduledRunResult, 'at'>;
+    if (startedAt.getTime() - Date.parse(scheduledFor) > MISSED_AFTER) {
+      result = { ok: false, status: 0, error: 'Missed: the server was not running at the time' };
+    } else {
+      try {
+        result = await sendJob(job);
+      } catch (error) {
+        console.error('Scheduled message error:', error);
+        result = { ok: false, status: 0, error: 'Could not reach Discord' };
+      }
+    }
+
+    const lastRun: ScheduledRunResult = { at: startedAt.toISOString(), ...result };
+    await appendLog<ScheduledRun>(RUN_LOG, {
+      id: randomUUID(),
+      jobId: job.id,
+      jobName: job.name,
+      botId: job.botId,
+      channelId: job.channelId,
+      username: job.username,
+      scheduledFor,
+      ...lastRun,
+    });
+
+    // A one-off message that went out is done; one that failed stays to be
+    // rescheduled or deleted
+    const finished = await updateStore<JobData, boolean>(JOB_STORE, { jobs: {} }, (data) => {
+      const current = data.jobs[job.id];
+      if (!current) return false;
+      if (!current.cron && !current.nextRunAt && result.ok) {
+        delete data.jobs[job.id];
+        return true;
+      }
+      current.lastRun = lastRun;
+      return false;
+    });
+    if (finished) await deleteFiles(job.files);
+  }
+}
+
+// Keep one scheduler per server process, surviving dev-mode module reloads
+const globalForScheduler = globalThis as unknown as { messageScheduler?: Scheduler };
+
+export const scheduler =
+  globalForScheduler.messageScheduler ?? (globalForScheduler.messageScheduler = new Scheduler());
@@ -0,0 +1,176 @@
+import { createHash, randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { Account, getAccount, Role } from './accounts';
+import { readStore, updateStore } from './store';
+import { readBotToken } from './vault';
+
+// Browser sessions for BotClienty accounts, each pointing at the bot the account
+// is currently operating. The browser only ever holds an opaque httpOnly cookie;
+// the store keeps a hash of it, never the raw value.
+//
+// A request may act as another of the account's bots by naming it in the
+// X-Bot-Id header (or a botId query parameter where headers cannot be set), so
+// several bots can be used side by side.
+
+export const SESSION_COOKIE = 'botclienty_session';
+export const BOT_HEADER = 'x-bot-id';
+const SESSION_STORE = 'sessions';
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+
+type SessionRecord = {
+  accountId: string;
+  botId: string | null;
+  createdAt: string;
+  expiresAt: string;
+};
+
+type SessionData = {
+  sessions: Record<string, SessionRecord>;
+};
+
+export type AccountSession = {
+  account: Account;
+  // The bot the request acts as, if the account is bound to it
+  botId: string | null;
+  role: Role | null;
+};
+
+export type BotSession = {
+  account: Account;
+  botId: string;
+  role: Role;
+  token: string;
+  // Value for Discord's Authorization header
+  authorization: string;
+};
+
+// What the browser learns about its session
+export type SessionInfo = {
+  account: { id: string; username: string };
+  botId: string | null;
+  role: Role | null;
+  bots: { id: string; role: Role }[];
+};
+
+export function sessionInfo(account: Account, botId: string | null): SessionInfo {
+  const role = botId ? (account.bots[botId] ?? null) : null;
+  return {
+    account: { id: account.id, username: account.username },
+    botId: role ? botId : null,
+    role,
+    bots: Object.entries(account.bots).map(([id, botRole]) => ({ id, role: botRole })),
+  };
+}
+
+function hashSessionId(id: string) {
+  return createHash('sha256').update(id).digest('hex');
+}
+
+export async function createSession(accountId: string, botId: string | null) {
+  const id = randomBytes(32).toString('base64url');
+  const now = Date.now();
+  const expiresAt = new Date(now + SESSION_TTL);
+
+  await updateStore<SessionData, void>(SESSION_STORE, { sessions: {} }, (data) => {
+    // Drop expired sessions while we are writing anyway
+    Object.entries(data.sessions).forEach(([key, session]) => {
+      if (Date.parse(session.expiresAt) <= now) delete data.sessions[key];
+    });
+    data.sessions[hashSessionId(id)] = {
+      accountId,
+      botId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+  });
+
+  return { id, expiresAt };
+}
+
+export async function resolveAccountSession(request: NextRequest): Promise<AccountSession | null> {
+  const id = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!id) return null;
+
+  const data = await readStore<SessionData>(SESSION_STORE, { sessions: {} });
+  const session = data.sessions[hashSessionId(id)];
+  if (!session || Date.parse(session.expiresAt) <= Date.now()) return null;
+
+  const account = await getAccount(session.accountId);
+  if (!account) return null;
+
+  // Roles are read fresh on every request, so changes apply immediately
+  const botId =
+    request.headers.get(BOT_HEADER) || request.nextUrl.searchParams.get('botId') || session.botId;
+  const role = botId ? (account.bots[botId] ?? null) : null;
+  return { account, botId: role ? botId : null, role };
+}
+
+// Adds the token of one of the account's bots, for requests made as that bot
+export async function resolveBotSession(
+  session: AccountSession,
+  botId = session.botId
+): Promise<BotSession | null> {
+  const role = botId ? session.account.bots[botId] : undefined;
+  if (!botId || !role) return null;
+
+  const token = await readBotToken(botId);
+  if (!token) return null;
+
+  return { account: session.account, botId, role, token, authorization: `Bot ${token}` };
+}
+
+export async function resolveSession(request: NextRequest): Promise<BotSession | null> {
+  const session = await resolveAccountSession(request);
+  return session ? resolveBotSession(session) : null;
+}
+
+// Resolves the session's bot for admin-only endpoints, or the error response to send
+export async function resolveAdminBot(request: NextRequest): Promise<string | NextResponse> {
+  const session = await resolveAccountSession(request);
+  if (!session) {
+    return NextResponse.json({ error: 'Not logged in' }, { status: 401 });
+  }
+  if (!session.botId || session.role !== 'admin') {
+    return NextResponse.json({ error: 'Only bot admins can do this' }, { status: 403 });
+  }
+  return session.botId;
+}
+
+export async function setSessionBot(request: NextRequest, botId: string | null) {
+  const id = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!id) return;
+
+  await updateStore<SessionData, void>(SESSION_STORE, { sessions: {} }, (data) => {
+    const session = data.sessions[hashSessionId(id)];
+    if (session) session.botId = botId;
+  });
+}
+
+export async function destroySession(request: NextRequest) {
+  const id = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!id) return;
+
+  await updateStore<SessionData, void>(SESSION_STORE, { sessions: {} }, (data) => {
+    delete data.sessions[hashSessionId(id)];
+  });
+}
+
+export function setSessionCookie(response: NextResponse, id: string, expiresAt: Date) {
+  response.cookies.set(SESSION_COOKIE, id, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Small JSON file store for server-side state (vault, sessions, audit log, ...).
+// Files live in BOTCLIENTY_DATA_DIR (default ./.data) and are written atomically;
+// updates to one file are serialized within the process.
+
+const DATA_DIR = process.env.BOTCLIENTY_DATA_DIR || path.join(process.cwd(), '.data');
+
+// Shared by everything in the server process that writes, the scheduler's timer
+// included, and kept across dev-mode module reloads
+const globalForStore = globalThis as unknown as {
+  storeWriteQueues?: Map<string, Promise<unknown>>;
+};
+
+const writeQueues =
+  globalForStore.storeWriteQueues ?? (globalForStore.storeWriteQueues = new Map());
+
+function storePath(name: string) {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+export async function readStore<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(storePath(name), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return structuredClone(fallback);
+    throw error;
+  }
+}
+
+async function writeStore<T>(name: string, data: T) {
+  await fs.mkdir(DATA_DIR, { recursive: true, mode: 0o700 });
+  const file = storePath(name);
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(data, null, 2), { mode: 0o600 });
+  await fs.rename(temp, file);
+}
+
+// Reads, mutates and writes a store file; the mutator's return value is passed through.
+export function updateStore<T, R>(
+  name: string,
+  fallback: T,
+  mutate: (data: T) => R | Promise<R>
+): Promise<R> {
+  const previous = writeQueues.get(name) ?? Promise.resolve();
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const data = await readStore(name, fallback);
+      const result = await mutate(data);
+      await writeStore(name, data);
+      return result;
+    });
+  writeQueues.set(name, next);
+  return next;
+}
+
+// Append-only JSON Lines logs, for records that are never rewritten.
+
+function logPath(name: string) {
+  return path.join(DATA_DIR, `${name}.jsonl`);
+}
+
+export async function appendLog<T>(name: string, entry: T) {
+  await fs.mkdir(DATA_DIR, { recursive: true, mode: 0o700 });
+  await fs.appendFile(logPath(name), `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+}
+
+export async function readLog<T>(name: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(logPath(name), 'utf8');
+    return raw
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as T);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+// Binary files, such as uploads kept until a scheduled message posts them.
+
+function blobPath(name: string) {
+  return path.join(DATA_DIR, 'blobs', name);
+}
+
+export async function writeBlob(name: string, data: Uint8Array) {
+  await fs.mkdir(path.join(DATA_DIR, 'blobs'), { recursive: true, mode: 0o700 });
+  await fs.writeFile(blobPath(name), data, { mode: 0o600 });
+}
+
+export function readBlob(name: string): Promise<Buffer> {
+  return fs.readFile(blobPath(name));
+}
+
+export async function deleteBlob(name: string) {
+  await fs.rm(blobPath(name), { force: true });
+}
@@ -0,0 +1,74 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { readStore, updateStore } from './store';
+
+// Bot tokens encrypted at rest (AES-256-GCM) with a key taken from
+// BOTCLIENTY_VAULT_KEY. Tokens are stored per bot user id.
+
+const VAULT_STORE = 'vault';
+
+type EncryptedSecret = {
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+type VaultData = {
+  tokens: Record<string, EncryptedSecret & { updatedAt: string }>;
+};
+
+export class VaultConfigError extends Error {
+  constructor() {
+    super('BOTCLIENTY_VAULT_KEY is not configured on the server');
+    this.name = 'VaultConfigError';
+  }
+}
+
+function vaultKey(): Buffer {
+  const secret = process.env.BOTCLIENTY_VAULT_KEY;
+  if (!secret) throw new VaultConfigError();
+  // Any string works as the key material; hash it down to 32 bytes
+  return createHash('sha256').update(secret).digest();
+}
+
+function encrypt(plaintext: string): EncryptedSecret {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', vaultKey(), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+function decrypt(secret: EncryptedSecret): string {
+  const decipher = createDecipheriv('aes-256-gcm', vaultKey(), Buffer.from(secret.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(secret.tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(secret.data, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+}
+
+export function assertVaultConfigured() {
+  vaultKey();
+}
+
+export async function storeBotToken(botId: string, token: string) {
+  const secret = encrypt(token);
+  await updateStore<VaultData, void>(VAULT_STORE, { tokens: {} }, (vault) => {
+    vault.tokens[botId] = { ...secret, updatedAt: new Date().toISOString() };
+  });
+}
+
+export async function readBotToken(botId: string): Promise<string | null> {
+  const vault = await readStore<VaultData>(VAULT_STORE, { tokens: {} });
+  const secret = vault.tokens[botId];
+  return secret ? decrypt(secret) : null;
+}
+
+export async function deleteBotToken(botId: string) {
+  await updateStore<VaultData, void>(VAULT_STORE, { tokens: {} }, (vault) => {
+    delete vault.tokens[botId];
+  });
+}
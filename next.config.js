@@ -6,6 +6,12 @@ const nextConfig = {
   },
   poweredByHeader: false,
   compress: true,
+  experimental: {
+    // The Gateway client runs server-side on ws, which must not be bundled
+    serverComponentsExternalPackages: ['ws'],
+    // instrumentation.ts starts the scheduled message runner
+    instrumentationHook: true,
+  },
   async headers() {
     return [
       {